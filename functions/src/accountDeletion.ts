@@ -0,0 +1,192 @@
+/**
+ * Account deletion. Removes every trace of a user: all subcollections of
+ * users/{uid} (memos, chunks, chat sessions with messages, tasks, exports,
+ * deletedMemos tombstones, ...), the audio/{uid}/ and exports/{uid}/
+ * Storage prefixes, rateLimits/{uid}, the user document and finally the
+ * Firebase Auth user.
+ *
+ * Work runs in batches until a deadline; progress is kept in
+ * accountDeletions/{uid} and calling again resumes where it stopped.
+ * Deletes are idempotent, so a pass interrupted mid-batch is safe to
+ * repeat. Completion is recorded in auditLogs.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+
+export type AccountDeletionStatus = "running" | "completed";
+
+/**
+ * Stored deletion state (accountDeletions/{uid})
+ */
+export interface AccountDeletionJob {
+  uid: string;
+  status: AccountDeletionStatus;
+  deletedDocuments: number;
+  deletedFiles: number;
+  passes: number; // Calls that worked on this deletion
+}
+
+const DOC_PAGE_SIZE = 200;
+const FILE_PAGE_SIZE = 200;
+const STORAGE_PREFIXES = ["audio", "exports"];
+
+/**
+ * Delete a collection page by page, including nested subcollections
+ * @param {admin.firestore.CollectionReference} collection - Collection
+ * @param {number} deadline - Epoch milliseconds to stop by
+ * @return {Promise<Object>} Documents deleted and whether it is now empty
+ */
+async function deleteCollection(
+  collection: admin.firestore.CollectionReference,
+  deadline: number
+): Promise<{deleted: number; done: boolean}> {
+  const db = admin.firestore();
+  let deleted = 0;
+  while (Date.now() < deadline) {
+    const snap = await collection.limit(DOC_PAGE_SIZE).select().get();
+    if (snap.empty) return {deleted, done: true};
+
+    // recursiveDelete also takes subcollections (e.g. chat messages)
+    const writer = db.bulkWriter();
+    for (const doc of snap.docs) {
+      await db.recursiveDelete(doc.ref, writer);
+    }
+    await writer.close();
+    deleted += snap.size;
+  }
+  return {deleted, done: false};
+}
+
+/**
+ * Delete every Storage object under a prefix, page by page
+ * @param {string} prefix - Object name prefix, ending in "/"
+ * @param {number} deadline - Epoch milliseconds to stop by
+ * @return {Promise<Object>} Files deleted and whether none are left
+ */
+async function deleteStoragePrefix(
+  prefix: string,
+  deadline: number
+): Promise<{deleted: number; done: boolean}> {
+  const bucket = admin.storage().bucket();
+  let deleted = 0;
+  while (Date.now() < deadline) {
+    const [files] = await bucket.getFiles({
+      prefix,
+      maxResults: FILE_PAGE_SIZE,
+      autoPaginate: false,
+    });
+    if (files.length === 0) return {deleted, done: true};
+    await Promise.all(files.map((file) =>
+      file.delete({ignoreNotFound: true})));
+    deleted += files.length;
+  }
+  return {deleted, done: false};
+}
+
+/**
+ * Delete a user's data and account, resuming an earlier deletion if one
+ * was interrupted
+ * @param {string} uid - User to delete
+ * @param {number} deadline - Epoch milliseconds to stop by
+ * @return {Promise<AccountDeletionJob>} Progress; status "completed" once
+ *   the Auth user is gone
+ */
+export async function deleteAccount(
+  uid: string,
+  deadline: number
+): Promise<AccountDeletionJob> {
+  const db = admin.firestore();
+  const jobRef = db.collection("accountDeletions").doc(uid);
+  const userRef = db.collection("users").doc(uid);
+
+  const existing = await jobRef.get();
+  const job: AccountDeletionJob = existing.exists ?
+    existing.data() as AccountDeletionJob :
+    {
+      uid,
+      status: "running",
+      deletedDocuments: 0,
+      deletedFiles: 0,
+      passes: 0,
+    };
+  if (job.status === "completed") return job;
+  job.passes++;
+
+  const save = () => jobRef.set({
+    ...job,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    ...(existing.exists ?
+      {} :
+      {startedAt: admin.firestore.FieldValue.serverTimestamp()}),
+  }, {merge: true});
+  await save();
+
+  // 1) Firestore data under users/{uid}
+  let done = true;
+  for (const collection of await userRef.listCollections()) {
+    const result = await deleteCollection(collection, deadline);
+    job.deletedDocuments += result.deleted;
+    if (!result.done) {
+      done = false;
+      break;
+    }
+  }
+
+  // 2) Storage objects
+  if (done) {
+    for (const prefix of STORAGE_PREFIXES) {
+      const result = await deleteStoragePrefix(`${prefix}/${uid}/`, deadline);
+      job.deletedFiles += result.deleted;
+      if (!result.done) {
+        done = false;
+        break;
+      }
+    }
+  }
+
+  if (!done) {
+    await save();
+    logger.info("Account deletion paused:", job);
+    return job;
+  }
+
+  // 3) Top-level documents keyed by uid, then the auth user
+  await Promise.all([
+    userRef.delete(),
+    db.collection("rateLimits").doc(uid).delete(),
+  ]);
+  job.deletedDocuments += 2;
+
+  try {
+    await admin.auth().deleteUser(uid);
+  } catch (error) {
+    const code = (error as {code?: string})?.code;
+    if (code !== "auth/user-not-found") throw error;
+  }
+
+  job.status = "completed";
+  const batch = db.batch();
+  batch.set(db.collection("auditLogs").doc(), {
+    userId: uid,
+    action: "account.delete",
+    resourceType: "user",
+    resourceId: uid,
+    changes: {
+      deletedDocuments: job.deletedDocuments,
+      deletedFiles: job.deletedFiles,
+      passes: job.passes,
+    },
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    status: "success",
+  });
+  batch.set(jobRef, {
+    ...job,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    completedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, {merge: true});
+  await batch.commit();
+
+  logger.info("Account deleted:", job);
+  return job;
+}
@@ -0,0 +1,434 @@
+/**
+ * Account data export. Collects everything under users/{uid} (profile,
+ * memos with transcripts and word timings, chat sessions with messages,
+ * tasks, tags and any other subcollection) plus the memo audio into one
+ * zip in Storage, with a manifest.json describing its contents.
+ *
+ * Progress is written to users/{uid}/exports/{exportId} so the app can
+ * watch it; the finished document carries a signed download URL.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import archiver from "archiver";
+import {randomUUID} from "crypto";
+
+export type ExportStatus = "running" | "completed" | "error";
+export type ExportPhase = "collecting" | "archiving" | "signing" | "done";
+
+/**
+ * Stored export state (users/{uid}/exports/{exportId})
+ */
+export interface ExportJob {
+  exportId: string;
+  uid: string;
+  status: ExportStatus;
+  phase: ExportPhase;
+  progress: number; // 0-100
+  storagePath: string;
+  downloadUrl: string | null;
+  expiresAt: admin.firestore.Timestamp | null;
+  sizeBytes: number | null;
+  counts: ExportCounts | null;
+  error: string | null;
+}
+
+/**
+ * Number of items of each kind in an archive
+ */
+export interface ExportCounts {
+  memos: number;
+  audioFiles: number;
+  chatSessions: number;
+  chatMessages: number;
+  tasks: number;
+  tags: number;
+  otherDocuments: number;
+}
+
+/**
+ * One file in the archive, as listed in manifest.json
+ */
+interface ManifestEntry {
+  path: string;
+  kind: "profile" | "memo" | "transcript" | "audio" | "chat" | "tasks" |
+    "tags" | "collection";
+  memoId?: string;
+  sessionId?: string;
+  contentType?: string;
+  sizeBytes?: number;
+}
+
+// Subcollections exported as their own files, and ones left out: chunks
+// and the keyword index are derived search data, exports are earlier
+// archives
+const HANDLED_COLLECTIONS = ["memos", "chatSessions", "tasks"];
+const EXCLUDED_COLLECTIONS = [
+  "chunks",
+  "keywordPostings",
+  "keywordMemos",
+  "exports",
+];
+
+// An export that hasn't written progress for this long is abandoned
+export const EXPORT_STALE_MS = 15 * 60 * 1000;
+
+// Signed URLs (v4) can't be valid for longer than seven days
+const DOWNLOAD_URL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Convert Firestore values (timestamps, references, vectors, ...) to
+ * plain JSON
+ * @param {unknown} value - Firestore document data or part of it
+ * @return {unknown} JSON-safe value
+ */
+function toJson(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (value instanceof admin.firestore.DocumentReference) {
+    return value.path;
+  }
+  if (value instanceof admin.firestore.GeoPoint) {
+    return {latitude: value.latitude, longitude: value.longitude};
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("base64");
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJson);
+  }
+  if (value && typeof value === "object") {
+    const vector = value as {toArray?: () => number[]};
+    if (typeof vector.toArray === "function") return vector.toArray();
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, toJson(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Pretty-printed JSON of Firestore data
+ * @param {unknown} value - Data
+ * @return {string} JSON text
+ */
+function jsonFile(value: unknown): string {
+  return JSON.stringify(toJson(value), null, 2) + "\n";
+}
+
+/**
+ * Start an export for a user; fails while another one is still running
+ * @param {string} uid - Owner
+ * @return {Promise<ExportJob>} The new export
+ */
+export async function createExportJob(uid: string): Promise<ExportJob> {
+  const db = admin.firestore();
+  const exportsRef = db.collection("users").doc(uid).collection("exports");
+  const exportId = randomUUID();
+  const job: ExportJob = {
+    exportId,
+    uid,
+    status: "running",
+    phase: "collecting",
+    progress: 0,
+    storagePath: `exports/${uid}/${exportId}.zip`,
+    downloadUrl: null,
+    expiresAt: null,
+    sizeBytes: null,
+    counts: null,
+    error: null,
+  };
+
+  await db.runTransaction(async (tx) => {
+    const running = await tx.get(
+      exportsRef.where("status", "==", "running").limit(5)
+    );
+    const active = running.docs.some((doc) => {
+      const updatedAt = doc.data().updatedAt?.toMillis?.() || 0;
+      return Date.now() - updatedAt < EXPORT_STALE_MS;
+    });
+    if (active) {
+      throw new Error("Export already in progress");
+    }
+    tx.set(exportsRef.doc(exportId), {
+      ...job,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+  return job;
+}
+
+/**
+ * Build the archive for an export job and sign its download URL
+ * @param {ExportJob} job - Export created by createExportJob
+ * @return {Promise<ExportJob>} The finished export
+ */
+export async function runExportJob(job: ExportJob): Promise<ExportJob> {
+  const {uid} = job;
+  const db = admin.firestore();
+  const bucket = admin.storage().bucket();
+  const userRef = db.collection("users").doc(uid);
+  const jobRef = userRef.collection("exports").doc(job.exportId);
+
+  // Progress writes are throttled to about one every two seconds
+  let lastProgressAt = 0;
+  const report = async (
+    fields: Partial<ExportJob>,
+    force = false
+  ): Promise<void> => {
+    const now = Date.now();
+    if (!force && now - lastProgressAt < 2000) return;
+    lastProgressAt = now;
+    Object.assign(job, fields);
+    await jobRef.update({
+      ...fields,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  };
+
+  // Set once the archive upload starts; stops it if the export fails
+  let abortUpload = (): void => undefined;
+
+  try {
+    // 1) Collect Firestore data
+    const [profileSnap, memosSnap, sessionsSnap, tasksSnap, collections] =
+      await Promise.all([
+        userRef.get(),
+        userRef.collection("memos").orderBy("createdAt").get(),
+        userRef.collection("chatSessions").get(),
+        userRef.collection("tasks").get(),
+        userRef.listCollections(),
+      ]);
+
+    const archive = archiver("zip", {zlib: {level: 6}});
+    const output = bucket.file(job.storagePath).createWriteStream({
+      contentType: "application/zip",
+      metadata: {
+        contentDisposition: "attachment; filename=\"voicegpt-export.zip\"",
+      },
+    });
+    const uploaded = new Promise<void>((resolve, reject) => {
+      output.on("finish", resolve);
+      output.on("error", reject);
+      archive.on("error", reject);
+    });
+    // Only awaited after finalize; a stream error before then must not
+    // become an unhandled rejection
+    uploaded.catch(() => undefined);
+    abortUpload = () => {
+      archive.abort();
+      output.destroy();
+    };
+    archive.pipe(output);
+
+    const entries: ManifestEntry[] = [];
+    const addJson = (
+      path: string,
+      data: unknown,
+      entry: Omit<ManifestEntry, "path">
+    ) => {
+      const content = jsonFile(data);
+      archive.append(content, {name: path});
+      entries.push({
+        path,
+        contentType: "application/json",
+        sizeBytes: Buffer.byteLength(content),
+        ...entry,
+      });
+    };
+
+    addJson("profile.json", profileSnap.data() || {}, {kind: "profile"});
+
+    // Memos: full document, plain-text transcript and audio
+    const tagCounts = new Map<string, number>();
+    let audioFiles = 0;
+    for (const [i, memoDoc] of memosSnap.docs.entries()) {
+      const memo = memoDoc.data();
+      const memoId = memoDoc.id;
+      addJson(`memos/${memoId}.json`, {id: memoId, ...memo}, {
+        kind: "memo",
+        memoId,
+      });
+      if (typeof memo.transcript === "string" && memo.transcript) {
+        const path = `memos/${memoId}.txt`;
+        archive.append(memo.transcript + "\n", {name: path});
+        entries.push({
+          path,
+          kind: "transcript",
+          memoId,
+          contentType: "text/plain",
+          sizeBytes: Buffer.byteLength(memo.transcript) + 1,
+        });
+      }
+      (Array.isArray(memo.tags) ? memo.tags : []).forEach((tag: string) =>
+        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1));
+
+      if (typeof memo.storagePath === "string" && memo.storagePath) {
+        const file = bucket.file(memo.storagePath);
+        const [exists] = await file.exists();
+        if (exists) {
+          const [metadata] = await file.getMetadata();
+          const extension = memo.storagePath.split(".").pop() || "audio";
+          const path = `audio/${memoId}.${extension}`;
+          // Audio is already compressed
+          archive.append(file.createReadStream(), {name: path, store: true});
+          entries.push({
+            path,
+            kind: "audio",
+            memoId,
+            contentType: metadata.contentType,
+            sizeBytes: Number(metadata.size) || undefined,
+          });
+          audioFiles++;
+        } else {
+          logger.warn("Export: audio file missing:", {uid, memoId});
+        }
+      }
+      await report({
+        phase: "collecting",
+        progress: Math.round(((i + 1) / Math.max(memosSnap.size, 1)) * 40),
+      });
+    }
+
+    // Chat sessions with their messages in order
+    let chatMessages = 0;
+    for (const sessionDoc of sessionsSnap.docs) {
+      const messagesSnap = await sessionDoc.ref.collection("messages")
+        .orderBy("createdAt")
+        .get();
+      chatMessages += messagesSnap.size;
+      addJson(`chats/${sessionDoc.id}.json`, {
+        id: sessionDoc.id,
+        ...sessionDoc.data(),
+        messages: messagesSnap.docs.map((doc) => ({id: doc.id, ...doc.data()})),
+      }, {kind: "chat", sessionId: sessionDoc.id});
+    }
+
+    addJson(
+      "tasks.json",
+      tasksSnap.docs.map((doc) => ({id: doc.id, ...doc.data()})),
+      {kind: "tasks"}
+    );
+    addJson(
+      "tags.json",
+      Array.from(tagCounts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([tag, memoCount]) => ({tag, memoCount})),
+      {kind: "tags"}
+    );
+
+    // Anything else stored for the user (preferences, tombstones, ...)
+    let otherDocuments = 0;
+    for (const collection of collections) {
+      if (HANDLED_COLLECTIONS.includes(collection.id) ||
+        EXCLUDED_COLLECTIONS.includes(collection.id)) {
+        continue;
+      }
+      const snap = await collection.get();
+      otherDocuments += snap.size;
+      addJson(
+        `data/${collection.id}.json`,
+        snap.docs.map((doc) => ({id: doc.id, ...doc.data()})),
+        {kind: "collection"}
+      );
+    }
+
+    const counts: ExportCounts = {
+      memos: memosSnap.size,
+      audioFiles,
+      chatSessions: sessionsSnap.size,
+      chatMessages,
+      tasks: tasksSnap.size,
+      tags: tagCounts.size,
+      otherDocuments,
+    };
+    archive.append(jsonFile({
+      format: "voicegpt-export",
+      version: 1,
+      exportId: job.exportId,
+      uid,
+      exportedAt: new Date().toISOString(),
+      counts,
+      excluded: {
+        chunks: "Search index derived from the transcripts",
+      },
+      files: entries,
+    }), {name: "manifest.json"});
+
+    // 2) Stream the archive to Storage
+    await report({phase: "archiving", progress: 40, counts}, true);
+    archive.on("progress", (progress) => {
+      const {processed, total} = progress.entries;
+      void report({
+        progress: 40 + Math.round((processed / Math.max(total, 1)) * 55),
+      }).catch(() => undefined);
+    });
+    await archive.finalize();
+    await uploaded;
+
+    // 3) Sign the download URL
+    await report({phase: "signing", progress: 95}, true);
+    const expires = Date.now() + DOWNLOAD_URL_TTL_MS;
+    const [downloadUrl] = await bucket.file(job.storagePath).getSignedUrl({
+      action: "read",
+      expires,
+    });
+
+    await report({
+      status: "completed",
+      phase: "done",
+      progress: 100,
+      downloadUrl,
+      expiresAt: admin.firestore.Timestamp.fromMillis(expires),
+      sizeBytes: archive.pointer(),
+      counts,
+    }, true);
+    await jobRef.update({
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    logger.info("Account export completed:", {
+      uid,
+      exportId: job.exportId,
+      sizeBytes: archive.pointer(),
+      counts,
+    });
+    return job;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error("Account export failed:", {
+      uid,
+      exportId: job.exportId,
+      error: message,
+    });
+    await report({status: "error", error: message}, true).catch(() => {
+      // Keep the original error
+    });
+    // Stop the upload before removing whatever part of it was written
+    abortUpload();
+    await bucket.file(job.storagePath).delete({ignoreNotFound: true})
+      .catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Delete a user's export archives other than the given one; each new
+ * export replaces the previous download
+ * @param {string} uid - Owner
+ * @param {string} keepExportId - Export to keep
+ * @return {Promise<number>} Archives deleted
+ */
+export async function deleteOldExports(
+  uid: string,
+  keepExportId: string
+): Promise<number> {
+  const [files] = await admin.storage().bucket()
+    .getFiles({prefix: `exports/${uid}/`});
+  const keep = `exports/${uid}/${keepExportId}.zip`;
+  const old = files.filter((file) => file.name !== keep);
+  await Promise.all(old.map((file) =>
+    file.delete({ignoreNotFound: true})));
+  return old.length;
+}
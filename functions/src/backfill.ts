@@ -0,0 +1,354 @@
+/**
+ * Resumable re-embedding backfill. A job re-indexes one user's memos, or
+ * every memo, into a target embedding version, saving a cursor in
+ * embeddingJobs/{jobId} after each page so it can be resumed by calling
+ * the admin callable again with the job ID.
+ *
+ * For an all-users job the phases are:
+ *   migrate  - index memos in both the active and the target version
+ *   (switch) - make the target version active for retrieval
+ *   cleanup  - drop chunks of the previous version
+ *
+ * Retrieval only switches once every memo has target-version chunks. A
+ * migrate pass with failures stops as "needs_retry"; resuming it sweeps the
+ * memos again (migrated ones are skipped), or with `force` switches anyway.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {hashTranscript} from "./chunking";
+import {EmbeddingProvider} from "./embeddings";
+import {DEFAULT_LANGUAGE} from "./language";
+import {
+  EMBEDDING_CONFIG_PATH,
+  EmbeddingConfig,
+  chunkMetadata,
+  hashChunkMetadata,
+  indexMemoChunks,
+  sameVersions,
+  syncChunkMetadata,
+} from "./indexing";
+import {keywordIndexHash, updateKeywordIndex} from "./keywordIndex";
+
+export type BackfillPhase = "migrate" | "cleanup";
+export type BackfillStatus = "running" | "needs_retry" | "completed";
+
+/**
+ * Stored job state (embeddingJobs/{jobId})
+ */
+export interface BackfillJob {
+  id: string;
+  uid: string | null; // null for all users
+  targetVersion: string;
+  previousVersion: string;
+  activate: boolean;
+  force: boolean; // Activate even though memos failed to migrate
+  phase: BackfillPhase;
+  status: BackfillStatus;
+  cursor: string | null; // Path of the last processed memo
+  processedMemos: number;
+  indexedMemos: number;
+  skippedMemos: number;
+  failedMemos: number; // In the current pass
+  failures: Array<{path: string; error: string}>;
+}
+
+const PAGE_SIZE = 25;
+const MAX_RECORDED_FAILURES = 20;
+
+/**
+ * Create a backfill job; an all-users job also records the target version
+ * in the embedding config so new memos are indexed in it right away
+ * @param {Object} params - Scope, versions and whether to activate
+ * @return {Promise<BackfillJob>} The new job
+ */
+export async function createBackfillJob(params: {
+  uid: string | null;
+  config: EmbeddingConfig;
+  targetVersion: string;
+  activate: boolean;
+  requestedBy: string;
+}): Promise<BackfillJob> {
+  const db = admin.firestore();
+  const ref = db.collection("embeddingJobs").doc();
+  const job: BackfillJob = {
+    id: ref.id,
+    uid: params.uid,
+    targetVersion: params.targetVersion,
+    previousVersion: params.config.activeVersion,
+    activate: params.activate && params.uid === null,
+    force: false,
+    phase: "migrate",
+    status: "running",
+    cursor: null,
+    processedMemos: 0,
+    indexedMemos: 0,
+    skippedMemos: 0,
+    failedMemos: 0,
+    failures: [],
+  };
+
+  await ref.set({
+    ...job,
+    requestedBy: params.requestedBy,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  if (params.uid === null) {
+    await db.doc(EMBEDDING_CONFIG_PATH).set(
+      {
+        activeVersion: params.config.activeVersion,
+        targetVersion: params.targetVersion,
+        migrationJobId: ref.id,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      {merge: true}
+    );
+  }
+  return job;
+}
+
+/**
+ * Load a job
+ * @param {string} jobId - Job ID
+ * @return {Promise<BackfillJob | null>} The job, or null if missing
+ */
+export async function loadBackfillJob(
+  jobId: string
+): Promise<BackfillJob | null> {
+  const snap = await admin.firestore().collection("embeddingJobs")
+    .doc(jobId).get();
+  return snap.exists ? ({...snap.data(), id: snap.id} as BackfillJob) : null;
+}
+
+/**
+ * Resume a job that stopped because memos failed to migrate
+ * @param {BackfillJob} job - Job in "needs_retry" (mutated)
+ * @param {boolean} force - Switch retrieval over without another sweep
+ * @return {BackfillJob} The job, running again
+ */
+export function retryBackfillJob(
+  job: BackfillJob,
+  force: boolean
+): BackfillJob {
+  job.status = "running";
+  if (force) {
+    // The cursor is past the last memo, so the run switches right away
+    job.force = true;
+  } else {
+    job.cursor = null;
+    job.failedMemos = 0;
+    job.failures = [];
+  }
+  return job;
+}
+
+/**
+ * Fetch the next page of memos after the cursor
+ * @param {BackfillJob} job - Job being run
+ * @return {Promise<admin.firestore.QueryDocumentSnapshot[]>} Memos
+ */
+async function nextMemoPage(
+  job: BackfillJob
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const db = admin.firestore();
+  let query: admin.firestore.Query = job.uid ?
+    db.collection("users").doc(job.uid).collection("memos") :
+    db.collectionGroup("memos");
+  query = query.orderBy(admin.firestore.FieldPath.documentId());
+  if (job.cursor) {
+    // Collection group cursors need the full path; user cursors the ID
+    query = query.startAfter(
+      job.uid ? job.cursor.split("/").pop() : db.doc(job.cursor)
+    );
+  }
+  const snap = await query.limit(PAGE_SIZE).get();
+  return snap.docs;
+}
+
+/**
+ * Re-index one memo into the given versions and the keyword index, and
+ * bring its chunk metadata up to date
+ * @param {admin.firestore.QueryDocumentSnapshot} doc - Memo
+ * @param {EmbeddingProvider[]} providers - Providers, target first
+ * @return {Promise<boolean>} False when the memo was skipped
+ */
+async function backfillMemo(
+  doc: admin.firestore.QueryDocumentSnapshot,
+  providers: EmbeddingProvider[]
+): Promise<boolean> {
+  const data = doc.data();
+  // Memos still in the pipeline are indexed by onTranscriptWrite, which
+  // already writes the target version
+  if (!data.transcript || data.status !== "indexed") return false;
+
+  const uid = doc.ref.parent.parent?.id;
+  if (!uid) return false;
+
+  const versions = providers.map((p) => p.version);
+  const transcriptHash = hashTranscript(
+    data.transcript,
+    Array.isArray(data.words) ? data.words : [],
+    data.language || DEFAULT_LANGUAGE
+  );
+  const indexedVersions: string[] = Array.isArray(data.embeddingVersions) ?
+    data.embeddingVersions : [];
+  const embedded = data.embeddedTranscriptHash === transcriptHash &&
+    sameVersions(indexedVersions, versions);
+  // Memos indexed before the keyword index existed get their postings too
+  const keywordHash = keywordIndexHash(transcriptHash, data.isDeleted === true);
+  const keywordIndexed = data.keywordIndexHash === keywordHash;
+  // Chunks written before a metadata field existed get it copied on
+  const metadata = chunkMetadata(data);
+  const metadataHash = hashChunkMetadata(metadata);
+  const metadataSynced = data.chunkMetadataHash === metadataHash;
+  if (embedded && keywordIndexed && metadataSynced) {
+    return false;
+  }
+
+  const updates: Record<string, unknown> = {};
+  if (!embedded) {
+    const result = await indexMemoChunks({
+      uid,
+      memoId: doc.id,
+      memo: data,
+      providers,
+    });
+    Object.assign(updates, {
+      embeddedChunkCount: result.embeddedCount,
+      embeddedTranscriptHash: transcriptHash,
+      embeddingVersions: versions,
+      chunkMetadataHash: metadataHash,
+    });
+  } else if (!metadataSynced) {
+    await syncChunkMetadata(uid, doc.id, metadata);
+    updates.chunkMetadataHash = metadataHash;
+  }
+  if (!keywordIndexed) {
+    await updateKeywordIndex({uid, memoId: doc.id, memo: data});
+    updates.keywordIndexHash = keywordHash;
+  }
+  await doc.ref.update(updates);
+  return true;
+}
+
+/**
+ * Run a job until it completes or the deadline passes, saving progress
+ * after every page
+ * @param {BackfillJob} job - Job to run (mutated with progress)
+ * @param {Function} providerFor - Provider for an embedding version
+ * @param {number} deadline - Epoch ms to stop by
+ * @return {Promise<BackfillJob>} Job state after this run
+ */
+export async function runBackfillJob(
+  job: BackfillJob,
+  providerFor: (version: string) => EmbeddingProvider,
+  deadline: number
+): Promise<BackfillJob> {
+  const db = admin.firestore();
+  const jobRef = db.collection("embeddingJobs").doc(job.id);
+
+  while (job.status === "running" && Date.now() < deadline) {
+    // Keep the previous version current until retrieval switches over
+    const versions = job.phase === "migrate" ?
+      Array.from(new Set([job.targetVersion, job.previousVersion])) :
+      [job.targetVersion];
+    const providers = versions.map(providerFor);
+
+    const page = await nextMemoPage(job);
+    for (const doc of page) {
+      try {
+        const indexed = await backfillMemo(doc, providers);
+        if (indexed) {
+          job.indexedMemos++;
+        } else {
+          job.skippedMemos++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error("Backfill failed for memo:", {
+          jobId: job.id,
+          path: doc.ref.path,
+          error: message,
+        });
+        job.failedMemos++;
+        if (job.failures.length < MAX_RECORDED_FAILURES) {
+          job.failures.push({path: doc.ref.path, error: message});
+        }
+      }
+      job.processedMemos++;
+      job.cursor = doc.ref.path;
+    }
+
+    const completed = page.length < PAGE_SIZE && await finishPhase(job);
+
+    await jobRef.set(
+      {
+        ...job,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        ...(completed ?
+          {completedAt: admin.firestore.FieldValue.serverTimestamp()} :
+          {}),
+      },
+      {merge: true}
+    );
+  }
+
+  logger.info("Backfill run finished:", {
+    jobId: job.id,
+    status: job.status,
+    phase: job.phase,
+    processedMemos: job.processedMemos,
+    failedMemos: job.failedMemos,
+  });
+  return job;
+}
+
+/**
+ * Advance a job past the end of its memo list
+ * @param {BackfillJob} job - Job (mutated)
+ * @return {Promise<boolean>} True when the whole job is complete
+ */
+async function finishPhase(job: BackfillJob): Promise<boolean> {
+  const needsSwitch =
+    job.phase === "migrate" &&
+    job.activate &&
+    job.targetVersion !== job.previousVersion;
+
+  if (!needsSwitch) {
+    job.status = "completed";
+    return true;
+  }
+
+  // Failed memos have no target-version chunks and would drop out of
+  // retrieval; wait for a retry or an explicit force
+  if (job.failedMemos > 0 && !job.force) {
+    logger.warn("Backfill needs retry before activation:", {
+      jobId: job.id,
+      failedMemos: job.failedMemos,
+    });
+    job.status = "needs_retry";
+    return false;
+  }
+
+  // Every memo now has target-version chunks: switch retrieval over, then
+  // sweep again to remove the previous version's chunks
+  await admin.firestore().doc(EMBEDDING_CONFIG_PATH).set(
+    {
+      activeVersion: job.targetVersion,
+      targetVersion: job.targetVersion,
+      previousVersion: job.previousVersion,
+      activatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    {merge: true}
+  );
+  logger.info("Embedding version activated:", {
+    jobId: job.id,
+    activeVersion: job.targetVersion,
+  });
+  job.phase = "cleanup";
+  job.cursor = null;
+  return false;
+}
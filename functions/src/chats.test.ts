@@ -0,0 +1,97 @@
+/**
+ * Chat Session Tests
+ * Deleting sessions with their messages (against an in-memory Firestore).
+ * Run with: npm test (in functions/)
+ */
+
+import {beforeEach, describe, expect, it, vi} from "vitest";
+import {deleteChatSessions} from "./chats";
+
+const firestore = vi.hoisted(() => {
+  const state = {
+    sessions: new Set<string>(),
+    messages: new Set<string>(), // Sessions with messages
+    deleted: [] as string[],
+    pageSizes: [] as number[],
+  };
+  const sessionRef = (id: string) => ({
+    id,
+    get: async () => ({exists: state.sessions.has(id)}),
+    collection: () => ({
+      limit: () => ({
+        get: async () => ({empty: !state.messages.has(id)}),
+      }),
+    }),
+  });
+  const sessions = {
+    doc: sessionRef,
+    where: () => ({
+      select: () => ({
+        limit: (size: number) => ({
+          get: async () => {
+            const docs = Array.from(state.sessions).slice(0, size)
+              .map((id) => ({ref: sessionRef(id)}));
+            state.pageSizes.push(docs.length);
+            return {docs, size: docs.length, empty: docs.length === 0};
+          },
+        }),
+      }),
+    }),
+  };
+  const db = {
+    collection: () => ({doc: () => ({collection: () => sessions})}),
+    bulkWriter: () => ({
+      flush: async () => undefined,
+      close: async () => undefined,
+    }),
+    recursiveDelete: async (ref: {id: string}) => {
+      state.sessions.delete(ref.id);
+      state.messages.delete(ref.id);
+      state.deleted.push(ref.id);
+    },
+  };
+  return {state, db};
+});
+
+vi.mock("firebase-admin", () => ({
+  firestore: Object.assign(() => firestore.db, {
+    Timestamp: {fromDate: (date: Date) => date},
+  }),
+}));
+vi.mock("firebase-functions/logger", () => ({info: vi.fn()}));
+
+describe("deleteChatSessions", () => {
+  beforeEach(() => {
+    firestore.state.sessions = new Set();
+    firestore.state.messages = new Set();
+    firestore.state.deleted = [];
+    firestore.state.pageSizes = [];
+  });
+
+  it("deletes one session with its messages", async () => {
+    firestore.state.sessions.add("s1");
+    firestore.state.messages.add("s1");
+
+    expect(await deleteChatSessions("user1", {sessionId: "s1"})).toBe(1);
+    expect(firestore.state.deleted).toEqual(["s1"]);
+  });
+
+  it("removes messages left behind by a deleted session", async () => {
+    firestore.state.messages.add("s1");
+
+    expect(await deleteChatSessions("user1", {sessionId: "s1"})).toBe(1);
+    expect(firestore.state.messages.size).toBe(0);
+  });
+
+  it("reports nothing deleted for an unknown session", async () => {
+    expect(await deleteChatSessions("user1", {sessionId: "nope"})).toBe(0);
+  });
+
+  it("deletes old sessions a page at a time", async () => {
+    for (let i = 0; i < 150; i++) firestore.state.sessions.add(`s${i}`);
+
+    const deleted = await deleteChatSessions("user1", {olderThan: new Date()});
+    expect(deleted).toBe(150);
+    expect(firestore.state.pageSizes).toEqual([100, 50, 0]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Chat session deletion. A session document has a messages subcollection
+ * that deleting the document alone would orphan, so sessions are removed
+ * with recursiveDelete, which takes the subcollections with them.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+
+const SESSION_PAGE_SIZE = 100;
+
+/**
+ * Delete chat sessions of one user together with their messages
+ * @param {string} uid - Owner
+ * @param {Object} scope - One session by ID, or every session whose last
+ *   activity (updatedAt) is before a cutoff
+ * @return {Promise<number>} Sessions deleted; a session ID counts when
+ *   the session or messages left from it existed
+ */
+export async function deleteChatSessions(
+  uid: string,
+  scope: {sessionId: string} | {olderThan: Date}
+): Promise<number> {
+  const db = admin.firestore();
+  const sessionsRef = db.collection("users").doc(uid)
+    .collection("chatSessions");
+  // One BulkWriter for all sessions keeps the writes batched and throttled
+  const writer = db.bulkWriter();
+  let deleted = 0;
+
+  if ("sessionId" in scope) {
+    // Sessions deleted from the client before this function existed left
+    // their messages behind; recursiveDelete removes those too
+    const ref = sessionsRef.doc(scope.sessionId);
+    const [sessionSnap, messagesSnap] = await Promise.all([
+      ref.get(),
+      ref.collection("messages").limit(1).get(),
+    ]);
+    await db.recursiveDelete(ref, writer);
+    if (sessionSnap.exists || !messagesSnap.empty) deleted = 1;
+  } else {
+    const stale = sessionsRef
+      .where("updatedAt", "<", admin.firestore.Timestamp.fromDate(
+        scope.olderThan
+      ))
+      .select()
+      .limit(SESSION_PAGE_SIZE);
+    // Deleted sessions drop out of the query, so each page starts over
+    for (;;) {
+      const snap = await stale.get();
+      if (snap.empty) break;
+      for (const doc of snap.docs) {
+        await db.recursiveDelete(doc.ref, writer);
+      }
+      await writer.flush();
+      deleted += snap.size;
+    }
+  }
+  await writer.close();
+
+  logger.info("Chat sessions deleted:", {uid, deleted});
+  return deleted;
+}
@@ -0,0 +1,142 @@
+/**
+ * Chunking Tests
+ * Sentence-bounded chunks and the word timings they carry.
+ * Run with: npm test (in functions/)
+ */
+
+import {describe, expect, it} from "vitest";
+import {chunkTranscript, formatSpeakerText, hashTranscript} from "./chunking";
+import {TranscriptWord} from "./transcription";
+
+// One word every half second, as STT would return them
+const timedWords = (text: string, speaker?: string): TranscriptWord[] =>
+  text.split(" ").map((word, i) => ({
+    word,
+    startTime: i * 0.5,
+    endTime: i * 0.5 + 0.4,
+    ...(speaker ? {speaker} : {}),
+  }));
+
+describe("chunkTranscript", () => {
+  it("returns no chunks for an empty transcript", () => {
+    expect(chunkTranscript("", [])).toEqual([]);
+    expect(chunkTranscript("   ", [])).toEqual([]);
+  });
+
+  it("breaks chunks on sentence boundaries and overlaps one sentence", () => {
+    const transcript = "One two three. Four five six. Seven eight nine.";
+    const chunks = chunkTranscript(transcript, [], {targetChars: 35});
+
+    expect(chunks.map((c) => c.text)).toEqual([
+      "One two three. Four five six.",
+      "Four five six. Seven eight nine.",
+    ]);
+    expect(chunks[0].wordCount).toBe(6);
+    expect(chunks[0].startTime).toBeUndefined();
+  });
+
+  it("records time and word ranges when words match the text", () => {
+    const transcript = "Call Sam tomorrow. Then book the room.";
+    const chunks = chunkTranscript(transcript, timedWords(transcript), {
+      targetChars: 20,
+      overlapSentences: 0,
+    });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toMatchObject({
+      startTime: 0,
+      endTime: 1.4,
+      startWord: 0,
+      endWord: 3,
+    });
+    expect(chunks[1]).toMatchObject({startWord: 3, endWord: 7, startTime: 1.5});
+  });
+
+  it("aligns despite punctuation and case differences from STT", () => {
+    const transcript = "Hello, world! This is fine.";
+    const words = timedWords("hello world this is fine");
+
+    const [chunk] = chunkTranscript(transcript, words);
+    expect(chunk).toMatchObject({startWord: 0, endWord: 5, endTime: 2.4});
+    expect(chunk.words.map((w) => w.word)).toEqual(
+      ["Hello,", "world!", "This", "is", "fine."]
+    );
+  });
+
+  it("keeps timings when the transcript was truncated before its words", () => {
+    const words = timedWords("alpha beta gamma delta epsilon zeta eta theta");
+    const [chunk] = chunkTranscript("alpha beta gamma delta", words);
+
+    expect(chunk).toMatchObject({
+      startTime: 0,
+      endTime: 1.9,
+      startWord: 0,
+      endWord: 4,
+    });
+  });
+
+  it("resyncs over words inserted into or removed from the text", () => {
+    const words = timedWords("we should ship the launch on friday");
+    // "the" removed, "really" added
+    const [chunk] = chunkTranscript(
+      "we really should ship launch on friday",
+      words
+    );
+
+    expect(chunk).toMatchObject({startWord: 0, endWord: 7, endTime: 3.4});
+    // The inserted word sits where the previous word ended
+    expect(chunk.words[1]).toMatchObject({
+      word: "really",
+      startTime: 0.4,
+      endTime: 0.4,
+    });
+    expect(chunk.words[4]).toMatchObject({word: "launch", startTime: 2});
+  });
+
+  it("keeps the timing of a word edited in place", () => {
+    const words = timedWords("meet with sam at noon");
+    const [chunk] = chunkTranscript("meet with Pam at noon", words);
+
+    expect(chunk.words[2]).toMatchObject({word: "Pam", startTime: 1});
+  });
+
+  it("drops timings when the words belong to another text", () => {
+    const words = timedWords("completely different recording here");
+    const [chunk] = chunkTranscript("nothing in common at all", words);
+
+    expect(chunk.startTime).toBeUndefined();
+    expect(chunk.words).toEqual([]);
+  });
+
+  it("starts a new sentence when the speaker changes", () => {
+    const words = [
+      ...timedWords("how was the trip", "1"),
+      ...timedWords("great thanks", "2").map((w) => ({
+        ...w,
+        startTime: w.startTime + 2,
+        endTime: w.endTime + 2,
+      })),
+    ];
+    const chunks = chunkTranscript("how was the trip great thanks", words, {
+      targetChars: 10,
+      overlapSentences: 0,
+    });
+
+    expect(chunks.map((c) => c.text))
+      .toEqual(["how was the trip", "great thanks"]);
+    expect(formatSpeakerText(chunks[1].words)).toBe("Speaker 2: great thanks");
+  });
+});
+
+describe("hashTranscript", () => {
+  it("changes with the text, language and word timings", () => {
+    const words = timedWords("hello there");
+    const base = hashTranscript("hello there", words, "en-US");
+
+    expect(hashTranscript("hello there", words, "en-US")).toBe(base);
+    expect(hashTranscript("hello there!", words, "en-US")).not.toBe(base);
+    expect(hashTranscript("hello there", words, "de-DE")).not.toBe(base);
+    expect(hashTranscript("hello there", timedWords("hello"), "en-US"))
+      .not.toBe(base);
+  });
+});
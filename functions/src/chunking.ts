@@ -0,0 +1,296 @@
+/**
+ * Transcript chunking for retrieval. Chunks follow sentence boundaries and,
+ * when STT word timings are available, record the audio time range and the
+ * word range they cover so citations can point at a moment in the recording.
+ */
+
+import {createHash} from "crypto";
+import {TranscriptWord, buildSpeakerSegments} from "./transcription";
+
+/**
+ * Chunk of a transcript ready to embed
+ */
+export interface TranscriptChunk {
+  text: string;
+  wordCount: number;
+  // Present when the transcript has word timings
+  startTime?: number; // Seconds
+  endTime?: number;
+  startWord?: number; // Index into memo.words (inclusive)
+  endWord?: number; // Index into memo.words (exclusive)
+  words: TranscriptWord[];
+}
+
+/**
+ * Chunking limits, measured in characters
+ */
+export interface ChunkOptions {
+  targetChars: number;
+  maxSentenceChars: number;
+  overlapSentences: number;
+}
+
+const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  targetChars: 1200,
+  maxSentenceChars: 600,
+  overlapSentences: 1,
+};
+
+// A pause this long ends a sentence when STT returned no punctuation
+const SENTENCE_PAUSE_SECONDS = 1.5;
+
+// How far alignment looks ahead to resync after an inserted or dropped word
+const ALIGN_LOOKAHEAD = 4;
+// Share of tokens that must match an STT word for timings to be trusted
+const MIN_ALIGNED_SHARE = 0.5;
+
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+
+/**
+ * A sentence as a [start, end) range of tokens
+ */
+interface Sentence {
+  start: number;
+  end: number;
+  chars: number;
+}
+
+/**
+ * Split a token stream into sentences at terminal punctuation, speaker
+ * changes and long pauses, capping runaway sentences at maxChars
+ * @param {string[]} tokens - Transcript tokens
+ * @param {TranscriptWord[] | null} timed - Timed words aligned to tokens
+ * @param {number} maxChars - Longest sentence before a forced break
+ * @return {Sentence[]} Sentences in order
+ */
+function splitSentences(
+  tokens: string[],
+  timed: TranscriptWord[] | null,
+  maxChars: number
+): Sentence[] {
+  const sentences: Sentence[] = [];
+  let start = 0;
+  let chars = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    chars += tokens[i].length + 1;
+    const next = i + 1;
+    const isLast = next === tokens.length;
+
+    let boundary = isLast || SENTENCE_END.test(tokens[i]) || chars >= maxChars;
+    if (!boundary && timed) {
+      const speakerChange = timed[next].speaker !== timed[i].speaker;
+      const pause = timed[next].startTime - timed[i].endTime;
+      boundary = speakerChange || pause >= SENTENCE_PAUSE_SECONDS;
+    }
+
+    if (boundary) {
+      sentences.push({start, end: next, chars});
+      start = next;
+      chars = 0;
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Transcript tokens with the timing of their STT word
+ */
+export interface Alignment {
+  timed: TranscriptWord[]; // One per token
+  wordIndexes: Array<number | undefined>; // STT word of each token, if any
+}
+
+/**
+ * Comparable form of a token or STT word: lowercase, no punctuation
+ * @param {string} token - Token or word
+ * @return {string} Key
+ */
+function alignmentKey(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/**
+ * Position of key within the lookahead window, or -1
+ * @param {string[]} keys - Keys to search
+ * @param {number} from - First position to look at
+ * @param {string} key - Key to find
+ * @return {number} Position or -1
+ */
+function findAhead(keys: string[], from: number, key: string): number {
+  const end = Math.min(from + ALIGN_LOOKAHEAD, keys.length);
+  for (let k = from; k < end; k++) {
+    if (keys[k] === key) return k;
+  }
+  return -1;
+}
+
+/**
+ * Give each transcript token the timing of the matching STT word. Tokens
+ * and words are matched in order, resyncing over a few inserted or dropped
+ * words (STT punctuation, edits, a transcript truncated before its words);
+ * a word that differs in place is taken as an edit and keeps its timing.
+ * Tokens left without a word get a zero-length timing where the previous
+ * word ended. Timings are dropped when too few tokens match. Mirrored in
+ * web/src/utils/wordAlignment.ts for synced playback.
+ * @param {string[]} tokens - Transcript tokens
+ * @param {TranscriptWord[]} words - Words from STT
+ * @return {Alignment | null} Aligned tokens, or null when unaligned
+ */
+export function alignWords(
+  tokens: string[],
+  words: TranscriptWord[]
+): Alignment | null {
+  if (words.length === 0) return null;
+  const tokenKeys = tokens.map(alignmentKey);
+  const wordKeys = words.map((w) => alignmentKey(w.word || ""));
+  const wordIndexes = new Array<number | undefined>(tokens.length);
+
+  let matches = 0;
+  let i = 0;
+  let j = 0;
+  while (i < tokens.length && j < words.length) {
+    if (!tokenKeys[i]) {
+      i++; // Punctuation-only token, never spoken
+    } else if (!wordKeys[j]) {
+      j++;
+    } else if (tokenKeys[i] === wordKeys[j]) {
+      wordIndexes[i++] = j++;
+      matches++;
+    } else {
+      // Resync on whichever side needs the shorter skip
+      const nextWord = findAhead(wordKeys, j + 1, tokenKeys[i]);
+      const nextToken = findAhead(tokenKeys, i + 1, wordKeys[j]);
+      const skipWords = nextWord !== -1 &&
+        (nextToken === -1 || nextWord - j <= nextToken - i);
+      if (skipWords) {
+        j = nextWord;
+      } else if (nextToken !== -1) {
+        i = nextToken;
+      } else {
+        wordIndexes[i++] = j++;
+      }
+    }
+  }
+  if (matches < tokens.length * MIN_ALIGNED_SHARE) return null;
+
+  const first = words[wordIndexes.find((index) => index !== undefined) ?? 0];
+  let previous: TranscriptWord = {...first, endTime: first.startTime};
+  const timed = tokens.map((token, k) => {
+    const index = wordIndexes[k];
+    if (index !== undefined) {
+      previous = words[index];
+      return {...previous, word: token};
+    }
+    const filler: TranscriptWord = {
+      word: token,
+      startTime: previous.endTime,
+      endTime: previous.endTime,
+    };
+    if (previous.speaker !== undefined) filler.speaker = previous.speaker;
+    return filler;
+  });
+  return {timed, wordIndexes};
+}
+
+/**
+ * Chunk a transcript along sentence boundaries, filling in audio time
+ * ranges from the STT word offsets when they line up with the text
+ * @param {string} transcript - Transcript text
+ * @param {TranscriptWord[]} words - Words from STT (may be empty)
+ * @param {Partial<ChunkOptions>} options - Chunking limits
+ * @return {TranscriptChunk[]} Chunks in playback order
+ */
+export function chunkTranscript(
+  transcript: string,
+  words: TranscriptWord[],
+  options: Partial<ChunkOptions> = {}
+): TranscriptChunk[] {
+  const opts = {...DEFAULT_CHUNK_OPTIONS, ...options};
+  if (!transcript || typeof transcript !== "string") return [];
+
+  const tokens = transcript.split(/\s+/).filter((t) => t.length > 0);
+  if (tokens.length === 0) return [];
+
+  const alignment = alignWords(tokens, words);
+  const timed = alignment?.timed || null;
+  const sentences = splitSentences(tokens, timed, opts.maxSentenceChars);
+
+  const chunks: TranscriptChunk[] = [];
+  let first = 0;
+  while (first < sentences.length) {
+    // Grow the chunk sentence by sentence up to the target size
+    let last = first;
+    let chars = sentences[first].chars;
+    while (
+      last + 1 < sentences.length &&
+      chars + sentences[last + 1].chars <= opts.targetChars
+    ) {
+      last++;
+      chars += sentences[last].chars;
+    }
+
+    const startToken = sentences[first].start;
+    const endToken = sentences[last].end;
+    const chunkWords = timed ? timed.slice(startToken, endToken) : [];
+    const chunk: TranscriptChunk = {
+      text: tokens.slice(startToken, endToken).join(" "),
+      wordCount: endToken - startToken,
+      words: chunkWords,
+    };
+    const wordIndexes = (alignment?.wordIndexes || [])
+      .slice(startToken, endToken)
+      .filter((index): index is number => index !== undefined);
+    if (chunkWords.length > 0 && wordIndexes.length > 0) {
+      chunk.startTime = chunkWords[0].startTime;
+      chunk.endTime = chunkWords[chunkWords.length - 1].endTime;
+      chunk.startWord = wordIndexes[0];
+      chunk.endWord = wordIndexes[wordIndexes.length - 1] + 1;
+    }
+    chunks.push(chunk);
+
+    if (last + 1 >= sentences.length) break;
+
+    // Repeat the trailing sentence(s) at the start of the next chunk for
+    // context, but always make progress
+    first = Math.max(first + 1, last + 1 - opts.overlapSentences);
+  }
+  return chunks;
+}
+
+/**
+ * Render chunk words as speaker turns, e.g. "Speaker 1: ... Speaker 2: ..."
+ * @param {TranscriptWord[]} words - Words spoken within the chunk
+ * @return {string} Speaker-labeled text, or "" when words carry no speakers
+ */
+export function formatSpeakerText(words: TranscriptWord[]): string {
+  return buildSpeakerSegments(words)
+    .map((seg) => `Speaker ${seg.speaker}: ${seg.text}`)
+    .join("\n");
+}
+
+/**
+ * SHA-256 of a string, hex encoded
+ * @param {string} text - Text to hash
+ * @return {string} Hex digest
+ */
+export function hashText(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+/**
+ * Fingerprint of everything chunking depends on: the transcript text, its
+ * language (used for terms) and the word timings
+ * @param {string} transcript - Transcript text
+ * @param {TranscriptWord[]} words - Words from STT
+ * @param {string} language - Transcript language
+ * @return {string} Hex digest
+ */
+export function hashTranscript(
+  transcript: string,
+  words: TranscriptWord[],
+  language: string
+): string {
+  const timings = words.map((w) => [w.startTime, w.endTime, w.speaker || ""]);
+  return hashText(JSON.stringify([transcript, language, timings]));
+}
@@ -0,0 +1,494 @@
+/**
+ * Text embedding providers shared by indexing and querying.
+ * Mirrored in services/chat-api/src/embeddings.ts so chunks and queries are
+ * embedded by the same model; services/chat-api/src/mirrors.test.ts fails
+ * when the copies differ.
+ *
+ * Providers batch several texts per request where the API allows it and
+ * run batches with bounded concurrency. All providers default to 1024
+ * dimensions to match the Firestore vector index on chunks.
+ */
+
+import {tokenize} from "./language";
+
+export type EmbeddingTask = "document" | "query";
+
+/**
+ * Called as batches finish
+ */
+export type EmbeddingProgress = (completed: number, total: number) => void;
+
+/**
+ * Embeds text for storage (documents) or search (queries)
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly modelName: string;
+  readonly dimensions: number;
+  // Embedding version stored with each vector, e.g.
+  // "gemini-embedding-001@1024"; vectors of different versions must never
+  // be compared. Parsed back by createEmbeddingProviderForVersion.
+  readonly version: string;
+  embed(
+    texts: string[],
+    task: EmbeddingTask,
+    onProgress?: EmbeddingProgress
+  ): Promise<Array<number[] | null>>;
+}
+
+/**
+ * OAuth access token with its expiry (epoch ms)
+ */
+export interface AccessToken {
+  token: string;
+  expiresAt: number;
+}
+
+export type AccessTokenSource = () => Promise<AccessToken>;
+
+export const DEFAULT_EMBEDDING_DIMENSIONS = 1024;
+
+// Refresh cached tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60000;
+const REQUEST_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * Cache an access token until shortly before it expires, sharing a single
+ * in-flight refresh between concurrent callers
+ * @param {AccessTokenSource} source - Fetches a fresh token
+ * @return {Function} Token getter
+ */
+export function cachedTokenSource(
+  source: AccessTokenSource
+): () => Promise<string> {
+  let cached: AccessToken | null = null;
+  let pending: Promise<AccessToken> | null = null;
+
+  return async () => {
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+    if (!pending) {
+      pending = source().finally(() => {
+        pending = null;
+      });
+    }
+    cached = await pending;
+    return cached.token;
+  };
+}
+
+/**
+ * POST JSON, retrying rate limits and server errors with backoff
+ * @param {string} url - Endpoint
+ * @param {Object} headers - Request headers
+ * @param {unknown} body - JSON body
+ * @return {Promise<unknown>} Parsed response
+ */
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<unknown> {
+  let lastError: Error | null = null;
+  for (let attempt = 0; attempt < REQUEST_ATTEMPTS; attempt++) {
+    if (attempt > 0) {
+      const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: "POST",
+        headers: {...headers, "Content-Type": "application/json"},
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      // Network failure; retry
+      lastError = error instanceof Error ? error : new Error(String(error));
+      continue;
+    }
+
+    if (res.ok) {
+      return res.json();
+    }
+    const errorText = await res.text();
+    lastError = new Error(
+      `API error ${res.status}: ${errorText.substring(0, 200)}`
+    );
+    if (res.status !== 429 && res.status < 500) {
+      break;
+    }
+  }
+  throw lastError || new Error("Embedding request failed");
+}
+
+/**
+ * Embed texts in batches with at most `concurrency` requests in flight.
+ * A batch that fails yields nulls for its texts.
+ * @param {string[]} texts - Texts to embed
+ * @param {number} batchSize - Texts per request
+ * @param {number} concurrency - Parallel requests
+ * @param {Function} embedBatch - Embeds one batch
+ * @param {EmbeddingProgress} onProgress - Progress callback
+ * @return {Promise<Array<number[] | null>>} Vectors aligned with texts
+ */
+async function embedInBatches(
+  texts: string[],
+  batchSize: number,
+  concurrency: number,
+  embedBatch: (batch: string[]) => Promise<Array<number[] | null>>,
+  onProgress?: EmbeddingProgress
+): Promise<Array<number[] | null>> {
+  const results: Array<number[] | null> = new Array(texts.length).fill(null);
+  const starts: number[] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    starts.push(start);
+  }
+
+  let next = 0;
+  let completed = 0;
+  let firstError: unknown = null;
+
+  const worker = async () => {
+    while (next < starts.length) {
+      const start = starts[next++];
+      const batch = texts.slice(start, start + batchSize);
+      try {
+        const vectors = await embedBatch(batch);
+        vectors.forEach((vector, i) => {
+          results[start + i] = vector;
+        });
+      } catch (error) {
+        firstError = firstError || error;
+      }
+      completed += batch.length;
+      onProgress?.(completed, texts.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({length: Math.min(concurrency, starts.length)}, worker)
+  );
+
+  // Surface the failure when nothing could be embedded at all
+  if (firstError && results.every((vector) => vector === null)) {
+    throw firstError;
+  }
+  return results;
+}
+
+/**
+ * Check an API vector and return it, or null when missing
+ * @param {unknown} values - Candidate vector
+ * @return {number[] | null} The vector
+ */
+function asVector(values: unknown): number[] | null {
+  return Array.isArray(values) && values.length > 0 ?
+    (values as number[]) :
+    null;
+}
+
+/**
+ * Vertex AI text embeddings via REST
+ */
+export class VertexEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "vertex";
+  readonly modelName: string;
+  readonly version: string;
+  private readonly url: string;
+  private readonly getToken: () => Promise<string>;
+  private readonly batchSize: number;
+
+  /**
+   * @param {Object} options - Project, location, model and token source
+   */
+  constructor(private readonly options: {
+    project: string;
+    getAccessToken: AccessTokenSource;
+    location?: string;
+    modelName?: string;
+    dimensions?: number;
+    concurrency?: number;
+  }) {
+    const location = options.location || "us-central1";
+    const modelName = options.modelName || "gemini-embedding-001";
+    this.modelName = modelName;
+    this.version = `${modelName}@${this.dimensions}`;
+    this.url =
+      `https://${location}-aiplatform.googleapis.com/v1/projects/` +
+      `${options.project}/locations/${location}/publishers/google/models/` +
+      `${modelName}:predict`;
+    this.getToken = cachedTokenSource(options.getAccessToken);
+    // gemini-embedding-001 accepts a single instance per request, so its
+    // throughput comes from concurrency; text-embedding-* take up to 250
+    this.batchSize = modelName.startsWith("gemini-embedding") ? 1 : 250;
+  }
+
+  /**
+   * @return {number} Output dimensionality
+   */
+  get dimensions(): number {
+    return this.options.dimensions || DEFAULT_EMBEDDING_DIMENSIONS;
+  }
+
+  /**
+   * Embed texts
+   * @param {string[]} texts - Texts to embed
+   * @param {EmbeddingTask} task - Document or query
+   * @param {EmbeddingProgress} onProgress - Progress callback
+   * @return {Promise<Array<number[] | null>>} Vectors aligned with texts
+   */
+  embed(
+    texts: string[],
+    task: EmbeddingTask,
+    onProgress?: EmbeddingProgress
+  ): Promise<Array<number[] | null>> {
+    const taskType =
+      task === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT";
+    return embedInBatches(
+      texts,
+      this.batchSize,
+      this.options.concurrency || 8,
+      async (batch) => {
+        const token = await this.getToken();
+        const response = await postJson(
+          this.url,
+          {Authorization: `Bearer ${token}`},
+          {
+            instances: batch.map((content) => ({content, task_type: taskType})),
+            parameters: {
+              outputDimensionality: this.dimensions,
+              autoTruncate: true,
+            },
+          }
+        );
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const predictions = (response as any)?.predictions || [];
+        return batch.map((_, i) =>
+          asVector(predictions[i]?.embeddings?.values)
+        );
+      },
+      onProgress
+    );
+  }
+}
+
+/**
+ * OpenAI embeddings via REST
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly modelName: string;
+  readonly dimensions: number;
+  readonly version: string;
+
+  /**
+   * @param {string} apiKey - OpenAI API key
+   * @param {string} modelName - Embedding model
+   * @param {number} dimensions - Output dimensionality
+   * @param {number} concurrency - Parallel requests
+   */
+  constructor(
+    private readonly apiKey: string,
+    modelName = "text-embedding-3-small",
+    dimensions = DEFAULT_EMBEDDING_DIMENSIONS,
+    private readonly concurrency = 4
+  ) {
+    this.modelName = modelName;
+    this.dimensions = dimensions;
+    this.version = `openai:${modelName}@${dimensions}`;
+  }
+
+  /**
+   * Embed texts
+   * @param {string[]} texts - Texts to embed
+   * @param {EmbeddingTask} _task - Unused; OpenAI embeds both alike
+   * @param {EmbeddingProgress} onProgress - Progress callback
+   * @return {Promise<Array<number[] | null>>} Vectors aligned with texts
+   */
+  embed(
+    texts: string[],
+    _task: EmbeddingTask,
+    onProgress?: EmbeddingProgress
+  ): Promise<Array<number[] | null>> {
+    return embedInBatches(
+      texts,
+      100,
+      this.concurrency,
+      async (batch) => {
+        const response = await postJson(
+          "https://api.openai.com/v1/embeddings",
+          {Authorization: `Bearer ${this.apiKey}`},
+          {model: this.modelName, input: batch, dimensions: this.dimensions}
+        );
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const data: any[] = (response as any)?.data || [];
+        const vectors: Array<number[] | null> = batch.map(() => null);
+        data.forEach((item) => {
+          if (typeof item?.index === "number" && item.index < batch.length) {
+            vectors[item.index] = asVector(item.embedding);
+          }
+        });
+        return vectors;
+      },
+      onProgress
+    );
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ * @param {string} text - Text to hash
+ * @return {number} Unsigned hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedder (feature hashing over tokens and
+ * bigrams). No network or credentials, so emulator runs and tests get
+ * stable vectors; texts sharing words land close together.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly modelName = "local-hash";
+  readonly version: string;
+
+  /**
+   * @param {number} dimensions - Output dimensionality
+   */
+  constructor(readonly dimensions = DEFAULT_EMBEDDING_DIMENSIONS) {
+    this.version = `local-hash@${dimensions}`;
+  }
+
+  /**
+   * Embed texts
+   * @param {string[]} texts - Texts to embed
+   * @param {EmbeddingTask} _task - Unused; documents and queries match
+   * @param {EmbeddingProgress} onProgress - Progress callback
+   * @return {Promise<Array<number[] | null>>} Vectors aligned with texts
+   */
+  async embed(
+    texts: string[],
+    _task: EmbeddingTask,
+    onProgress?: EmbeddingProgress
+  ): Promise<Array<number[] | null>> {
+    const vectors = texts.map((text) => this.embedOne(text));
+    onProgress?.(texts.length, texts.length);
+    return vectors;
+  }
+
+  /**
+   * Embed one text
+   * @param {string} text - Text to embed
+   * @return {number[] | null} Unit vector, or null for empty text
+   */
+  private embedOne(text: string): number[] | null {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return null;
+
+    const vector = new Array(this.dimensions).fill(0);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // Low bit picks the sign so collisions tend to cancel out
+      vector[hash % this.dimensions] += hash & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? null : vector.map((v) => v / norm);
+  }
+}
+
+/**
+ * Pick an embedding provider by name
+ * @param {string} name - "vertex", "openai" or "local"
+ * @param {Object} options - Credentials and project for the provider
+ * @return {EmbeddingProvider} Provider instance
+ */
+export function createEmbeddingProvider(
+  name: string,
+  options: {
+    project?: string;
+    getAccessToken?: AccessTokenSource;
+    openaiApiKey?: string;
+  }
+): EmbeddingProvider {
+  switch (name.trim().toLowerCase()) {
+  case "vertex":
+    if (!options.project || !options.getAccessToken) {
+      throw new Error("Invalid configuration: GCLOUD_PROJECT is not set");
+    }
+    return new VertexEmbeddingProvider({
+      project: options.project,
+      getAccessToken: options.getAccessToken,
+    });
+  case "openai":
+    if (!options.openaiApiKey) {
+      throw new Error("Invalid configuration: OPENAI_API_KEY is not set");
+    }
+    return new OpenAIEmbeddingProvider(options.openaiApiKey);
+  case "local":
+    return new LocalHashEmbeddingProvider();
+  default:
+    throw new Error(`Invalid embedding provider: ${name}`);
+  }
+}
+
+/**
+ * Recreate the provider that produced an embedding version, so queries can
+ * be embedded in the same space as the chunks they search
+ * @param {string} version - Version id, e.g. "gemini-embedding-001@1024"
+ * @param {Object} options - Credentials and project for the provider
+ * @return {EmbeddingProvider} Provider instance
+ */
+export function createEmbeddingProviderForVersion(
+  version: string,
+  options: {
+    project?: string;
+    getAccessToken?: AccessTokenSource;
+    openaiApiKey?: string;
+  }
+): EmbeddingProvider {
+  const match = /^(?:(openai):)?([\w.-]+)@(\d+)$/.exec(version.trim());
+  if (!match) {
+    throw new Error(`Invalid embedding version: ${version}`);
+  }
+  const [, vendor, modelName, dims] = match;
+  const dimensions = Number(dims);
+
+  if (vendor === "openai") {
+    if (!options.openaiApiKey) {
+      throw new Error("Invalid configuration: OPENAI_API_KEY is not set");
+    }
+    return new OpenAIEmbeddingProvider(
+      options.openaiApiKey,
+      modelName,
+      dimensions
+    );
+  }
+  if (modelName === "local-hash") {
+    return new LocalHashEmbeddingProvider(dimensions);
+  }
+  if (!options.project || !options.getAccessToken) {
+    throw new Error("Invalid configuration: GCLOUD_PROJECT is not set");
+  }
+  return new VertexEmbeddingProvider({
+    project: options.project,
+    getAccessToken: options.getAccessToken,
+    modelName,
+    dimensions,
+  });
+}
@@ -0,0 +1,513 @@
+/**
+ * Memo enrichment: a title, an abstractive summary, key points, action
+ * items, a category, the overall sentiment, key phrases and named entities
+ * derived from the transcript after transcription. The active
+ * enricher is chosen through the ENRICHMENT_PROVIDER param: "openai"
+ * (default) or "heuristic", a deterministic extractive fallback that is
+ * also used whenever no OpenAI key is configured or the model call fails.
+ */
+
+import OpenAI from "openai";
+import * as logger from "firebase-functions/logger";
+import {baseLanguage, getStopwords, tokenize} from "./language";
+import {retryWithBackoff} from "./retry";
+
+/**
+ * Transcript and context handed to an enricher
+ */
+export interface EnrichmentRequest {
+  transcript: string;
+  language: string;
+  speakers?: string[];
+}
+
+export const MEMO_CATEGORIES = [
+  "meeting",
+  "idea",
+  "todo",
+  "journal",
+  "lecture",
+  "interview",
+  "note",
+] as const;
+
+export type MemoCategory = typeof MEMO_CATEGORIES[number];
+export type MemoSentiment = "positive" | "neutral" | "negative";
+
+/**
+ * Enrichment fields written to the memo
+ */
+export interface MemoEnrichment {
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  actionItems: string[];
+  category: MemoCategory;
+  sentiment: MemoSentiment;
+  keyPhrases: string[]; // Lowercase, for filtering
+  entities: string[]; // People, organizations, products and places
+}
+
+/**
+ * A backend that derives enrichment fields from a transcript
+ */
+export interface MemoEnricher {
+  readonly name: string;
+  readonly model: string; // Recorded on the memo with the output
+  enrich(request: EnrichmentRequest): Promise<MemoEnrichment>;
+}
+
+export type EnricherName = "openai" | "heuristic";
+
+// Field limits applied to every enricher's output
+const MAX_TITLE_LENGTH = 80;
+const MAX_SUMMARY_LENGTH = 600;
+const MAX_KEY_POINTS = 5;
+const MAX_ACTION_ITEMS = 10;
+const MAX_ITEM_LENGTH = 200;
+const MAX_KEY_PHRASES = 8;
+const MAX_ENTITIES = 10;
+const MAX_PHRASE_LENGTH = 60;
+
+// Transcripts above this are cut before prompting; long memos are
+// summarized from their first ~30 minutes of speech
+const MAX_PROMPT_CHARS = 24000;
+
+// Phrases that mark a sentence as a commitment or a to-do (English only;
+// other languages get no heuristic action items)
+const ACTION_CUES = [
+  /\b(?:need|needs|have|has) to\b/i,
+  /\b(?:should|must|gotta|got to)\b/i,
+  /\b(?:remember|don't forget|do not forget|make sure) to\b/i,
+  /\b(?:i|we)(?:'ll| will) (?!be\b)/i,
+  /\blet's\b/i,
+  /\bfollow[- ]up\b/i,
+  /\b(?:to-?do|action item|deadline)\b/i,
+  /\bby (?:tomorrow|next week|end of (?:the )?(?:day|week)|\w+day)\b/i,
+];
+
+// Small English sentiment lexicon for the heuristic enricher
+const POSITIVE_WORDS = new Set([
+  "good", "great", "excellent", "amazing", "awesome", "happy", "glad",
+  "love", "like", "nice", "success", "successful", "win", "won", "excited",
+  "exciting", "progress", "improved", "improvement", "perfect", "fantastic",
+  "thanks", "thank", "pleased", "solved", "works", "working", "easy",
+]);
+const NEGATIVE_WORDS = new Set([
+  "bad", "terrible", "awful", "problem", "problems", "issue", "issues",
+  "bug", "bugs", "broken", "fail", "failed", "failure", "sad", "angry",
+  "frustrated", "frustrating", "worried", "worry", "delay", "delayed",
+  "late", "blocked", "blocker", "risk", "wrong", "hate", "difficult",
+  "hard", "stuck", "crash", "crashed", "complaint", "disappointed",
+]);
+
+/**
+ * Split text into trimmed sentences
+ * @param {string} text - Text to split
+ * @return {string[]} Sentences including their end punctuation
+ */
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?…]+(?:[.!?…]+|$)/g) || [])
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+/**
+ * Shorten text to a maximum length at a word boundary
+ * @param {string} text - Text to shorten
+ * @param {number} maxLength - Maximum length including the ellipsis
+ * @return {string} Text of at most maxLength characters
+ */
+function truncateAtWord(text: string, maxLength: number): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxLength) return trimmed;
+  const cut = trimmed.substring(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > maxLength / 2 ? cut.substring(0, lastSpace) : cut)
+    .replace(/[\s,;:.-]+$/, "") + "…";
+}
+
+/**
+ * Clean enricher output so every backend honours the same limits
+ * @param {Object} raw - Possibly malformed fields from the enricher
+ * @param {MemoEnrichment} fallback - Values for missing fields
+ * @return {MemoEnrichment} Normalized enrichment
+ */
+export function normalizeEnrichment(
+  raw: Record<string, unknown>,
+  fallback: MemoEnrichment
+): MemoEnrichment {
+  const text = (value: unknown): string =>
+    typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+  const list = (value: unknown, max: number): string[] =>
+    Array.isArray(value) ?
+      value
+        .map((item) => truncateAtWord(text(item), MAX_ITEM_LENGTH))
+        .filter((item) => item.length > 0)
+        .slice(0, max) :
+      [];
+
+  const title = text(raw.title).replace(/^["'“]+|["'”.]+$/g, "");
+  const summary = text(raw.summary);
+  const category = text(raw.category).toLowerCase();
+  const sentiment = text(raw.sentiment).toLowerCase();
+  const phrases = (value: unknown, max: number, lowercase: boolean) =>
+    Array.isArray(value) ?
+      Array.from(new Set(
+        value
+          .map((item) => text(item))
+          .map((item) => lowercase ? item.toLowerCase() : item)
+          .filter((item) => item.length > 0 &&
+            item.length <= MAX_PHRASE_LENGTH)
+      )).slice(0, max) :
+      null;
+
+  return {
+    title: truncateAtWord(title || fallback.title, MAX_TITLE_LENGTH),
+    summary: truncateAtWord(summary || fallback.summary, MAX_SUMMARY_LENGTH),
+    keyPoints: Array.isArray(raw.keyPoints) ?
+      list(raw.keyPoints, MAX_KEY_POINTS) :
+      fallback.keyPoints,
+    actionItems: Array.isArray(raw.actionItems) ?
+      list(raw.actionItems, MAX_ACTION_ITEMS) :
+      fallback.actionItems,
+    category: (MEMO_CATEGORIES as readonly string[]).includes(category) ?
+      category as MemoCategory :
+      fallback.category,
+    sentiment: ["positive", "neutral", "negative"].includes(sentiment) ?
+      sentiment as MemoSentiment :
+      fallback.sentiment,
+    keyPhrases: phrases(raw.keyPhrases, MAX_KEY_PHRASES, true) ??
+      fallback.keyPhrases,
+    entities: phrases(raw.entities, MAX_ENTITIES, false) ??
+      fallback.entities,
+  };
+}
+
+/**
+ * Overall sentiment from lexicon hits
+ * @param {string[]} tokens - Lowercase tokens of the transcript
+ * @return {MemoSentiment} Sentiment label
+ */
+function lexiconSentiment(tokens: string[]): MemoSentiment {
+  const positive = tokens.filter((t) => POSITIVE_WORDS.has(t)).length;
+  const negative = tokens.filter((t) => NEGATIVE_WORDS.has(t)).length;
+  const hits = positive + negative;
+  if (hits < 2) return "neutral";
+  const balance = (positive - negative) / hits;
+  if (balance > 0.3) return "positive";
+  if (balance < -0.3) return "negative";
+  return "neutral";
+}
+
+/**
+ * Recurring two-word phrases, topped up with the most frequent terms
+ * @param {Array<string[]>} sentenceTerms - Content terms of each sentence
+ * @param {Map<string, number>} freq - Term frequencies
+ * @return {string[]} Lowercase key phrases
+ */
+function frequentPhrases(
+  sentenceTerms: string[][],
+  freq: Map<string, number>
+): string[] {
+  const bigrams = new Map<string, number>();
+  sentenceTerms.forEach((terms) => {
+    for (let i = 0; i + 1 < terms.length; i++) {
+      const bigram = `${terms[i]} ${terms[i + 1]}`;
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+  });
+
+  const phrases = Array.from(bigrams.entries())
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] - a[1])
+    .map(([bigram]) => bigram);
+  const covered = new Set(phrases.flatMap((p) => p.split(" ")));
+  const terms = Array.from(freq.entries())
+    .filter(([term, count]) => count >= 2 && term.length > 3 &&
+      !covered.has(term))
+    .sort((a, b) => b[1] - a[1])
+    .map(([term]) => term);
+
+  return [...phrases, ...terms].slice(0, MAX_KEY_PHRASES);
+}
+
+/**
+ * Capitalized word runs that don't open a sentence, most frequent first
+ * @param {string[]} sentences - Transcript sentences
+ * @param {Set<string>} stopwords - Stopwords of the memo language
+ * @return {string[]} Entity names
+ */
+function capitalizedEntities(
+  sentences: string[],
+  stopwords: Set<string>
+): string[] {
+  const counts = new Map<string, number>();
+  const pattern = /\p{Lu}[\p{L}\d&'-]*(?:\s+\p{Lu}[\p{L}\d&'-]*)*/gu;
+  sentences.forEach((sentence) => {
+    for (const match of sentence.matchAll(pattern)) {
+      // Sentence-initial words are capitalized anyway
+      if (match.index === 0) continue;
+      const name = match[0].replace(/['’]s$/, "");
+      if (name === "I" || stopwords.has(name.toLowerCase())) continue;
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name)
+    .slice(0, MAX_ENTITIES);
+}
+
+/**
+ * Deterministic extractive enricher: the title comes from the opening
+ * sentence, key points are the sentences richest in the memo's frequent
+ * terms and action items are sentences with to-do phrasing.
+ */
+export class HeuristicEnricher implements MemoEnricher {
+  readonly name = "heuristic";
+  readonly model = "heuristic";
+
+  /**
+   * Derive enrichment fields without a model
+   * @param {EnrichmentRequest} request - Transcript and language
+   * @return {Promise<MemoEnrichment>} Extracted fields
+   */
+  async enrich(request: EnrichmentRequest): Promise<MemoEnrichment> {
+    return this.extract(request);
+  }
+
+  /**
+   * Synchronous extraction, also used to fill gaps in model output
+   * @param {EnrichmentRequest} request - Transcript and language
+   * @return {MemoEnrichment} Extracted fields
+   */
+  extract(request: EnrichmentRequest): MemoEnrichment {
+    const transcript = request.transcript.trim();
+    const sentences = splitSentences(transcript);
+    const stopwords = getStopwords(request.language);
+
+    // Term frequencies over the whole memo
+    const freq = new Map<string, number>();
+    const sentenceTerms = sentences.map((sentence) => {
+      const terms = tokenize(sentence)
+        .filter((w) => w.length > 2 && !stopwords.has(w));
+      terms.forEach((t) => freq.set(t, (freq.get(t) || 0) + 1));
+      return terms;
+    });
+
+    // Score each sentence by the average frequency of its terms; very
+    // short sentences ("Okay.") never make key points
+    const ranked = sentences
+      .map((sentence, i) => {
+        const terms = sentenceTerms[i];
+        const score = terms.length < 3 ? 0 :
+          terms.reduce((sum, t) => sum + (freq.get(t) || 0), 0) /
+          Math.sqrt(terms.length);
+        return {sentence, i, score};
+      })
+      .filter((s) => s.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const keyPoints = ranked
+      .slice(0, MAX_KEY_POINTS)
+      .sort((a, b) => a.i - b.i) // Keep spoken order
+      .map((s) => truncateAtWord(s.sentence, MAX_ITEM_LENGTH));
+
+    const actionItems = baseLanguage(request.language) === "en" ?
+      sentences
+        .filter((sentence) => ACTION_CUES.some((cue) => cue.test(sentence)))
+        .slice(0, MAX_ACTION_ITEMS)
+        .map((sentence) => truncateAtWord(sentence, MAX_ITEM_LENGTH)) :
+      [];
+
+    const speakerCount = request.speakers?.length || 0;
+    const lower = transcript.toLowerCase();
+    let category: MemoCategory = "note";
+    if (speakerCount > 1) {
+      category = "meeting";
+    } else if (
+      actionItems.length >= 2 &&
+      actionItems.length >= sentences.length / 3
+    ) {
+      category = "todo";
+    } else if (/\b(?:idea|what if|brainstorm)/.test(lower)) {
+      category = "idea";
+    } else if (/\b(?:i feel|i felt|today i|my day|dear diary)\b/.test(lower)) {
+      category = "journal";
+    }
+
+    const opening = sentences[0] || transcript;
+    const title = truncateAtWord(
+      opening.replace(/[.!?…]+$/, ""),
+      MAX_TITLE_LENGTH
+    );
+
+    return {
+      title: title || "Untitled memo",
+      summary: generateSummary(transcript),
+      keyPoints,
+      actionItems,
+      category,
+      sentiment: baseLanguage(request.language) === "en" ?
+        lexiconSentiment(tokenize(transcript)) :
+        "neutral",
+      keyPhrases: frequentPhrases(sentenceTerms, freq),
+      entities: capitalizedEntities(sentences, stopwords),
+    };
+  }
+}
+
+/**
+ * Abstractive enrichment with an OpenAI chat model returning JSON. Fields
+ * the model leaves out are filled from the heuristic extraction.
+ */
+export class OpenAIEnricher implements MemoEnricher {
+  readonly name = "openai";
+  private readonly client: OpenAI;
+  private readonly fallback = new HeuristicEnricher();
+
+  /**
+   * @param {string} apiKey - OpenAI API key
+   * @param {string} model - Chat model
+   */
+  constructor(apiKey: string, readonly model = "gpt-4o-mini") {
+    this.client = new OpenAI({apiKey, timeout: 60000, maxRetries: 2});
+  }
+
+  /**
+   * Ask the model for the enrichment fields
+   * @param {EnrichmentRequest} request - Transcript and language
+   * @return {Promise<MemoEnrichment>} Model output, normalized
+   */
+  async enrich(request: EnrichmentRequest): Promise<MemoEnrichment> {
+    const transcript = request.transcript.length > MAX_PROMPT_CHARS ?
+      request.transcript.substring(0, MAX_PROMPT_CHARS) + " […]" :
+      request.transcript;
+    const speakers = request.speakers && request.speakers.length > 1 ?
+      `\nSpeakers: ${request.speakers.join(", ")}` :
+      "";
+
+    const response = await retryWithBackoff(
+      () => this.client.chat.completions.create({
+        model: this.model,
+        temperature: 0.2,
+        response_format: {type: "json_object"},
+        messages: [
+          {
+            role: "system",
+            content: [
+              "You summarize voice memo transcripts.",
+              "Reply with a JSON object with these keys:",
+              "\"title\": at most 8 words, no quotes or final period;",
+              "\"summary\": 2-3 sentences in third person;",
+              `"keyPoints": up to ${MAX_KEY_POINTS} short strings;`,
+              `"actionItems": up to ${MAX_ACTION_ITEMS} tasks someone ` +
+                "committed to or was asked to do, as imperative sentences " +
+                "that keep any deadline wording (\"by Friday\"), empty " +
+                "when there are none;",
+              `"category": one of ${MEMO_CATEGORIES.join(", ")};`,
+              "\"sentiment\": positive, neutral or negative overall tone;",
+              `"keyPhrases": up to ${MAX_KEY_PHRASES} short lowercase ` +
+                "topic phrases;",
+              `"entities": up to ${MAX_ENTITIES} names of people, ` +
+                "organizations, products and places as written.",
+              "Write in the language of the transcript. Use only " +
+                "information from the transcript.",
+            ].join("\n"),
+          },
+          {
+            role: "user",
+            content: `Language: ${request.language}${speakers}\n\n` +
+              `Transcript:\n${transcript}`,
+          },
+        ],
+      }),
+      2,
+      1000
+    );
+
+    const content = response.choices[0]?.message?.content || "";
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error(`Enrichment model returned invalid JSON: ${
+        content.substring(0, 100)}`);
+    }
+    return normalizeEnrichment(parsed, this.fallback.extract(request));
+  }
+}
+
+/**
+ * Extractive summary: the opening sentences that fit in maxLength
+ * @param {string} text - The text to summarize
+ * @param {number} maxLength - Maximum length of summary
+ * @return {string} Generated summary
+ */
+export function generateSummary(text: string, maxLength = 200): string {
+  let summary = "";
+  for (const sentence of splitSentences(text)) {
+    if (summary.length + sentence.length + 1 <= maxLength) {
+      summary += (summary ? " " : "") + sentence;
+    } else {
+      break;
+    }
+  }
+
+  return summary || truncateAtWord(text, maxLength);
+}
+
+/**
+ * Create the enricher selected by configuration; without an OpenAI key the
+ * deterministic heuristic enricher is used
+ * @param {string} name - Enricher name
+ * @param {Object} options - Model and credentials
+ * @return {MemoEnricher} Enricher instance
+ */
+export function createEnricher(
+  name: string,
+  options: {openaiApiKey?: string; model?: string} = {}
+): MemoEnricher {
+  switch (name as EnricherName) {
+  case "openai":
+    if (!options.openaiApiKey) {
+      logger.warn("OPENAI_API_KEY not set, using heuristic enrichment");
+      return new HeuristicEnricher();
+    }
+    return new OpenAIEnricher(options.openaiApiKey, options.model);
+  case "heuristic":
+    return new HeuristicEnricher();
+  default:
+    throw new Error(`Invalid enrichment provider: ${name}`);
+  }
+}
+
+/**
+ * Enrich with the given enricher, falling back to the heuristic enricher
+ * when it fails so every memo still gets a title and summary
+ * @param {MemoEnricher} enricher - Configured enricher
+ * @param {EnrichmentRequest} request - Transcript and language
+ * @return {Promise<Object>} Enrichment and the enricher that produced it
+ */
+export async function enrichMemo(
+  enricher: MemoEnricher,
+  request: EnrichmentRequest
+): Promise<{enrichment: MemoEnrichment; enricher: MemoEnricher;
+    error?: string}> {
+  try {
+    return {enrichment: await enricher.enrich(request), enricher};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn("Enrichment failed, using heuristic fallback:", {
+      enricher: enricher.name,
+      error: message,
+    });
+    const fallback = new HeuristicEnricher();
+    return {
+      enrichment: fallback.extract(request),
+      enricher: fallback,
+      error: message,
+    };
+  }
+}
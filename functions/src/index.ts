@@ -2,9 +2,60 @@ import * as admin from "firebase-admin";
 import {onObjectFinalized} from "firebase-functions/v2/storage";
 import {onDocumentWritten} from "firebase-functions/v2/firestore";
 import {setGlobalOptions} from "firebase-functions/v2";
-import {defineSecret} from "firebase-functions/params";
-import {v2 as speech} from "@google-cloud/speech";
+import {defineInt, defineSecret, defineString} from "firebase-functions/params";
+import {onCall} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
 import * as logger from "firebase-functions/logger";
+import {
+  DEFAULT_LANGUAGE,
+  MAX_CANDIDATE_LANGUAGES,
+  normalizeLanguageCode,
+} from "./language";
+import {retryWithBackoff} from "./retry";
+import {
+  EmbeddingProvider,
+  createEmbeddingProvider,
+  createEmbeddingProviderForVersion,
+} from "./embeddings";
+import {
+  chunkMetadata,
+  extractTerms,
+  getEmbeddingConfig,
+  hashChunkMetadata,
+  indexMemoChunks,
+  sameVersions,
+  syncChunkMetadata,
+} from "./indexing";
+import {
+  failMemo,
+  isStaleClaim,
+  reportEmbeddingProgress,
+  stageStartedAtMillis,
+  sweepStaleClaims,
+  transitionMemo,
+} from "./pipeline";
+import {hashTranscript} from "./chunking";
+import {createEnricher, enrichMemo, generateSummary} from "./enrichment";
+import {suggestTags} from "./tags";
+import {syncMemoTasks} from "./tasks";
+import {keywordIndexHash, updateKeywordIndex} from "./keywordIndex";
+import {deleteChatSessions as deleteSessions} from "./chats";
+import {createExportJob, deleteOldExports, runExportJob} from "./accountExport";
+import {deleteAccount as deleteAccountData} from "./accountDeletion";
+import {purgeExpiredMemos, purgeMemo, setMemoTrashed} from "./trash";
+import {
+  BackfillJob,
+  createBackfillJob,
+  loadBackfillJob,
+  retryBackfillJob,
+  runBackfillJob,
+} from "./backfill";
+import {
+  TranscriptWord,
+  buildSpeakerSegments,
+  createTranscriptionProvider,
+} from "./transcription";
+import {checkAudioUpload} from "./uploadPolicy";
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -20,153 +71,61 @@ setGlobalOptions({
 // Define secrets
 const OPENAI_API_KEY = defineSecret("OPENAI_API_KEY");
 
-// Initialize clients
-const speechClient = new speech.SpeechClient();
+// Speech-to-text backend: "google" (default), "whisper" or "fake".
+// "fake" reads a sidecar .txt next to the audio, for emulator runs.
+const TRANSCRIPTION_PROVIDER = defineString("TRANSCRIPTION_PROVIDER", {
+  default: "google",
+});
 
-/**
- * Helper: chunk text with overlap
- * @param {string} s - The text to chunk
- * @param {number} targetLen - Target length of each chunk
- * @param {number} overlap - Overlap between chunks
- * @return {string[]} Array of text chunks
- */
-function chunkText(s: string, targetLen = 1200, overlap = 200): string[] {
-  if (!s || typeof s !== "string") return [];
-  const strips = s.replace(/\s+/g, " ").trim();
-  if (strips.length === 0) return [];
-
-  const out: string[] = [];
-  let i = 0;
-  let lastI = -1;
-
-  while (i < strips.length) {
-    // Prevent infinite loops
-    if (i === lastI) {
-      break;
-    }
-    lastI = i;
+// Embedding backend: "vertex" (default), "openai" or "local".
+// Must match EMBEDDING_PROVIDER on the chat API so queries and chunks share
+// a vector space; "local" is a deterministic hash embedder for emulator runs.
+const EMBEDDING_PROVIDER = defineString("EMBEDDING_PROVIDER", {
+  default: "vertex",
+});
 
-    const end = Math.min(i + targetLen, strips.length);
-    const chunk = strips.slice(i, end);
-    if (chunk.length > 0) {
-      out.push(chunk);
-    }
+// Memo enrichment (title, summary, key points, action items): "openai"
+// (default) or "heuristic". Without an OpenAI key the heuristic is used.
+const ENRICHMENT_PROVIDER = defineString("ENRICHMENT_PROVIDER", {
+  default: "openai",
+});
+const ENRICHMENT_MODEL = defineString("ENRICHMENT_MODEL", {
+  default: "gpt-4o-mini",
+});
 
-    // If we've reached the end, break
-    if (end >= strips.length) {
-      break;
-    }
+// Days a deleted memo stays in the trash before purgeTrash removes it.
+// Applies to memos deleted after a change.
+const TRASH_RETENTION_DAYS = defineInt("TRASH_RETENTION_DAYS", {
+  default: 30,
+});
 
-    // Move forward by targetLen - overlap, but at least by 1
-    i = Math.max(i + 1, end - overlap);
-  }
-  return out;
-}
+// An enrichment claim older than this is considered abandoned
+const ENRICHMENT_CLAIM_TTL_MS = 10 * 60 * 1000;
 
 /**
- * Helper: Retry with exponential backoff and jitter
- * @param {Function} fn - The async function to retry
- * @param {number} maxAttempts - Maximum number of attempts
- * @param {number} initialDelayMs - Initial delay in milliseconds
- * @return {Promise<T>} The result of the function
+ * Candidate transcription languages from the user's preferences.
+ * The primary language comes first; STT detects which one is spoken.
+ * @param {string} uid - User ID
+ * @return {Promise<string[]>} Normalized language codes (at least one)
  */
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxAttempts = 3,
-  initialDelayMs = 1000
-): Promise<T> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Check if error is retryable
-      const isRetryable = isRetryableError(lastError);
-      if (!isRetryable) {
-        throw lastError;
-      }
-
-      if (attempt < maxAttempts - 1) {
-        const delayMs = calculateBackoffDelay(attempt, initialDelayMs);
-        const msg = `Attempt ${attempt + 1} failed, retrying in ${delayMs}ms:`;
-        logger.warn(msg, lastError.message);
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-      }
+async function getCandidateLanguages(uid: string): Promise<string[]> {
+  try {
+    const userSnap = await admin.firestore().collection("users").doc(uid).get();
+    const prefs = userSnap.data()?.preferences || {};
+    const requested = [
+      prefs.language,
+      ...(Array.isArray(prefs.languages) ? prefs.languages : []),
+    ].filter((code): code is string =>
+      typeof code === "string" && code.trim().length > 0
+    );
+    const codes = Array.from(new Set(requested.map(normalizeLanguageCode)));
+    if (codes.length > 0) {
+      return codes.slice(0, MAX_CANDIDATE_LANGUAGES);
     }
+  } catch (error) {
+    logger.warn("Failed to read language preferences:", {uid, error});
   }
-
-  throw lastError || new Error("Max retries exceeded");
-}
-
-/**
- * Determine if an error is retryable
- * @param {Error} error - The error to check
- * @return {boolean} True if error should be retried
- */
-function isRetryableError(error: Error): boolean {
-  const msg = error.message.toLowerCase();
-  // Don't retry validation errors
-  if (msg.includes("invalid") || msg.includes("too small") ||
-      msg.includes("too large")) {
-    return false;
-  }
-  // Retry network, timeout, and server errors
-  return msg.includes("network") || msg.includes("timeout") ||
-         msg.includes("500") || msg.includes("503") ||
-         msg.includes("unavailable");
-}
-
-/**
- * Calculate exponential backoff delay with jitter
- * @param {number} attempt - Current attempt number
- * @param {number} initialDelayMs - Initial delay in milliseconds
- * @return {number} Delay in milliseconds
- */
-function calculateBackoffDelay(
-  attempt: number,
-  initialDelayMs: number
-): number {
-  const exponentialDelay = initialDelayMs * Math.pow(2, attempt);
-  const cappedDelay = Math.min(exponentialDelay, 30000); // Max 30 seconds
-  const jitter = cappedDelay * 0.1 * Math.random();
-  return Math.round(cappedDelay + jitter);
-}
-
-/**
- * Extract key terms from text for hybrid search
- * Simple TF-IDF-like approach: extract nouns and important words
- * @param {string} text - The text to extract terms from
- * @param {number} maxTerms - Maximum number of terms to extract
- * @return {string[]} Array of extracted terms
- */
-function extractTerms(text: string, maxTerms = 20): string[] {
-  // Simple stopwords list
-  const stopwords = new Set([
-    "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
-    "of", "with", "by", "from", "is", "are", "was", "were", "be", "been",
-    "being", "have", "has", "had", "do", "does", "did", "will", "would",
-    "could", "should", "may", "might", "must", "can", "this", "that",
-    "these", "those", "i", "you", "he", "she", "it", "we", "they",
-  ]);
-
-  // Split into words and filter
-  const words = text
-    .toLowerCase()
-    .split(/\W+/)
-    .filter((w) => w.length > 3 && !stopwords.has(w));
-
-  // Count frequency
-  const freq = new Map<string, number>();
-  words.forEach((w) => freq.set(w, (freq.get(w) || 0) + 1));
-
-  // Sort by frequency and return top terms
-  return Array.from(freq.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, maxTerms)
-    .map(([term]) => term);
+  return [DEFAULT_LANGUAGE];
 }
 
 /**
@@ -205,30 +164,6 @@ function calculateQualityScore(
   return Math.max(0, Math.min(100, score));
 }
 
-/**
- * Generate a summary from text
- * Simple approach: extract first 2-3 sentences
- * @param {string} text - The text to summarize
- * @param {number} maxLength - Maximum length of summary
- * @return {string} Generated summary
- */
-function generateSummary(text: string, maxLength = 200): string {
-  // Split into sentences
-  const sentences = text.split(/[.!?]+/).filter((s) => s.trim().length > 0);
-
-  let summary = "";
-  for (const sentence of sentences) {
-    const trimmed = sentence.trim();
-    if (summary.length + trimmed.length + 2 <= maxLength) {
-      summary += (summary ? " " : "") + trimmed + ".";
-    } else {
-      break;
-    }
-  }
-
-  return summary || text.substring(0, maxLength);
-}
-
 // ---------- 1) Transcribe on audio upload ----------
 export const onAudioUpload = onObjectFinalized(
   {
@@ -275,37 +210,38 @@ export const onAudioUpload = onObjectFinalized(
       // Extract userName from custom metadata
       userName = file.metadata?.["userName"] || "Unknown";
 
-      // Validate file size
+      // Validate against the upload policy shared with the client and
+      // storage.rules. The recorder reports the duration in metadata.
       const fileSizeBytes = file.size || 0;
-      const maxSizeBytes = 500 * 1024 * 1024; // 500 MB
-      const minSizeBytes = 1024; // 1 KB
-
-      if (fileSizeBytes < minSizeBytes) {
-        logger.error("Audio file too small:", {uid, memoId, fileSizeBytes});
-        throw new Error(`Audio file too small: ${fileSizeBytes} bytes`);
-      }
-
-      if (fileSizeBytes > maxSizeBytes) {
-        logger.error("Audio file too large:", {uid, memoId, fileSizeBytes});
-        const msg = `Audio file too large: ${fileSizeBytes} bytes ` +
-          `(max: ${maxSizeBytes})`;
-        throw new Error(msg);
-      }
-
-      // Validate content type
       const contentType = file.contentType || "";
-      const validAudioTypes = [
-        "audio/webm", "audio/mp4", "audio/m4a", "audio/wav",
-        "audio/mp3", "audio/mpeg",
-      ];
-      if (!validAudioTypes.some((type) => contentType.startsWith(type))) {
-        logger.error("Invalid audio content type:", {uid, memoId, contentType});
-        throw new Error(`Invalid audio content type: ${contentType}`);
+      const durationMetadata = file.metadata?.["durationSeconds"];
+      const durationSeconds = durationMetadata ?
+        Number(durationMetadata) :
+        undefined;
+      const violation = checkAudioUpload({
+        sizeBytes: fileSizeBytes,
+        contentType,
+        durationSeconds: Number.isFinite(durationSeconds) ?
+          durationSeconds :
+          undefined,
+      });
+      if (violation) {
+        logger.error("Audio upload rejected:", {
+          uid,
+          memoId,
+          fileSizeBytes,
+          contentType,
+          durationSeconds,
+          limit: violation.limit,
+        });
+        throw new Error(violation.message);
       }
 
       gcsUri = `gs://${file.bucket}/${file.name}`;
-      const project = process.env.GCLOUD_PROJECT;
-      const recognizer = `projects/${project}/locations/global/recognizers/_`;
+      const provider = createTranscriptionProvider(
+        TRANSCRIPTION_PROVIDER.value(),
+        {openaiApiKey: OPENAI_API_KEY.value()}
+      );
 
       logger.info("Transcribing audio:", {
         uid,
@@ -314,6 +250,7 @@ export const onAudioUpload = onObjectFinalized(
         gcsUri,
         fileSizeBytes,
         contentType,
+        provider: provider.name,
       });
 
       // Update memo status to "transcribing"
@@ -324,229 +261,44 @@ export const onAudioUpload = onObjectFinalized(
         .collection("memos")
         .doc(memoId);
 
-      await docRef.set(
-        {
-          status: "transcribing",
-          transcribingStartedAt: admin.firestore.FieldValue.serverTimestamp(),
-        },
-        {merge: true}
-      );
-
-      // Batch recognize - optimized for speed with retry logic
-      logger.info("Starting Speech-to-Text transcription...", {
-        uid,
-        memoId,
-        gcsUri,
+      const claimed = await transitionMemo(docRef, "transcribing", {
+        transcribingStartedAt: admin.firestore.FieldValue.serverTimestamp(),
       });
-      const startTime = Date.now();
-
-      // Determine audio duration from metadata to choose appropriate model
-      // Short audio (≤60s) uses latest_short for speed, longer uses latest_long
-      const audioSizeBytes = file.size || 0;
-      // Rough estimate: 16kHz, 16-bit
-      const estimatedDurationSeconds = Math.ceil(audioSizeBytes / (16000 * 2));
-      const useShortModel = estimatedDurationSeconds <= 60;
-
-      logger.info("Audio model selection:", {
-        uid,
-        memoId,
-        estimatedDurationSeconds,
-        useShortModel,
-      });
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const request: any = {
-        recognizer,
-        config: {
-          autoDecodingConfig: {},
-          // TODO: Make configurable from user profile
-          languageCodes: ["en-US"],
-          features: {
-            // Enable for longer audio to support future diarization
-            enableWordTimeOffsets: !useShortModel,
-          },
-          model: useShortModel ? "latest_short" : "latest_long",
-        },
-        recognitionOutputConfig: {
-          inlineResponseConfig: {},
-        },
-        files: [{uri: gcsUri}],
-      };
-
-      const [operation] = await retryWithBackoff(
-        () => speechClient.batchRecognize(request),
-        2,
-        500
-      );
-
-      logger.info("Waiting for Speech-to-Text operation to complete...", {
-        uid,
-        memoId,
-      });
-
-      // Wait for operation with timeout
-      const response = await Promise.race([
-        operation.promise(),
-        new Promise((_, reject) =>
-          setTimeout(
-            () => reject(new Error("Speech-to-Text operation timeout")),
-            540000
-          )
-        ),
-      ]);
-
-      const duration = Date.now() - startTime;
-      logger.info("Speech-to-Text operation completed", {
-        uid,
-        memoId,
-        durationMs: duration,
-      });
-
-      // Log the full response structure for debugging
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const resp = response as any;
-
-      // Log full response for debugging
-      const respStr = JSON.stringify(resp) || "undefined";
-      const respKeys = Object.keys(resp);
-      logger.info("Full Speech-to-Text response:", {
-        uid,
-        memoId,
-        responseKeys: respKeys.slice(0, 20),
-        responseStr: respStr.substring(0, 2000),
-        allKeys: respKeys,
-      });
-
-      // Extract transcript from the correct response structure
-      // Speech-to-Text v2 batchRecognize returns:
-      // { results: { [gcsUri]: { transcript: { results: [...] } } } }
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let fileResults: any = null;
-
-      // Try to extract results from the response
-      // First, check if response has a results property (most common case)
-      if (resp?.results && typeof resp.results === "object") {
-        logger.info("Response has results property", {
-          uid,
-          memoId,
-          resultsKeys: Object.keys(resp.results).slice(0, 10),
-        });
-
-        // Try with full gcsUri as key
-        fileResults = resp.results[gcsUri];
-
-        // If not found, try first available result
-        if (!fileResults) {
-          const resultsArray = Object.values(
-            resp.results
-          ) as Record<string, unknown>[];
-          if (resultsArray.length > 0) {
-            fileResults = resultsArray[0];
-            logger.info("Using first available result from results object");
-          }
-        }
-      }
-
-      // If response is an array (alternative structure)
-      if (!fileResults && Array.isArray(resp) && resp.length > 0) {
-        logger.info("Response is an array, checking first element", {
-          uid,
-          memoId,
-          arrayLength: resp.length,
-        });
-
-        const firstElement = resp[0];
-        if (firstElement?.results && typeof firstElement.results === "object") {
-          // Try with full gcsUri as key
-          fileResults = firstElement.results[gcsUri];
-
-          // If not found, try first available result
-          if (!fileResults) {
-            const resultsArray = Object.values(
-              firstElement.results
-            ) as Record<string, unknown>[];
-            if (resultsArray.length > 0) {
-              fileResults = resultsArray[0];
-              logger.info("Using first available result from array element");
-            }
-          }
-        }
+      if (!claimed) {
+        logger.info("Memo already in progress, skipping:", {uid, memoId});
+        return;
       }
 
-      // If still not found, check if response itself is the file result
-      if (!fileResults && resp?.transcript !== undefined) {
-        fileResults = resp;
-        logger.info("Response is BatchRecognizeFileResult directly");
-      }
+      // Candidate languages for automatic language detection
+      const languageCodes = await getCandidateLanguages(uid);
 
-      if (!fileResults) {
-        // Log detailed error info
-        const respStr2 = JSON.stringify(resp).substring(0, 1000);
-        const msg = `No results found. Response: ${respStr2}`;
-        logger.error(msg);
-        const errMsg = `No transcription results found for ${gcsUri}. ` +
-          "Check Cloud Function logs for details.";
-        throw new Error(errMsg);
-      }
+      const startTime = Date.now();
+      const result = await provider.transcribe({
+        bucket: file.bucket,
+        path: file.name,
+        contentType,
+        sizeBytes: fileSizeBytes,
+        languageCodes,
+      });
 
-      logger.info("FileResults extracted successfully", {
+      logger.info("Transcription provider finished", {
         uid,
         memoId,
-        hasTranscript: !!fileResults?.transcript,
-        hasResults: !!fileResults?.results,
-        fileResultsKeys: Object.keys(fileResults).slice(0, 10),
+        provider: provider.name,
+        durationMs: Date.now() - startTime,
       });
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let transcriptResults = (fileResults as any)?.transcript?.results;
-
-      // If transcript.results not found, try direct results
-      if (!transcriptResults) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        transcriptResults = (fileResults as any)?.results;
-      }
-
-      // If still not found, check if fileResults itself is the results array
-      if (!transcriptResults && Array.isArray(fileResults)) {
-        transcriptResults = fileResults;
-        logger.info("FileResults is the results array directly");
-      }
-
-      if (!transcriptResults || transcriptResults.length === 0) {
-        const fileResultsJson = JSON.stringify(fileResults, null, 2) ||
-          "undefined";
-        const fileResultsStr = fileResultsJson.substring(0, 1000);
-        const msg = `No transcript results. FileResults: ${fileResultsStr}`;
-        logger.error(msg);
-        throw new Error(`No transcript results found for ${gcsUri}`);
-      }
-
-      // Get the first result's alternatives
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const alternatives = (transcriptResults[0] as any)?.alternatives;
-      if (!alternatives || alternatives.length === 0) {
-        logger.error("No alternatives found in transcript:", {
-          uid,
-          memoId,
-          gcsUri,
-        });
-        throw new Error(`No alternatives found in transcript for ${gcsUri}`);
-      }
-
-      // Extract transcript text from the top alternative
-      let transcript = alternatives[0]?.transcript || "";
-
       // Validate and sanitize transcript
-      if (typeof transcript !== "string") {
-        transcript = String(transcript);
-      }
-      transcript = transcript.trim();
+      let transcript = result.text.trim();
 
       if (!transcript || transcript.length === 0) {
         logger.warn("Empty transcript extracted:", {uid, memoId, gcsUri});
         throw new Error("Transcription resulted in empty transcript");
       }
 
+      const {confidence, language} = result;
+      let {words, segments: speakerSegments} = result;
+
       if (transcript.length > 100000) {
         logger.warn("Transcript too long, truncating:", {
           uid,
@@ -554,17 +306,23 @@ export const onAudioUpload = onObjectFinalized(
           length: transcript.length,
         });
         transcript = transcript.substring(0, 100000);
+        // Cut the word timings at the same point so chunks stay timed
+        if (words.length > 0) {
+          const tokenCount = transcript
+            .split(/\s+/)
+            .filter((w: string) => w.length > 0).length;
+          words = words.slice(0, tokenCount);
+          speakerSegments = buildSpeakerSegments(words);
+        }
       }
-
-      // Extract word-level information if available
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const words = (alternatives[0] as any)?.words || [];
+      const speakers = Array.from(
+        new Set(speakerSegments.map((seg) => seg.speaker))
+      );
 
       // Calculate word count and quality metrics
       const wordCount = transcript
         .split(/\s+/)
         .filter((w: string) => w.length > 0).length;
-      const confidence = alternatives[0]?.confidence || 0;
 
       // Enhanced quality scoring
       const qualityScore = calculateQualityScore(
@@ -580,32 +338,38 @@ export const onAudioUpload = onObjectFinalized(
         wordCount,
         confidence,
         qualityScore,
-        wordLevelCount: Array.isArray(words) ? words.length : 0,
+        wordLevelCount: words.length,
+        speakerCount: speakers.length,
+        language,
       });
 
       // Generate summary and extract terms
       const summary = generateSummary(transcript);
-      const terms = extractTerms(transcript);
+      const terms = extractTerms(transcript, 20, language);
 
       await retryWithBackoff(
-        () => docRef.set(
+        () => transitionMemo(
+          docRef,
+          "transcribed",
           {
             createdAt: admin.firestore.FieldValue.serverTimestamp(),
             storagePath: file.name,
             contentType: file.contentType,
-            status: "transcribed",
             transcript,
-            words: Array.isArray(words) ? words : [],
+            words,
+            speakerSegments, // Diarized turns for multi-person recordings
+            speakers,
+            speakerCount: speakers.length,
             userName,
             wordCount,
             confidence,
             qualityScore,
             transcribedAt: admin.firestore.FieldValue.serverTimestamp(),
-            language: "en-US", // Detected language
-            summary, // Short extract for list previews
+            language, // Detected language
+            languageCandidates: languageCodes,
+            summary, // Extract for list previews until enrichment runs
             terms, // Keywords for hybrid search
-          },
-          {merge: true}
+          }
         ),
         2,
         500
@@ -630,56 +394,18 @@ export const onAudioUpload = onObjectFinalized(
         stack: errorStack,
       });
 
-      // Update memo document with detailed error status
-      try {
-        const docRef = admin
-          .firestore()
-          .collection("users")
-          .doc(uid)
-          .collection("memos")
-          .doc(memoId);
-
-        const errMsg = error instanceof Error ? error.message : "Unknown error";
-        const errorStack = error instanceof Error ? error.stack : undefined;
-        const errorType = error?.constructor?.name || "UnknownError";
-
-        // Classify error for better user feedback
-        let errorCategory = "UNKNOWN";
-        if (errMsg.includes("timeout")) {
-          errorCategory = "TIMEOUT";
-        } else if (
-          errMsg.includes("too small") || errMsg.includes("too large")
-        ) {
-          errorCategory = "INVALID_FILE_SIZE";
-        } else if (errMsg.includes("content type")) {
-          errorCategory = "INVALID_CONTENT_TYPE";
-        } else if (
-          errMsg.includes("permission") || errMsg.includes("denied")
-        ) {
-          errorCategory = "PERMISSION_ERROR";
-        } else if (
-          errMsg.includes("quota") || errMsg.includes("rate limit")
-        ) {
-          errorCategory = "QUOTA_EXCEEDED";
-        } else if (
-          errMsg.includes("network") || errMsg.includes("connection")
-        ) {
-          errorCategory = "NETWORK_ERROR";
-        }
-
-        await docRef.set(
-          {
-            status: "error",
-            errorMessage: errMsg,
-            errorType,
-            errorCategory,
-            errorDetails: errorStack?.substring(0, 500),
-            errorAt: admin.firestore.FieldValue.serverTimestamp(),
-          },
-          {merge: true}
+      // Record the failed stage on the memo
+      if (uid && memoId) {
+        await failMemo(
+          admin
+            .firestore()
+            .collection("users")
+            .doc(uid)
+            .collection("memos")
+            .doc(memoId),
+          "transcription",
+          error
         );
-      } catch (updateError) {
-        logger.error("Failed to update error status:", updateError);
       }
 
       throw error;
@@ -688,8 +414,68 @@ export const onAudioUpload = onObjectFinalized(
 );
 
 // ---------- 2) Chunk + embed on transcript write ----------
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+/**
+ * Options for building embedding providers from this function's config
+ * @return {Object} Project, token source and OpenAI key
+ */
+function embeddingProviderOptions() {
+  return {
+    project: process.env.GCLOUD_PROJECT,
+    getAccessToken: async () => {
+      const token = await admin.credential
+        .applicationDefault()
+        .getAccessToken();
+      return {
+        token: token.access_token,
+        expiresAt: Date.now() + token.expires_in * 1000,
+      };
+    },
+    openaiApiKey: OPENAI_API_KEY.value(),
+  };
+}
+
+/**
+ * Embedding provider for a version, cached per instance so access token
+ * caches are shared across invocations
+ * @param {string} version - Embedding version; defaults to the provider
+ *   selected by EMBEDDING_PROVIDER
+ * @return {EmbeddingProvider} The provider
+ */
+function getEmbeddingProvider(version?: string): EmbeddingProvider {
+  const key = version || `provider:${EMBEDDING_PROVIDER.value()}`;
+  let provider = embeddingProviders.get(key);
+  if (!provider) {
+    provider = version ?
+      createEmbeddingProviderForVersion(version, embeddingProviderOptions()) :
+      createEmbeddingProvider(
+        EMBEDDING_PROVIDER.value(),
+        embeddingProviderOptions()
+      );
+    embeddingProviders.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Providers for the versions a memo must be indexed in: the target version
+ * first, plus the active version while a migration is running
+ * @return {Promise<EmbeddingProvider[]>} Providers, target first
+ */
+async function getIndexingProviders(): Promise<EmbeddingProvider[]> {
+  const config = await getEmbeddingConfig(getEmbeddingProvider().version);
+  const versions = Array.from(
+    new Set([config.targetVersion, config.activeVersion])
+  );
+  return versions.map((version) => getEmbeddingProvider(version));
+}
+
 export const onTranscriptWrite = onDocumentWritten(
-  {document: "users/{uid}/memos/{memoId}"},
+  {
+    document: "users/{uid}/memos/{memoId}",
+    secrets: [OPENAI_API_KEY],
+  },
   async (event) => {
     const after = event.data?.after?.data();
     if (!after?.transcript) {
@@ -697,201 +483,155 @@ export const onTranscriptWrite = onDocumentWritten(
       return;
     }
 
+    // Transcription in progress, or this trigger's own progress writes. An
+    // embedding run that died is taken over once its claim is stale.
+    const status = after.status || "pending";
+    const staleEmbedding = status === "embedding" &&
+      isStaleClaim(status, stageStartedAtMillis(after));
+    if (
+      !["transcribed", "indexed", "error"].includes(status) &&
+      !staleEmbedding
+    ) {
+      return;
+    }
+
     const {uid, memoId} = event.params as {uid: string; memoId: string};
+    const memoRef = admin.firestore().doc(`users/${uid}/memos/${memoId}`);
     const transcript: string = after.transcript;
     const userName: string = after.userName || "Unknown";
+    const language: string = after.language || DEFAULT_LANGUAGE;
+    const words: TranscriptWord[] = Array.isArray(after.words) ?
+      after.words : [];
 
-    try {
-      logger.info("Starting embedding process:", {uid, memoId, userName});
-      logger.info("Transcript details:", {
-        uid,
-        memoId,
-        transcriptLength: transcript.length,
-        transcriptPreview: transcript.substring(0, 100),
-      });
+    // Don't retry a failed embedding until the transcript changes
+    const transcriptHash = hashTranscript(transcript, words, language);
+    if (status === "error" && after.failedTranscriptHash === transcriptHash) {
+      return;
+    }
 
-      // Chunk transcript
-      logger.info("About to chunk text...", {uid, memoId});
-      const chunks = chunkText(transcript, 1200, 200);
-      logger.info("Text chunked:", {
-        uid,
-        memoId,
-        chunkCount: chunks.length,
-        chunks: chunks.map((c) => c.substring(0, 50)),
+    let providers: EmbeddingProvider[];
+    try {
+      providers = await getIndexingProviders();
+    } catch (error) {
+      logger.error("Embedding provider unavailable:", error);
+      await failMemo(memoRef, "embedding", error, {
+        failedTranscriptHash: transcriptHash,
       });
+      return;
+    }
+    const versions = providers.map((p) => p.version);
+
+    // Skip writes that don't change what was embedded (tags, favorites,
+    // speaker names, this trigger's own "indexed" update, ...). A changed
+    // version set re-indexes, which also drops chunks of retired versions.
+    const indexedVersions: string[] = Array.isArray(after.embeddingVersions) ?
+      after.embeddingVersions : [];
+    const keywordHash = keywordIndexHash(
+      transcriptHash,
+      after.isDeleted === true
+    );
+    if (
+      after.embeddedTranscriptHash === transcriptHash &&
+      sameVersions(indexedVersions, versions)
+    ) {
+      if (status !== "indexed") return;
+      const updates: Record<string, string> = {};
+
+      // Memo metadata copied onto chunks (enrichment, ...) may have changed
+      const metadata = chunkMetadata(after);
+      const metadataHash = hashChunkMetadata(metadata);
+      if (after.chunkMetadataHash !== metadataHash) {
+        const updated = await syncChunkMetadata(uid, memoId, metadata);
+        updates.chunkMetadataHash = metadataHash;
+        logger.info("Chunk metadata synced:", {uid, memoId, updated});
+      }
 
-      // Generate embeddings using Vertex AI
-      const project = process.env.GCLOUD_PROJECT;
-      const modelPath =
-        "locations/us-central1/publishers/google/models/gemini-embedding-001";
-      const model = `projects/${project}/${modelPath}`;
-
-      const vectors: number[][] = [];
-      const failedChunks: number[] = [];
-
-      for (let i = 0; i < chunks.length; i++) {
-        const ch = chunks[i];
-        logger.info("Embedding chunk:", {uid, memoId, chunkIndex: i});
-
-        try {
-          // Call the Vertex AI Embeddings API using REST
-          // This is more reliable than the gRPC client
-          let token = "";
-          try {
-            const cred = admin.credential.applicationDefault();
-            const accessToken = await cred.getAccessToken();
-            token = accessToken.access_token;
-            logger.info("Got access token", {uid, memoId, chunkIndex: i});
-          } catch (tokenError) {
-            logger.error("Failed to get access token", {
-              uid,
-              memoId,
-              chunkIndex: i,
-              error: tokenError,
-            });
-            throw tokenError;
-          }
-
-          const url =
-            `https://us-central1-aiplatform.googleapis.com/v1/${model}:predict`;
-
-          const requestBody = {
-            instances: [{
-              content: ch,
-              task_type: "RETRIEVAL_DOCUMENT",
-            }],
-            parameters: {
-              outputDimensionality: 1024,
-              autoTruncate: true,
-            },
-          };
-
-          logger.info("Calling embedding API via REST", {
-            uid,
-            memoId,
-            chunkIndex: i,
-            url,
-          });
-
-          const response = await retryWithBackoff(
-            async () => {
-              const res = await fetch(url, {
-                method: "POST",
-                headers: {
-                  "Authorization": `Bearer ${token}`,
-                  "Content-Type":
-                    "application/json",
-                },
-                body: JSON.stringify(requestBody),
-              });
-
-              if (!res.ok) {
-                const errorText = await res.text();
-                logger.error("Embedding API error response", {
-                  uid,
-                  memoId,
-                  chunkIndex: i,
-                  status: res.status,
-                  errorText: errorText.substring(0, 200),
-                });
-                throw new Error(`API error ${res.status}: ${errorText}`);
-              }
-
-              return res.json();
-            },
-            2,
-            500
-          );
-
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const embeddings = (response?.predictions?.[0] as any)?.embeddings;
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const values = embeddings?.values as number[];
-
-          if (!Array.isArray(values) || values.length === 0) {
-            logger.warn("Invalid embedding result for chunk:", {
-              uid,
-              memoId,
-              chunkIndex: i,
-            });
-            failedChunks.push(i);
-          } else {
-            vectors.push(values);
-          }
-        } catch (error) {
-          logger.error("Failed to embed chunk:", {
-            uid,
-            memoId,
-            chunkIndex: i,
-            error,
-          });
-          failedChunks.push(i);
-        }
+      // Trashing or restoring removes or re-adds the memo's postings; memos
+      // indexed before the keyword index existed get theirs here too
+      if (after.keywordIndexHash !== keywordHash) {
+        await updateKeywordIndex({uid, memoId, memo: after});
+        updates.keywordIndexHash = keywordHash;
       }
 
-      if (vectors.length === 0) {
-        throw new Error("Failed to generate embeddings for any chunks");
+      if (Object.keys(updates).length > 0) {
+        await memoRef.update(updates);
       }
+      return;
+    }
 
-      logger.info("Embeddings generated:", {
+    try {
+      logger.info("Starting embedding process:", {
         uid,
         memoId,
-        vectorCount: vectors.length,
-        failedCount: failedChunks.length,
+        userName,
+        versions,
+        transcriptLength: transcript.length,
       });
 
-      // Store chunks with vector embeddings
-      const db = admin.firestore();
-      const batch = db.batch();
-      const chunksColl = db
-        .collection("users")
-        .doc(uid)
-        .collection("chunks");
-
-      chunks.forEach((text, i) => {
-        if (!failedChunks.includes(i) && vectors[i]) {
-          const ref = chunksColl.doc(`${memoId}_${i}`);
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const fsAny = admin.firestore as any;
-
-          // Approximate token count: ~4 characters per token (rough estimate)
-          const tokenCount = Math.ceil(text.length / 4);
-
-          // Extract terms for this chunk for hybrid search
-          const chunkTerms = extractTerms(text, 10);
+      const claimed = await transitionMemo(memoRef, "embedding", {}, {
+        embeddedChunks: 0,
+        totalChunks: null,
+      });
+      if (!claimed) {
+        logger.info("Memo already being embedded, skipping:", {uid, memoId});
+        return;
+      }
 
-          batch.set(ref, {
-            uid,
-            memoId,
-            userName,
-            chunkIndex: i,
-            text,
-            embedding: fsAny.FieldValue.vector(vectors[i]),
-            tokenCount, // For retriever budgeting
-            terms: chunkTerms, // Keywords for hybrid search fallback
-            memoDeleted: false, // Denormalized flag for filtering deleted memos
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-          });
-        }
+      // Progress writes are throttled to about one per second
+      let lastProgressAt = 0;
+      const result = await indexMemoChunks({
+        uid,
+        memoId,
+        memo: after,
+        providers,
+        onProgress: (completed, total) => {
+          const now = Date.now();
+          if (now - lastProgressAt < 1000 && completed < total) return;
+          lastProgressAt = now;
+          void reportEmbeddingProgress(memoRef, completed, total);
+        },
       });
 
-      await retryWithBackoff(
-        () => batch.commit(),
-        2,
-        500
-      );
-      logger.info("Chunks stored in Firestore:", {uid, memoId});
+      // BM25 postings; a failure leaves keywordIndexHash unset so the next
+      // write of the memo retries
+      let keywordIndexed = false;
+      try {
+        await updateKeywordIndex({uid, memoId, memo: after});
+        keywordIndexed = true;
+      } catch (keywordError) {
+        logger.error("Keyword indexing failed:", {
+          uid,
+          memoId,
+          error: keywordError instanceof Error ?
+            keywordError.message :
+            String(keywordError),
+        });
+      }
+
+      // Upload-to-searchable time, from when transcription started
+      const startedAt = after.pipeline?.stageTimes?.transcribing?.toMillis?.();
 
       // Mark memo as indexed
       await retryWithBackoff(
-        () =>
-          admin
-            .firestore()
-            .doc(`users/${uid}/memos/${memoId}`)
-            .set(
-              {indexed: true, embeddedChunkCount: vectors.length},
-              {merge: true}
-            ),
+        () => transitionMemo(
+          memoRef,
+          "indexed",
+          {
+            embeddedChunkCount: result.embeddedCount,
+            embeddedTranscriptHash: transcriptHash,
+            embeddingVersions: versions,
+            chunkMetadataHash: hashChunkMetadata(chunkMetadata(after)),
+            ...(keywordIndexed ? {keywordIndexHash: keywordHash} : {}),
+            ...(typeof startedAt === "number" && !after.processingTime ?
+              {processingTime: Date.now() - startedAt} :
+              {}),
+          },
+          {
+            embeddedChunks: result.chunkCount,
+            totalChunks: result.chunkCount,
+            failedChunks: result.failedCount,
+          }
+        ),
         2,
         500
       );
@@ -899,27 +639,146 @@ export const onTranscriptWrite = onDocumentWritten(
       logger.info("Memo marked as indexed:", {
         uid,
         memoId,
-        embeddedChunkCount: vectors.length,
+        embeddedChunkCount: result.embeddedCount,
+        reusedCount: result.reusedCount,
       });
     } catch (error) {
       logger.error("Error in onTranscriptWrite:", error);
+      await failMemo(memoRef, "embedding", error, {
+        failedTranscriptHash: transcriptHash,
+      });
       throw error;
     }
   }
 );
 
-// ---------- 3) Delete memo with cascade (HTTPS callable) ----------
-// Deletes a memo and all associated data: Storage audio, Firestore memo doc,
-// and chunk docs
-import {onCall} from "firebase-functions/v2/https";
+// ---------- 3) Enrich memo after transcription ----------
+// Writes title, summary, keyPoints and actionItems, and turns the action
+// items into documents in users/{uid}/tasks. Runs alongside
+// embedding and never fails the memo: model errors fall back to the
+// deterministic heuristic enricher.
+export const onMemoEnrich = onDocumentWritten(
+  {
+    document: "users/{uid}/memos/{memoId}",
+    secrets: [OPENAI_API_KEY],
+  },
+  async (event) => {
+    const after = event.data?.after?.data();
+    if (!after?.transcript) return;
+
+    const {uid, memoId} = event.params as {uid: string; memoId: string};
+    const memoRef = admin.firestore().doc(`users/${uid}/memos/${memoId}`);
+    const transcript: string = after.transcript;
+    const language: string = after.language || DEFAULT_LANGUAGE;
+    const words: TranscriptWord[] = Array.isArray(after.words) ?
+      after.words : [];
+    const transcriptHash = hashTranscript(transcript, words, language);
+
+    // Already enriched (or being enriched) for this transcript
+    if (after.enrichment?.transcriptHash === transcriptHash) return;
+
+    // Before claiming, so a bad provider config can't leave a claim running
+    const configured = createEnricher(ENRICHMENT_PROVIDER.value(), {
+      openaiApiKey: OPENAI_API_KEY.value(),
+      model: ENRICHMENT_MODEL.value(),
+    });
+
+    // Claim the transcript so duplicate deliveries don't call the model twice
+    const claimed = await admin.firestore().runTransaction(async (tx) => {
+      const snap = await tx.get(memoRef);
+      const current = snap.data()?.enrichment;
+      const claimedAt = current?.startedAt?.toMillis?.() || 0;
+      if (
+        current?.transcriptHash === transcriptHash &&
+        (current.status === "done" ||
+          Date.now() - claimedAt < ENRICHMENT_CLAIM_TTL_MS)
+      ) {
+        return false;
+      }
+      tx.update(memoRef, {
+        enrichment: {
+          status: "running",
+          transcriptHash,
+          startedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      });
+      return true;
+    });
+    if (!claimed) return;
+
+    const startTime = Date.now();
+    const {enrichment, enricher, error} = await enrichMemo(configured, {
+      transcript,
+      language,
+      speakers: Array.isArray(after.speakers) ? after.speakers : [],
+    });
+
+    const suggestedTags = suggestTags(
+      enrichment,
+      Array.isArray(after.terms) ? after.terms : []
+    );
+
+    // Tags follow the suggestions until the user edits them; read inside
+    // the transaction so a concurrent edit is never overwritten
+    await retryWithBackoff(
+      () => admin.firestore().runTransaction(async (tx) => {
+        const current = (await tx.get(memoRef)).data() || {};
+        tx.update(memoRef, {
+          ...enrichment,
+          suggestedTags,
+          ...(current.tagsEdited ? {} : {tags: suggestedTags}),
+          enrichment: {
+            status: "done",
+            transcriptHash,
+            provider: enricher.name,
+            model: enricher.model,
+            error: error || null, // Set when the configured enricher failed
+            durationMs: Date.now() - startTime,
+            enrichedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+        });
+      }),
+      2,
+      500
+    );
+
+    // Action items become tasks; a failure here leaves the enrichment intact
+    try {
+      await syncMemoTasks({
+        uid,
+        memoId,
+        memo: {...after, title: enrichment.title},
+        actionItems: enrichment.actionItems,
+      });
+    } catch (taskError) {
+      logger.error("Failed to sync memo tasks:", {uid, memoId, taskError});
+    }
 
+    logger.info("Memo enriched:", {
+      uid,
+      memoId,
+      provider: enricher.name,
+      keyPoints: enrichment.keyPoints.length,
+      actionItems: enrichment.actionItems.length,
+      suggestedTags,
+      fellBack: !!error,
+    });
+  }
+);
+
+// ---------- 4) Trash, restore and delete memos (HTTPS callables) ----------
+// deleteMemo moves a memo to the trash; retrieval and the task list skip it
+// until it is restored or purged. With permanent: true (emptying it from
+// the trash) the audio, chunk docs, tasks and memo doc are deleted at once;
+// only memos already in the trash can be deleted that way.
 export const deleteMemo = onCall(
   {
     memory: "512MiB",
     timeoutSeconds: 60,
   },
   async (request) => {
-    const {memoId} = request.data as {memoId: string};
+    const {memoId, permanent} =
+      request.data as {memoId: string; permanent?: boolean};
     const uid = request.auth?.uid;
 
     if (!uid) {
@@ -930,92 +789,21 @@ export const deleteMemo = onCall(
       throw new Error("Invalid memoId");
     }
 
-    logger.info("Starting memo deletion:", {uid, memoId});
+    logger.info("Starting memo deletion:", {uid, memoId, permanent});
 
     try {
-      const db = admin.firestore();
-      const storage = admin.storage();
-      let deletedChunks = 0;
-
-      // Get memo doc first to retrieve storage path
-      const memoRef = db
-        .collection("users")
-        .doc(uid)
-        .collection("memos")
-        .doc(memoId);
-      const memoSnap = await memoRef.get();
-      const storagePath = memoSnap.data()?.storagePath;
-
-      // 1) Delete Storage audio file
-      try {
-        const bucket = storage.bucket();
-        if (storagePath) {
-          // Use the stored path
-          await bucket.file(storagePath).delete().catch(() => {
-            logger.warn(
-              "Audio file not found or already deleted:",
-              {uid, memoId, storagePath}
-            );
-          });
-        } else {
-          // Fallback: try common extensions
-          const extensions = ["webm", "m4a", "mp4", "wav", "mp3"];
-          for (const ext of extensions) {
-            const audioPath = `audio/${uid}/${memoId}.${ext}`;
-            await bucket.file(audioPath).delete().catch(() => {
-              // File may not exist, that's ok
-            });
-          }
-        }
-        logger.info("Storage audio deleted:", {uid, memoId});
-      } catch (storageError) {
-        logger.warn("Error deleting storage file:", storageError);
-        // Continue with deletion even if storage fails
+      if (permanent === true) {
+        const result = await purgeMemo(uid, memoId);
+        return {ok: true, permanent: true, ...result};
       }
 
-      // 2) Delete Firestore memo document
-      await memoRef.delete();
-      logger.info("Memo document deleted:", {uid, memoId});
-
-      // 3) Delete all chunk documents for this memo
-      const chunksRef = db.collection("users").doc(uid).collection("chunks");
-      const chunksQuery = chunksRef.where("memoId", "==", memoId);
-      const chunksSnap = await chunksQuery.get();
-
-      const batch = db.batch();
-      chunksSnap.docs.forEach((doc) => {
-        batch.delete(doc.ref);
-        deletedChunks++;
-      });
-
-      if (deletedChunks > 0) {
-        await batch.commit();
-        logger.info("Chunk documents deleted:", {uid, memoId, deletedChunks});
-      }
-
-      // 4) Optional: Write tombstone for race condition prevention
-      // (Useful if multiple deletes are in flight)
-      const tombstoneRef = db
-        .collection("users")
-        .doc(uid)
-        .collection("deletedMemos")
-        .doc(memoId);
-      await tombstoneRef.set({
-        deletedAt: admin.firestore.FieldValue.serverTimestamp(),
-        deletedChunks,
-      });
-
-      logger.info("Memo deletion completed successfully:", {
+      const purgeAt = await setMemoTrashed({
         uid,
         memoId,
-        deletedChunks,
+        trashed: true,
+        retentionDays: TRASH_RETENTION_DAYS.value(),
       });
-
-      return {
-        ok: true,
-        deletedChunks,
-        deletedStorage: true,
-      };
+      return {ok: true, permanent: false, purgeAt: purgeAt?.toISOString()};
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       logger.error("Error in deleteMemo:", {
@@ -1027,3 +815,252 @@ export const deleteMemo = onCall(
     }
   }
 );
+
+export const restoreMemo = onCall(
+  {
+    memory: "512MiB",
+    timeoutSeconds: 60,
+  },
+  async (request) => {
+    const {memoId} = request.data as {memoId: string};
+    const uid = request.auth?.uid;
+
+    if (!uid) {
+      throw new Error("Unauthenticated: User must be logged in");
+    }
+
+    if (!memoId || typeof memoId !== "string") {
+      throw new Error("Invalid memoId");
+    }
+
+    await setMemoTrashed({
+      uid,
+      memoId,
+      trashed: false,
+      retentionDays: TRASH_RETENTION_DAYS.value(),
+    });
+    return {ok: true};
+  }
+);
+
+// ---------- 5) Re-embed memos into a new version (admin callable) ----------
+// Resumable: each call runs until close to the timeout and returns the job
+// ID; call again with {jobId} until done. A job that stopped with failed
+// memos (needsRetry) sweeps them again on {jobId}, or switches retrieval
+// over anyway on {jobId, force: true}. Requires the `admin` custom claim.
+const BACKFILL_RUN_BUDGET_MS = 480 * 1000;
+
+export const backfillEmbeddings = onCall(
+  {
+    memory: "1GiB",
+    timeoutSeconds: 540,
+    secrets: [OPENAI_API_KEY],
+  },
+  async (request) => {
+    const startedAt = Date.now();
+    const callerUid = request.auth?.uid;
+    if (!callerUid) {
+      throw new Error("Unauthenticated: User must be logged in");
+    }
+    if (request.auth?.token?.admin !== true) {
+      throw new Error("Permission denied: admin claim required");
+    }
+
+    const {jobId, uid, targetVersion, activate, force} =
+      (request.data || {}) as {
+        jobId?: string;
+        uid?: string;
+        targetVersion?: string;
+        activate?: boolean;
+        force?: boolean;
+      };
+
+    let job: BackfillJob | null;
+    if (jobId) {
+      job = await loadBackfillJob(jobId);
+      if (!job) {
+        throw new Error(`Invalid jobId: ${jobId}`);
+      }
+      if (job.status === "needs_retry") {
+        retryBackfillJob(job, force === true);
+      }
+    } else {
+      const config = await getEmbeddingConfig(getEmbeddingProvider().version);
+      const target = targetVersion || config.targetVersion;
+      // Fail fast on versions no provider can produce
+      getEmbeddingProvider(target);
+      job = await createBackfillJob({
+        uid: uid || null,
+        config,
+        targetVersion: target,
+        activate: activate !== false,
+        requestedBy: callerUid,
+      });
+    }
+
+    logger.info("Running embedding backfill:", {
+      jobId: job.id,
+      uid: job.uid,
+      targetVersion: job.targetVersion,
+      phase: job.phase,
+      cursor: job.cursor,
+    });
+
+    const result = await runBackfillJob(
+      job,
+      (version) => getEmbeddingProvider(version),
+      startedAt + BACKFILL_RUN_BUDGET_MS
+    );
+
+    return {
+      jobId: result.id,
+      status: result.status,
+      phase: result.phase,
+      processedMemos: result.processedMemos,
+      indexedMemos: result.indexedMemos,
+      failedMemos: result.failedMemos,
+      failures: result.failures,
+      needsRetry: result.status === "needs_retry",
+      done: result.status === "completed",
+    };
+  }
+);
+
+// ---------- 6) Purge memos whose trash retention ran out (daily) ----------
+// Leaves a margin before the function timeout; memos left over are picked
+// up by the next run
+const PURGE_RUN_BUDGET_MS = 480 * 1000;
+
+export const purgeTrash = onSchedule(
+  {
+    schedule: "every 24 hours",
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const result = await purgeExpiredMemos(Date.now() + PURGE_RUN_BUDGET_MS);
+    logger.info("Trash purge finished:", result);
+  }
+);
+
+// ---------- 7) Delete chat sessions with their messages (callable) ----------
+// {sessionId} deletes one session; {olderThanDays} deletes every session
+// with no activity in that many days
+export const deleteChatSessions = onCall(
+  {
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    const {sessionId, olderThanDays} =
+      request.data as {sessionId?: string; olderThanDays?: number};
+    const uid = request.auth?.uid;
+
+    if (!uid) {
+      throw new Error("Unauthenticated: User must be logged in");
+    }
+
+    let deleted: number;
+    if (typeof sessionId === "string" && sessionId.length > 0) {
+      deleted = await deleteSessions(uid, {sessionId});
+    } else if (
+      typeof olderThanDays === "number" &&
+      Number.isFinite(olderThanDays) &&
+      olderThanDays >= 0
+    ) {
+      const olderThan =
+        new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+      deleted = await deleteSessions(uid, {olderThan});
+    } else {
+      throw new Error("Invalid request: sessionId or olderThanDays required");
+    }
+
+    return {ok: true, deleted};
+  }
+);
+
+// ---------- 8) Export all account data as a zip (callable) ----------
+// Progress is written to users/{uid}/exports/{exportId}, which the app
+// watches; the call returns once the archive is uploaded and signed
+export const exportAccountData = onCall(
+  {
+    memory: "2GiB",
+    timeoutSeconds: 540,
+  },
+  async (request) => {
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new Error("Unauthenticated: User must be logged in");
+    }
+
+    const job = await createExportJob(uid);
+    logger.info("Account export started:", {uid, exportId: job.exportId});
+    const result = await runExportJob(job);
+
+    // Each export replaces the previous archive
+    await deleteOldExports(uid, job.exportId).catch((error) =>
+      logger.warn("Failed to delete old exports:", {uid, error}));
+
+    return {
+      exportId: result.exportId,
+      downloadUrl: result.downloadUrl,
+      expiresAt: result.expiresAt?.toDate().toISOString() ?? null,
+      sizeBytes: result.sizeBytes,
+      counts: result.counts,
+    };
+  }
+);
+
+// ---------- 9) Delete the account and all of its data (callable) ----------
+// Resumable: returns done: false when the run budget is used up, and the
+// app calls again until done. The Auth user is deleted last.
+const ACCOUNT_DELETION_RUN_BUDGET_MS = 240 * 1000;
+
+export const deleteAccount = onCall(
+  {
+    memory: "1GiB",
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new Error("Unauthenticated: User must be logged in");
+    }
+    if ((request.data as {confirm?: string})?.confirm !== "DELETE") {
+      throw new Error("Invalid request: confirm must be \"DELETE\"");
+    }
+
+    logger.info("Account deletion requested:", {uid});
+    const job = await deleteAccountData(
+      uid,
+      Date.now() + ACCOUNT_DELETION_RUN_BUDGET_MS
+    );
+    return {
+      status: job.status,
+      done: job.status === "completed",
+      deletedDocuments: job.deletedDocuments,
+      deletedFiles: job.deletedFiles,
+    };
+  }
+);
+
+// ---------- 10) Fail memos stuck in a dead stage claim (hourly) ----------
+// Leaves a margin before the function timeout; memos left over are picked
+// up by the next run
+const SWEEP_RUN_BUDGET_MS = 60 * 1000;
+
+export const sweepStuckMemos = onSchedule(
+  {
+    schedule: "every 60 minutes",
+    memory: "256MiB",
+    timeoutSeconds: 120,
+  },
+  async () => {
+    const staleFailed = await sweepStaleClaims(
+      Date.now() + SWEEP_RUN_BUDGET_MS
+    );
+    if (staleFailed > 0) {
+      logger.warn("Failed memos stuck in a stage:", {count: staleFailed});
+    }
+  }
+);
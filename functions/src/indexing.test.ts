@@ -0,0 +1,36 @@
+/**
+ * Indexing Tests
+ * Memo metadata denormalized onto chunks for retrieval filters.
+ * Run with: npm test (in functions/)
+ */
+
+import {describe, expect, it} from "vitest";
+import {chunkMetadata, speakerKeys} from "./indexing";
+
+describe("speakerKeys", () => {
+  it("uses lowercase names and falls back to the label", () => {
+    expect(speakerKeys(["1", "2", 3], {"1": " Sam Lee "}))
+      .toEqual(["sam lee", "speaker 2", "speaker 3"]);
+  });
+
+  it("lists each speaker once", () => {
+    expect(speakerKeys(["1", "2"], {"1": "Sam", "2": "sam"})).toEqual(["sam"]);
+    expect(speakerKeys(undefined, {})).toEqual([]);
+  });
+});
+
+describe("chunkMetadata", () => {
+  it("stores the base language for base-language filters", () => {
+    expect(chunkMetadata({language: "es-ES"}).languageBase).toBe("es");
+    expect(chunkMetadata({}).languageBase).toBe("en");
+  });
+
+  it("normalizes tags and keeps only named speakers", () => {
+    const metadata = chunkMetadata({
+      tags: ["#Launch", "launch"],
+      speakerNames: {"1": "Sam", "2": null},
+    });
+    expect(metadata.tags).toEqual(["launch"]);
+    expect(metadata.speakerNames).toEqual({"1": "Sam"});
+  });
+});
@@ -0,0 +1,440 @@
+/**
+ * Chunk indexing for retrieval: splits a memo transcript into chunks,
+ * embeds them and stores one chunk document per chunk and embedding
+ * version. Several versions coexist while a re-embedding backfill runs;
+ * retrieval only reads the active one (see config/embeddings).
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+  chunkTranscript,
+  formatSpeakerText,
+  hashText,
+} from "./chunking";
+import {EmbeddingProvider} from "./embeddings";
+import {
+  DEFAULT_LANGUAGE,
+  baseLanguage,
+  getStopwords,
+  tokenize,
+} from "./language";
+import {retryWithBackoff} from "./retry";
+import {normalizeTags} from "./tags";
+import {TranscriptWord} from "./transcription";
+
+// Version of chunks written before versions were recorded; only
+// gemini-embedding-001 at 1024 dimensions was ever used for them
+export const LEGACY_EMBEDDING_VERSION = "gemini-embedding-001@1024";
+
+export const EMBEDDING_CONFIG_PATH = "config/embeddings";
+
+/**
+ * Which embedding versions retrieval reads (active) and indexing writes
+ * (target). They differ only while a backfill migrates chunks.
+ */
+export interface EmbeddingConfig {
+  activeVersion: string;
+  targetVersion: string;
+}
+
+/**
+ * Memo fields copied onto every chunk so retrieval can filter on them;
+ * edits on the memo are synced by onTranscriptWrite
+ */
+export interface ChunkMetadata {
+  category: string | null;
+  sentiment: string | null;
+  keyPhrases: string[];
+  entities: string[];
+  tags: string[];
+  memoCreatedAt: admin.firestore.Timestamp | null; // Date range filters
+  // Names given to diarized speaker labels, for speaker filters
+  speakerNames: Record<string, string>;
+  languageBase: string; // Base-language filters ("es" matches "es-ES")
+  memoDeleted: boolean; // Retrieval skips chunks of memos in the trash
+}
+
+/**
+ * Result of indexing one memo
+ */
+export interface IndexMemoResult {
+  chunkCount: number;
+  embeddedCount: number; // Chunks stored for the first (target) version
+  reusedCount: number; // Embeddings carried over from unchanged chunks
+  failedCount: number;
+  deletedCount: number; // Stale chunks and chunks of retired versions
+}
+
+/**
+ * Extract key terms from text for hybrid search
+ * Simple TF-IDF-like approach: extract nouns and important words
+ * @param {string} text - The text to extract terms from
+ * @param {number} maxTerms - Maximum number of terms to extract
+ * @param {string} language - Language code used to pick stopwords
+ * @return {string[]} Array of extracted terms
+ */
+export function extractTerms(
+  text: string,
+  maxTerms = 20,
+  language = DEFAULT_LANGUAGE
+): string[] {
+  const stopwords = getStopwords(language);
+
+  // Split into words and filter
+  const words = tokenize(text)
+    .filter((w) => w.length > 3 && !stopwords.has(w));
+
+  // Count frequency
+  const freq = new Map<string, number>();
+  words.forEach((w) => freq.set(w, (freq.get(w) || 0) + 1));
+
+  // Sort by frequency and return top terms
+  return Array.from(freq.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxTerms)
+    .map(([term]) => term);
+}
+
+/**
+ * Read the embedding version config, defaulting both versions to the
+ * deployed provider's version when no migration was ever started
+ * @param {string} defaultVersion - Version of the configured provider
+ * @return {Promise<EmbeddingConfig>} Active and target versions
+ */
+export async function getEmbeddingConfig(
+  defaultVersion: string
+): Promise<EmbeddingConfig> {
+  const snap = await admin.firestore().doc(EMBEDDING_CONFIG_PATH).get();
+  const data = snap.data() || {};
+  const activeVersion =
+    typeof data.activeVersion === "string" && data.activeVersion ?
+      data.activeVersion :
+      defaultVersion;
+  const targetVersion =
+    typeof data.targetVersion === "string" && data.targetVersion ?
+      data.targetVersion :
+      activeVersion;
+  return {activeVersion, targetVersion};
+}
+
+/**
+ * Embedding version of a stored chunk, including pre-versioning chunks
+ * @param {admin.firestore.DocumentData} data - Chunk document data
+ * @return {string} Version id
+ */
+export function chunkVersion(data: admin.firestore.DocumentData): string {
+  return data.embeddingVersion || data.embeddingModel ||
+    LEGACY_EMBEDDING_VERSION;
+}
+
+/**
+ * Whether two version lists hold the same versions
+ * @param {string[]} a - Versions
+ * @param {string[]} b - Versions
+ * @return {boolean} True when equal as sets
+ */
+export function sameVersions(a: string[], b: string[]): boolean {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return setA.size === setB.size && Array.from(setA).every((v) => setB.has(v));
+}
+
+/**
+ * Chunk-level copy of the memo's enrichment fields, tags, creation time,
+ * speaker names, base language and trash state
+ * @param {admin.firestore.DocumentData} memo - Memo document data
+ * @return {ChunkMetadata} Fields to denormalize onto chunks
+ */
+export function chunkMetadata(memo: admin.firestore.DocumentData):
+  ChunkMetadata {
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ?
+      value.filter((v): v is string => typeof v === "string") :
+      [];
+  return {
+    category: typeof memo.category === "string" ? memo.category : null,
+    sentiment: typeof memo.sentiment === "string" ? memo.sentiment : null,
+    keyPhrases: strings(memo.keyPhrases).map((p) => p.toLowerCase()),
+    // Lowercased so filters match regardless of how a name was written
+    entities: strings(memo.entities).map((e) => e.toLowerCase()),
+    // Normalized like chat filter values, which match them exactly
+    tags: normalizeTags(Array.isArray(memo.tags) ? memo.tags : []),
+    memoCreatedAt: memo.createdAt instanceof admin.firestore.Timestamp ?
+      memo.createdAt :
+      null,
+    speakerNames: Object.fromEntries(
+      Object.entries(memo.speakerNames || {}).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string"
+      )
+    ),
+    languageBase: baseLanguage(memo.language),
+    memoDeleted: memo.isDeleted === true,
+  };
+}
+
+/**
+ * Lowercase names of the speakers heard in a chunk, matched exactly by
+ * speaker filters; unnamed speakers are "speaker <label>". Mirrors
+ * chunkSpeakerNames in services/chat-api/src/index.ts, which reads chunks
+ * written before these were stored.
+ * @param {unknown} speakers - Diarized speaker labels heard in the chunk
+ * @param {Record<string, string>} speakerNames - Label -> display name
+ * @return {string[]} Speaker filter keys
+ */
+export function speakerKeys(
+  speakers: unknown,
+  speakerNames: Record<string, string>
+): string[] {
+  const labels = Array.isArray(speakers) ? speakers.map(String) : [];
+  return Array.from(new Set(labels.map((label) => {
+    const name = speakerNames[label]?.trim();
+    return (name || `Speaker ${label}`).toLowerCase();
+  })));
+}
+
+/**
+ * Fingerprint of a memo's chunk metadata, stored on the memo so changes
+ * (e.g. enrichment finishing after the chunks were written) are detected
+ * @param {ChunkMetadata} metadata - Chunk metadata
+ * @return {string} Hash
+ */
+export function hashChunkMetadata(metadata: ChunkMetadata): string {
+  return hashText(JSON.stringify(metadata));
+}
+
+/**
+ * Copy the memo's chunk metadata, and the speaker keys derived from its
+ * speaker names, onto its existing chunks
+ * @param {string} uid - Owner
+ * @param {string} memoId - Memo ID
+ * @param {ChunkMetadata} metadata - Fields to write
+ * @return {Promise<number>} Chunks updated
+ */
+export async function syncChunkMetadata(
+  uid: string,
+  memoId: string,
+  metadata: ChunkMetadata
+): Promise<number> {
+  const db = admin.firestore();
+  const snap = await db.collection("users").doc(uid).collection("chunks")
+    .where("memoId", "==", memoId)
+    .get();
+  for (let start = 0; start < snap.docs.length; start += 400) {
+    const batch = db.batch();
+    snap.docs.slice(start, start + 400)
+      .forEach((doc) => batch.update(doc.ref, {
+        ...metadata,
+        speakerKeys: speakerKeys(doc.data().speakers, metadata.speakerNames),
+      }));
+    await retryWithBackoff(() => batch.commit(), 2, 500);
+  }
+  return snap.size;
+}
+
+/**
+ * Chunk document ID; the version is part of the ID so versions coexist.
+ * Mirrored in services/chat-api/src/documentIds.ts, which reads chunks by ID.
+ * @param {string} memoId - Memo ID
+ * @param {string} version - Embedding version
+ * @param {number} chunkIndex - Chunk position in the memo
+ * @return {string} Document ID
+ */
+export function chunkDocId(
+  memoId: string,
+  version: string,
+  chunkIndex: number
+): string {
+  const versionKey = version.replace(/[^A-Za-z0-9_.-]+/g, "-");
+  return `${memoId}_${versionKey}_${chunkIndex}`;
+}
+
+/**
+ * Chunk, embed and store a memo's transcript for each embedding version.
+ * Unchanged chunks keep their embeddings; chunks that no longer exist and
+ * chunks of versions not listed are deleted.
+ * @param {Object} params - Memo identity, memo data and providers
+ * @return {Promise<IndexMemoResult>} Counts for logging and the memo
+ */
+export async function indexMemoChunks(params: {
+  uid: string;
+  memoId: string;
+  memo: admin.firestore.DocumentData;
+  providers: EmbeddingProvider[];
+  onProgress?: (completed: number, total: number) => void;
+}): Promise<IndexMemoResult> {
+  const {uid, memoId, memo, providers, onProgress} = params;
+  const transcript: string = memo.transcript || "";
+  const userName: string = memo.userName || "Unknown";
+  const language: string = memo.language || DEFAULT_LANGUAGE;
+  const words: TranscriptWord[] = Array.isArray(memo.words) ? memo.words : [];
+  const metadata = chunkMetadata(memo);
+
+  // Chunk transcript on sentence boundaries, keeping word timings
+  const transcriptChunks = chunkTranscript(transcript, words);
+  const chunks = transcriptChunks.map((chunk) => chunk.text);
+  const textHashes = chunks.map((text) => hashText(text));
+  logger.info("Text chunked:", {
+    uid,
+    memoId,
+    chunkCount: chunks.length,
+    timed: transcriptChunks.some((c) => c.startTime !== undefined),
+    versions: providers.map((p) => p.version),
+  });
+
+  // Existing chunks of this memo, so unchanged text keeps its embedding
+  const db = admin.firestore();
+  const chunksColl = db.collection("users").doc(uid).collection("chunks");
+  const existingSnap = await chunksColl.where("memoId", "==", memoId).get();
+  const reusable = new Map<string, Map<string, unknown>>();
+  existingSnap.docs.forEach((doc) => {
+    const data = doc.data();
+    if (!data.embedding || typeof data.text !== "string") return;
+    const version = chunkVersion(data);
+    if (!reusable.has(version)) reusable.set(version, new Map());
+    reusable.get(version)?.set(
+      data.textHash || hashText(data.text),
+      data.embedding
+    );
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const fsAny = admin.firestore as any;
+  const total = chunks.length * providers.length;
+  let completedBefore = 0;
+  let reusedCount = 0;
+  let failedCount = 0;
+  let embeddedCount = 0;
+  const keepIds = new Set<string>();
+  const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+
+  for (const provider of providers) {
+    const cache = reusable.get(provider.version);
+    const embeddings: unknown[] = [];
+    const toEmbed: number[] = [];
+
+    textHashes.forEach((hash, i) => {
+      const cached = cache?.get(hash);
+      if (cached) {
+        embeddings[i] = cached;
+      } else {
+        toEmbed.push(i);
+      }
+    });
+    const reused = chunks.length - toEmbed.length;
+    reusedCount += reused;
+
+    const offset = completedBefore + reused;
+    const vectors = toEmbed.length === 0 ? [] : await provider.embed(
+      toEmbed.map((i) => chunks[i]),
+      "document",
+      (completed) => onProgress?.(offset + completed, total)
+    );
+    completedBefore += chunks.length;
+    onProgress?.(completedBefore, total);
+
+    toEmbed.forEach((chunkIndex, j) => {
+      const values = vectors[j];
+      if (values) {
+        embeddings[chunkIndex] = fsAny.FieldValue.vector(values);
+      } else {
+        logger.warn("Failed to embed chunk:", {
+          uid,
+          memoId,
+          chunkIndex,
+          version: provider.version,
+        });
+        failedCount++;
+      }
+    });
+
+    const stored = embeddings.filter((e) => !!e).length;
+    if (stored === 0 && chunks.length > 0) {
+      throw new Error(
+        `Failed to generate embeddings for any chunks (${provider.version})`
+      );
+    }
+    if (provider === providers[0]) {
+      embeddedCount = stored;
+    }
+
+    chunks.forEach((text, i) => {
+      if (!embeddings[i]) return;
+      const ref = chunksColl.doc(chunkDocId(memoId, provider.version, i));
+      keepIds.add(ref.id);
+
+      // Approximate token count: ~4 characters per token (rough estimate)
+      const tokenCount = Math.ceil(text.length / 4);
+
+      // Extract terms for this chunk for hybrid search
+      const chunkTerms = extractTerms(text, 10, language);
+
+      const chunk = transcriptChunks[i];
+      const speakers = Array.from(new Set(
+        chunk.words
+          .map((w) => w.speaker)
+          .filter((sp): sp is string => !!sp)
+      ));
+
+      writes.push((batch) => batch.set(ref, {
+        uid,
+        memoId,
+        userName,
+        chunkIndex: i,
+        text,
+        textHash: textHashes[i], // Lets re-indexing reuse this embedding
+        embedding: embeddings[i],
+        embeddingVersion: provider.version, // Retrieval filters on this
+        embeddingModel: provider.modelName,
+        embeddingDimensions: provider.dimensions,
+        tokenCount, // For retriever budgeting
+        terms: chunkTerms, // Keywords for hybrid search fallback
+        speakers, // Diarized speaker labels heard in this chunk
+        speakerKeys: speakerKeys(speakers, metadata.speakerNames),
+        speakerText: formatSpeakerText(chunk.words),
+        wordCount: chunk.wordCount,
+        // Audio range in seconds and word range into memo.words;
+        // null when the transcript has no usable word timings
+        startTime: chunk.startTime ?? null,
+        endTime: chunk.endTime ?? null,
+        startWord: chunk.startWord ?? null,
+        endWord: chunk.endWord ?? null,
+        language, // Drives stopwords/tokenization in keyword search
+        // Memo enrichment, tags, creation time, speaker names, base
+        // language and memoDeleted, for retrieval filters
+        ...metadata,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      }));
+    });
+  }
+
+  const orphans = existingSnap.docs.filter((doc) => !keepIds.has(doc.id));
+  orphans.forEach((doc) => writes.push((batch) => batch.delete(doc.ref)));
+
+  // Firestore batches are capped at 500 writes
+  for (let start = 0; start < writes.length; start += 400) {
+    const batch = db.batch();
+    writes.slice(start, start + 400).forEach((write) => write(batch));
+    await retryWithBackoff(
+      () => batch.commit(),
+      2,
+      500
+    );
+  }
+  logger.info("Chunks stored in Firestore:", {
+    uid,
+    memoId,
+    embeddedCount,
+    reusedCount,
+    failedCount,
+    deletedOrphans: orphans.length,
+  });
+
+  return {
+    chunkCount: chunks.length,
+    embeddedCount,
+    reusedCount,
+    failedCount,
+    deletedCount: orphans.length,
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Per-user inverted index for BM25 keyword retrieval in the chat API.
+ * A memo's transcript is chunked exactly like the embedded chunks and each
+ * chunk's terms (see keywordTerms) are stored as one posting document per
+ * memo and term:
+ *
+ *   users/{uid}/keywordPostings/{memoId}_{termKey}
+ *     {term, memoId, chunks: {[chunkIndex]: {tf, length}}, chunkCount, maxTf}
+ *   users/{uid}/keywordMemos/{memoId}
+ *     {memoId, terms, chunkCount, totalLength}
+ *
+ * Corpus statistics are aggregated at query time: the number of chunks and
+ * their total length are sums over keywordMemos, a term's document
+ * frequency is the sum of chunkCount over its postings. Nothing is kept as
+ * a running counter, so re-running an update is always safe.
+ * Memos in the trash are left out of the index.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {chunkTranscript, hashText} from "./chunking";
+import {DEFAULT_LANGUAGE, keywordTerms} from "./language";
+import {retryWithBackoff} from "./retry";
+import {TranscriptWord} from "./transcription";
+
+// Bump when the posting format or term extraction changes so every memo is
+// re-indexed on its next write or backfill
+const KEYWORD_INDEX_VERSION = 1;
+
+/**
+ * Term frequency and length (in terms) of one chunk
+ */
+export interface ChunkPosting {
+  tf: number;
+  length: number;
+}
+
+/**
+ * Result of updating one memo in the index
+ */
+export interface KeywordIndexResult {
+  termCount: number; // Posting documents written
+  chunkCount: number;
+  removedTerms: number; // Postings of terms the memo no longer has
+}
+
+/**
+ * Posting document ID; terms are hashed because any letter may appear.
+ * Mirrored in services/chat-api/src/documentIds.ts, which reads postings.
+ * @param {string} memoId - Memo ID
+ * @param {string} term - Indexed term
+ * @return {string} Document ID
+ */
+export function postingDocId(memoId: string, term: string): string {
+  return `${memoId}_${hashText(term).substring(0, 16)}`;
+}
+
+/**
+ * Fingerprint of what the index holds for a memo; stored on the memo as
+ * keywordIndexHash so unchanged memos are skipped
+ * @param {string} transcriptHash - hashTranscript of the memo
+ * @param {boolean} deleted - Whether the memo is in the trash
+ * @return {string} Hash
+ */
+export function keywordIndexHash(
+  transcriptHash: string,
+  deleted: boolean
+): string {
+  return hashText(
+    `${KEYWORD_INDEX_VERSION}:${transcriptHash}:${deleted ? 1 : 0}`
+  );
+}
+
+/**
+ * Build a memo's postings from its transcript
+ * @param {string} transcript - Memo transcript
+ * @param {TranscriptWord[]} words - Word timings used by chunking
+ * @param {string} language - Memo language, picks stopwords
+ * @return {Object} Postings by term and the term count of every chunk
+ */
+export function buildPostings(
+  transcript: string,
+  words: TranscriptWord[],
+  language: string
+): {postings: Map<string, Record<string, ChunkPosting>>; lengths: number[]} {
+  const postings = new Map<string, Record<string, ChunkPosting>>();
+  const lengths: number[] = [];
+
+  chunkTranscript(transcript, words).forEach((chunk, chunkIndex) => {
+    const terms = keywordTerms(chunk.text, language);
+    lengths.push(terms.length);
+
+    const counts = new Map<string, number>();
+    terms.forEach((term) => counts.set(term, (counts.get(term) || 0) + 1));
+    counts.forEach((tf, term) => {
+      const chunks = postings.get(term) || {};
+      chunks[String(chunkIndex)] = {tf, length: terms.length};
+      postings.set(term, chunks);
+    });
+  });
+
+  return {postings, lengths};
+}
+
+/**
+ * Commit writes in batches below Firestore's 500 write cap
+ * @param {Function[]} writes - Writes to add to a batch
+ * @return {Promise<void>}
+ */
+async function commitInBatches(
+  writes: Array<(batch: admin.firestore.WriteBatch) => void>
+): Promise<void> {
+  const db = admin.firestore();
+  for (let start = 0; start < writes.length; start += 400) {
+    const batch = db.batch();
+    writes.slice(start, start + 400).forEach((write) => write(batch));
+    await retryWithBackoff(() => batch.commit(), 2, 500);
+  }
+}
+
+/**
+ * Bring a memo's postings in line with its transcript, or remove them when
+ * the memo is in the trash
+ * @param {Object} params - Memo identity and data
+ * @return {Promise<KeywordIndexResult>} Counts for logging
+ */
+export async function updateKeywordIndex(params: {
+  uid: string;
+  memoId: string;
+  memo: admin.firestore.DocumentData;
+}): Promise<KeywordIndexResult> {
+  const {uid, memoId, memo} = params;
+  const db = admin.firestore();
+  const userRef = db.collection("users").doc(uid);
+  const memoIndexRef = userRef.collection("keywordMemos").doc(memoId);
+  const postingsColl = userRef.collection("keywordPostings");
+
+  const previous = (await memoIndexRef.get()).data();
+  const previousTerms: string[] = Array.isArray(previous?.terms) ?
+    previous.terms : [];
+
+  const transcript: string = memo.transcript || "";
+  const indexed = memo.isDeleted !== true && transcript.length > 0;
+  const {postings, lengths} = indexed ?
+    buildPostings(
+      transcript,
+      Array.isArray(memo.words) ? memo.words : [],
+      memo.language || DEFAULT_LANGUAGE
+    ) :
+    {postings: new Map<string, Record<string, ChunkPosting>>(), lengths: []};
+  const terms = Array.from(postings.keys());
+  const removed = previousTerms.filter((term) => !postings.has(term));
+
+  // Record every term that may get a posting before writing any, so a
+  // failed run still knows what to clean up when it is retried
+  if (terms.length > 0) {
+    await memoIndexRef.set({
+      memoId,
+      terms: Array.from(new Set([...previousTerms, ...terms])),
+    }, {merge: true});
+  }
+
+  const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+  postings.forEach((chunks, term) => {
+    const counts = Object.values(chunks);
+    writes.push((batch) => batch.set(
+      postingsColl.doc(postingDocId(memoId, term)),
+      {
+        term,
+        memoId,
+        chunks,
+        chunkCount: counts.length, // Adds up to the term's document frequency
+        maxTf: Math.max(...counts.map((c) => c.tf)), // Query order
+      }
+    ));
+  });
+  removed.forEach((term) => writes.push((batch) =>
+    batch.delete(postingsColl.doc(postingDocId(memoId, term)))));
+  await commitInBatches(writes);
+
+  if (terms.length > 0) {
+    await memoIndexRef.set({
+      memoId,
+      terms,
+      chunkCount: lengths.length,
+      totalLength: lengths.reduce((sum, length) => sum + length, 0),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } else if (previous) {
+    await memoIndexRef.delete();
+  }
+
+  logger.info("Keyword index updated:", {
+    uid,
+    memoId,
+    termCount: terms.length,
+    chunkCount: lengths.length,
+    removedTerms: removed.length,
+  });
+  return {
+    termCount: terms.length,
+    chunkCount: lengths.length,
+    removedTerms: removed.length,
+  };
+}
+
+/**
+ * Remove a memo from the index (used when the memo itself is deleted)
+ * @param {string} uid - Owner
+ * @param {string} memoId - Memo ID
+ * @return {Promise<KeywordIndexResult>} Counts for logging
+ */
+export function removeFromKeywordIndex(
+  uid: string,
+  memoId: string
+): Promise<KeywordIndexResult> {
+  return updateKeywordIndex({uid, memoId, memo: {isDeleted: true}});
+}
@@ -0,0 +1,144 @@
+/**
+ * Language helpers for multilingual transcripts: language code handling,
+ * Unicode-aware tokenization and per-language stopwords.
+ * Mirrored in services/chat-api/src/language.ts so indexing and querying
+ * tokenize text the same way; services/chat-api/src/mirrors.test.ts fails
+ * when the copies differ.
+ */
+
+export const DEFAULT_LANGUAGE = "en-US";
+
+// Speech-to-Text accepts at most this many candidate languages per request
+export const MAX_CANDIDATE_LANGUAGES = 3;
+
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set([
+    "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
+    "of", "with", "by", "from", "is", "are", "was", "were", "be", "been",
+    "being", "have", "has", "had", "do", "does", "did", "will", "would",
+    "could", "should", "may", "might", "must", "can", "this", "that",
+    "these", "those", "i", "you", "he", "she", "it", "we", "they", "what",
+    "which", "who", "when", "where", "how", "about", "there", "their",
+    "then", "than", "them", "just", "also", "into", "some", "like", "yeah",
+    "okay", "really", "very", "much", "more", "your", "our", "my",
+  ]),
+  es: new Set([
+    "el", "la", "los", "las", "un", "una", "unos", "unas", "y", "o", "pero",
+    "en", "de", "del", "al", "a", "con", "por", "para", "sin", "sobre",
+    "es", "son", "era", "eran", "fue", "ser", "estar", "está", "están",
+    "estaba", "ha", "han", "había", "hay", "que", "qué", "como", "cómo",
+    "cuando", "donde", "dónde", "quien", "quién", "este", "esta", "estos",
+    "estas", "ese", "esa", "esos", "esas", "yo", "tú", "él", "ella",
+    "nosotros", "ellos", "ellas", "se", "lo", "le", "les", "me", "te",
+    "nos", "su", "sus", "mi", "mis", "muy", "más", "también", "porque",
+    "pues", "bueno", "entonces", "todo", "todos", "algo", "nada", "sí",
+  ]),
+  de: new Set([
+    "der", "die", "das", "den", "dem", "des", "ein", "eine", "einen",
+    "einem", "einer", "eines", "und", "oder", "aber", "in", "im", "an",
+    "am", "auf", "aus", "bei", "mit", "nach", "von", "vom", "zu", "zum",
+    "zur", "für", "über", "unter", "ist", "sind", "war", "waren", "sein",
+    "hat", "haben", "hatte", "wird", "werden", "wurde", "kann", "können",
+    "muss", "soll", "ich", "du", "er", "sie", "es", "wir", "ihr", "man",
+    "sich", "mich", "mir", "dich", "dir", "uns", "euch", "nicht", "auch",
+    "noch", "schon", "nur", "sehr", "mehr", "dass", "wenn", "weil", "als",
+    "wie", "was", "wer", "wo", "dann", "also", "doch", "halt", "eben", "ja",
+    "diese", "dieser", "dieses", "mein", "dein", "unser",
+  ]),
+  fr: new Set([
+    "le", "la", "les", "un", "une", "des", "du", "de", "et", "ou", "mais",
+    "dans", "en", "à", "au", "aux", "avec", "par", "pour", "sur", "sans",
+    "est", "sont", "était", "être", "avoir", "a", "ont", "avait", "que",
+    "qui", "quoi", "comme", "quand", "où", "ce", "cet", "cette", "ces",
+    "je", "tu", "il", "elle", "nous", "vous", "ils", "elles", "on", "se",
+    "ne", "pas", "plus", "très", "aussi", "donc", "alors", "mon", "ton",
+    "son", "notre", "votre", "leur", "tout", "tous", "bien", "oui",
+  ]),
+};
+
+const TOKEN_SEPARATOR = /[^\p{L}\p{N}]+/u;
+
+/**
+ * Base language of a BCP-47 code, e.g. "es-ES" -> "es"
+ * @param {string | undefined} code - Language code
+ * @return {string} Lowercase base language
+ */
+export function baseLanguage(code: string | undefined): string {
+  return (code || DEFAULT_LANGUAGE).split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Normalize a language code to BCP-47 casing, e.g. "en-us" -> "en-US"
+ * @param {string} code - Language code as returned by STT or set by users
+ * @return {string} Normalized language code
+ */
+export function normalizeLanguageCode(code: string): string {
+  const [lang, region] = code.trim().split(/[-_]/);
+  if (!lang) return DEFAULT_LANGUAGE;
+  return region ?
+    `${lang.toLowerCase()}-${region.toUpperCase()}` :
+    lang.toLowerCase();
+}
+
+/**
+ * Stopwords for a language, falling back to English for unknown languages
+ * @param {string | undefined} language - Language code
+ * @return {Set<string>} Stopword set
+ */
+export function getStopwords(language: string | undefined): Set<string> {
+  return STOPWORDS[baseLanguage(language)] || STOPWORDS.en;
+}
+
+/**
+ * Split text into lowercase word tokens. Unlike /\W+/ this keeps accented
+ * and non-Latin letters (ñ, ü, ß, ...) inside words.
+ * @param {string} text - Text to tokenize
+ * @return {string[]} Tokens in order
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFC")
+    .split(TOKEN_SEPARATOR)
+    .filter((t) => t.length > 0);
+}
+
+/**
+ * Terms for keyword (BM25) search: tokens without stopwords or single
+ * characters. The index and queries must use the same terms.
+ * @param {string} text - Chunk text or a search query
+ * @param {string | undefined} language - Language code picking stopwords
+ * @return {string[]} Terms in order, repeats kept
+ */
+export function keywordTerms(
+  text: string,
+  language: string | undefined
+): string[] {
+  const stopwords = getStopwords(language);
+  return tokenize(text).filter((t) => t.length > 1 && !stopwords.has(t));
+}
+
+/**
+ * Guess the language of a short text by counting stopword hits
+ * @param {string} text - Text to inspect (e.g. a chat question)
+ * @param {string[]} candidates - Base languages to choose from
+ * @return {string} Best matching base language
+ */
+export function detectLanguage(
+  text: string,
+  candidates: string[] = Object.keys(STOPWORDS)
+): string {
+  const tokens = tokenize(text);
+  let best = "en";
+  let bestHits = 0;
+  for (const lang of candidates) {
+    const stopwords = STOPWORDS[baseLanguage(lang)];
+    if (!stopwords) continue;
+    const hits = tokens.filter((t) => stopwords.has(t)).length;
+    if (hits > bestHits) {
+      best = baseLanguage(lang);
+      bestHits = hits;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,100 @@
+/**
+ * Pipeline Tests
+ * The memo status state machine and stale stage claims.
+ * Run with: npm test (in functions/)
+ */
+
+import {describe, expect, it} from "vitest";
+import {
+  STAGE_CLAIM_TTL_MS,
+  canTransition,
+  classifyError,
+  embeddingProgress,
+  isStaleClaim,
+} from "./pipeline";
+
+describe("canTransition", () => {
+  it("walks the pipeline forward one stage at a time", () => {
+    expect(canTransition("pending", "transcribing")).toBe(true);
+    expect(canTransition("transcribing", "transcribed")).toBe(true);
+    expect(canTransition("transcribed", "embedding")).toBe(true);
+    expect(canTransition("embedding", "indexed")).toBe(true);
+
+    expect(canTransition("pending", "indexed")).toBe(false);
+    expect(canTransition("transcribing", "embedding")).toBe(false);
+    expect(canTransition("transcribed", "indexed")).toBe(false);
+  });
+
+  it("lets every active stage fail", () => {
+    for (const from of [
+      "pending",
+      "transcribing",
+      "transcribed",
+      "embedding",
+    ] as const) {
+      expect(canTransition(from, "error")).toBe(true);
+    }
+    expect(canTransition("indexed", "error")).toBe(false);
+  });
+
+  it("lets failed and indexed memos re-enter the pipeline", () => {
+    expect(canTransition("error", "transcribing")).toBe(true);
+    expect(canTransition("error", "embedding")).toBe(true);
+    expect(canTransition("indexed", "embedding")).toBe(true);
+    expect(canTransition("error", "indexed")).toBe(false);
+  });
+
+  it("allows re-claiming only the claimed stages", () => {
+    expect(canTransition("transcribing", "transcribing")).toBe(true);
+    expect(canTransition("embedding", "embedding")).toBe(true);
+    expect(canTransition("transcribed", "transcribed")).toBe(false);
+    expect(canTransition("indexed", "indexed")).toBe(false);
+  });
+});
+
+describe("isStaleClaim", () => {
+  const now = 1_700_000_000_000;
+
+  it("keeps a fresh claim", () => {
+    expect(isStaleClaim("transcribing", now - 60_000, now)).toBe(false);
+    expect(isStaleClaim("embedding", now - STAGE_CLAIM_TTL_MS + 1, now))
+      .toBe(false);
+  });
+
+  it("expires a claim after the TTL", () => {
+    expect(isStaleClaim("transcribing", now - STAGE_CLAIM_TTL_MS, now))
+      .toBe(true);
+    expect(isStaleClaim("embedding", now - 2 * STAGE_CLAIM_TTL_MS, now))
+      .toBe(true);
+  });
+
+  it("treats an untimed claim as stale", () => {
+    expect(isStaleClaim("embedding", undefined, now)).toBe(true);
+  });
+
+  it("never expires statuses that are not claims", () => {
+    expect(isStaleClaim("transcribed", undefined, now)).toBe(false);
+    expect(isStaleClaim("indexed", 0, now)).toBe(false);
+    expect(isStaleClaim("error", 0, now)).toBe(false);
+  });
+});
+
+describe("embeddingProgress", () => {
+  it("fills the span between transcribed and indexed", () => {
+    expect(embeddingProgress(0, 10)).toBe(50);
+    expect(embeddingProgress(5, 10)).toBe(73);
+    expect(embeddingProgress(10, 10)).toBe(95);
+    expect(embeddingProgress(12, 10)).toBe(95);
+    expect(embeddingProgress(0, 0)).toBe(50);
+  });
+});
+
+describe("classifyError", () => {
+  it("maps failure messages to categories", () => {
+    expect(classifyError("Stage timeout: embedding did not finish"))
+      .toBe("TIMEOUT");
+    expect(classifyError("File too large")).toBe("INVALID_FILE_SIZE");
+    expect(classifyError("rate limit reached")).toBe("QUOTA_EXCEEDED");
+    expect(classifyError("something else")).toBe("UNKNOWN");
+  });
+});
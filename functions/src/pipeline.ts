@@ -0,0 +1,324 @@
+/**
+ * Memo processing state machine:
+ *
+ *   pending -> transcribing -> transcribed -> embedding -> indexed
+ *
+ * Any active state may fail into "error"; a failed or indexed memo may
+ * re-enter the pipeline. Transitions run in a transaction so duplicate
+ * trigger deliveries cannot process the same memo twice. Each transition
+ * stamps the stage time and progress under `pipeline` on the memo.
+ *
+ * "transcribing" and "embedding" are claims held by the run doing the work.
+ * A run that times out or crashes never releases its claim, so a claim
+ * older than STAGE_CLAIM_TTL_MS may be taken over by another run, and
+ * sweepStaleClaims fails memos nobody picked up again.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+
+export type MemoStatus =
+  | "pending"
+  | "transcribing"
+  | "transcribed"
+  | "embedding"
+  | "indexed"
+  | "error";
+
+// Stages that do work and can fail
+export type PipelineStage = "transcription" | "embedding";
+
+// Self-transitions re-claim a stage; transitionMemo only allows them once
+// the previous claim is stale
+const TRANSITIONS: Record<MemoStatus, MemoStatus[]> = {
+  pending: ["transcribing", "error"],
+  transcribing: ["transcribing", "transcribed", "error"],
+  transcribed: ["embedding", "error"],
+  embedding: ["embedding", "indexed", "error"],
+  indexed: ["transcribing", "embedding"],
+  error: ["transcribing", "embedding"],
+};
+
+// Overall progress when each status is reached; embedding fills the gap
+// between "transcribed" and "indexed" chunk by chunk
+const STATUS_PROGRESS: Record<Exclude<MemoStatus, "error">, number> = {
+  pending: 0,
+  transcribing: 10,
+  transcribed: 50,
+  embedding: 50,
+  indexed: 100,
+};
+
+const EMBEDDING_PROGRESS_SPAN = 45;
+
+// A stage claim older than this belongs to a run that is gone: functions
+// time out after 9 minutes
+export const STAGE_CLAIM_TTL_MS = 10 * 60 * 1000;
+
+const CLAIMED_STAGES: MemoStatus[] = ["transcribing", "embedding"];
+const SWEEP_PAGE_SIZE = 100;
+
+/**
+ * Whether a memo may move from one status to another
+ * @param {MemoStatus} from - Current status
+ * @param {MemoStatus} to - Requested status
+ * @return {boolean} True when the transition is allowed
+ */
+export function canTransition(from: MemoStatus, to: MemoStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Whether a memo sits in a claimed stage whose run is presumed dead
+ * @param {MemoStatus} status - Current status
+ * @param {number|undefined} stageStartedAt - When the stage was claimed
+ *   (ms); claims from before stages were timed count as stale
+ * @param {number} now - Current time (ms)
+ * @return {boolean} True when another run may re-claim the stage
+ */
+export function isStaleClaim(
+  status: MemoStatus,
+  stageStartedAt: number | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!CLAIMED_STAGES.includes(status)) return false;
+  return stageStartedAt === undefined ||
+    now - stageStartedAt >= STAGE_CLAIM_TTL_MS;
+}
+
+/**
+ * When the memo's current stage was claimed
+ * @param {Object|undefined} memo - Memo document data
+ * @return {number|undefined} Milliseconds, when recorded
+ */
+export function stageStartedAtMillis(
+  memo: admin.firestore.DocumentData | undefined
+): number | undefined {
+  return memo?.pipeline?.stageStartedAt?.toMillis?.();
+}
+
+/**
+ * Progress percentage while embedding
+ * @param {number} embedded - Chunks embedded so far
+ * @param {number} total - Chunks to embed
+ * @return {number} Progress between 50 and 95
+ */
+export function embeddingProgress(embedded: number, total: number): number {
+  if (total <= 0) return STATUS_PROGRESS.embedding;
+  const fraction = Math.min(1, embedded / total);
+  return Math.round(
+    STATUS_PROGRESS.embedding + fraction * EMBEDDING_PROGRESS_SPAN
+  );
+}
+
+/**
+ * Move a memo to a new status if the state machine allows it
+ * @param {admin.firestore.DocumentReference} ref - Memo document
+ * @param {MemoStatus} to - Target status (use failMemo for "error")
+ * @param {Object} data - Extra memo fields written with the transition
+ * @param {Object} pipeline - Extra `pipeline` fields (e.g. totalChunks)
+ * @return {Promise<boolean>} False when the transition was rejected
+ */
+export async function transitionMemo(
+  ref: admin.firestore.DocumentReference,
+  to: Exclude<MemoStatus, "error">,
+  data: Record<string, unknown> = {},
+  pipeline: Record<string, unknown> = {}
+): Promise<boolean> {
+  return admin.firestore().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const from: MemoStatus = snap.data()?.status || "pending";
+    const startedAt = stageStartedAtMillis(snap.data());
+
+    if (
+      !canTransition(from, to) ||
+      (from === to && !isStaleClaim(from, startedAt))
+    ) {
+      logger.warn("Rejected memo status transition", {
+        path: ref.path,
+        from,
+        to,
+      });
+      return false;
+    }
+    if (from === to) {
+      logger.warn("Re-claiming stale memo stage", {
+        path: ref.path,
+        stage: to,
+        stageStartedAt: startedAt ?? null,
+      });
+    }
+
+    tx.set(
+      ref,
+      {
+        ...data,
+        status: to,
+        indexed: to === "indexed", // Legacy flag mirrored from status
+        pipeline: {
+          ...pipeline,
+          stage: to,
+          progress: STATUS_PROGRESS[to],
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          stageStartedAt: admin.firestore.FieldValue.serverTimestamp(),
+          stageTimes: {
+            [to]: admin.firestore.FieldValue.serverTimestamp(),
+          },
+        },
+      },
+      {merge: true}
+    );
+    return true;
+  });
+}
+
+/**
+ * Record embedding progress without changing the status
+ * @param {admin.firestore.DocumentReference} ref - Memo document
+ * @param {number} embedded - Chunks embedded so far
+ * @param {number} total - Chunks to embed
+ * @return {Promise<void>}
+ */
+export async function reportEmbeddingProgress(
+  ref: admin.firestore.DocumentReference,
+  embedded: number,
+  total: number
+): Promise<void> {
+  try {
+    await ref.update({
+      "pipeline.embeddedChunks": embedded,
+      "pipeline.totalChunks": total,
+      "pipeline.progress": embeddingProgress(embedded, total),
+      "pipeline.updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    // Progress is informational; never fail the stage over it
+    logger.warn("Failed to report embedding progress", {
+      path: ref.path,
+      error,
+    });
+  }
+}
+
+/**
+ * Classify an error for user-facing feedback
+ * @param {string} message - Error message
+ * @return {string} Error category
+ */
+export function classifyError(message: string): string {
+  if (message.includes("timeout")) {
+    return "TIMEOUT";
+  } else if (message.includes("too small") || message.includes("too large")) {
+    return "INVALID_FILE_SIZE";
+  } else if (message.includes("too long")) {
+    return "INVALID_DURATION";
+  } else if (message.includes("content type")) {
+    return "INVALID_CONTENT_TYPE";
+  } else if (message.includes("permission") || message.includes("denied")) {
+    return "PERMISSION_ERROR";
+  } else if (message.includes("quota") || message.includes("rate limit")) {
+    return "QUOTA_EXCEEDED";
+  } else if (message.includes("network") || message.includes("connection")) {
+    return "NETWORK_ERROR";
+  }
+  return "UNKNOWN";
+}
+
+/**
+ * Move a memo to "error", recording which stage failed and why
+ * @param {admin.firestore.DocumentReference} ref - Memo document
+ * @param {PipelineStage} stage - Stage that failed
+ * @param {unknown} error - The failure
+ * @param {Object} data - Extra memo fields written with the failure
+ * @return {Promise<void>}
+ */
+export async function failMemo(
+  ref: admin.firestore.DocumentReference,
+  stage: PipelineStage,
+  error: unknown,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const errorDetails = error instanceof Error ?
+    error.stack?.substring(0, 500) :
+    undefined;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const errorType = (error as any)?.constructor?.name || "UnknownError";
+  const errorCategory = classifyError(errorMessage);
+  const stageError = {
+    message: errorMessage,
+    type: errorType,
+    category: errorCategory,
+    details: errorDetails || null,
+    at: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  try {
+    await ref.set(
+      {
+        ...data,
+        status: "error",
+        indexed: false,
+        // Flat fields kept for existing clients
+        errorMessage,
+        errorType,
+        errorCategory,
+        errorDetails: errorDetails || null,
+        errorStage: stage,
+        errorAt: admin.firestore.FieldValue.serverTimestamp(),
+        pipeline: {
+          stage: "error",
+          failedStage: stage,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          stageTimes: {error: admin.firestore.FieldValue.serverTimestamp()},
+          errors: {[stage]: stageError},
+        },
+      },
+      {merge: true}
+    );
+  } catch (updateError) {
+    logger.error("Failed to update error status:", updateError);
+  }
+}
+
+/**
+ * Fail memos whose stage claim expired without another run taking it over,
+ * so they show a timeout instead of spinning forever. A timed-out embedding
+ * is retried by onTranscriptWrite when the error is written.
+ * @param {number} deadline - Stop starting new pages after this time (ms)
+ * @return {Promise<number>} Memos failed
+ */
+export async function sweepStaleClaims(deadline: number): Promise<number> {
+  const cutoff = admin.firestore.Timestamp.fromMillis(
+    Date.now() - STAGE_CLAIM_TTL_MS
+  );
+  let failed = 0;
+
+  while (Date.now() < deadline) {
+    const snap = await admin.firestore().collectionGroup("memos")
+      .where("status", "in", CLAIMED_STAGES)
+      .where("pipeline.stageStartedAt", "<=", cutoff)
+      .orderBy("pipeline.stageStartedAt")
+      .limit(SWEEP_PAGE_SIZE)
+      .get();
+    if (snap.empty) break;
+
+    for (const doc of snap.docs) {
+      const stage: PipelineStage = doc.data().status === "embedding" ?
+        "embedding" :
+        "transcription";
+      const minutes = Math.round(STAGE_CLAIM_TTL_MS / 60000);
+      await failMemo(
+        doc.ref,
+        stage,
+        new Error(`Stage timeout: ${stage} did not finish in ${minutes} min`),
+        stage === "embedding" ?
+          {failedTranscriptHash: admin.firestore.FieldValue.delete()} :
+          {}
+      );
+      failed++;
+    }
+    if (snap.size < SWEEP_PAGE_SIZE) break;
+  }
+  return failed;
+}
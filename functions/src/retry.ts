@@ -0,0 +1,78 @@
+/**
+ * Retry helpers shared by the Cloud Functions: exponential backoff with
+ * jitter for transient network, timeout and server errors.
+ */
+
+import * as logger from "firebase-functions/logger";
+
+/**
+ * Helper: Retry with exponential backoff and jitter
+ * @param {Function} fn - The async function to retry
+ * @param {number} maxAttempts - Maximum number of attempts
+ * @param {number} initialDelayMs - Initial delay in milliseconds
+ * @return {Promise<T>} The result of the function
+ */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  maxAttempts = 3,
+  initialDelayMs = 1000
+): Promise<T> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // Check if error is retryable
+      const isRetryable = isRetryableError(lastError);
+      if (!isRetryable) {
+        throw lastError;
+      }
+
+      if (attempt < maxAttempts - 1) {
+        const delayMs = calculateBackoffDelay(attempt, initialDelayMs);
+        const msg = `Attempt ${attempt + 1} failed, retrying in ${delayMs}ms:`;
+        logger.warn(msg, lastError.message);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  throw lastError || new Error("Max retries exceeded");
+}
+
+/**
+ * Determine if an error is retryable
+ * @param {Error} error - The error to check
+ * @return {boolean} True if error should be retried
+ */
+function isRetryableError(error: Error): boolean {
+  const msg = error.message.toLowerCase();
+  // Don't retry validation errors
+  if (msg.includes("invalid") || msg.includes("too small") ||
+      msg.includes("too large")) {
+    return false;
+  }
+  // Retry network, timeout, and server errors
+  return msg.includes("network") || msg.includes("timeout") ||
+         msg.includes("500") || msg.includes("503") ||
+         msg.includes("unavailable");
+}
+
+/**
+ * Calculate exponential backoff delay with jitter
+ * @param {number} attempt - Current attempt number
+ * @param {number} initialDelayMs - Initial delay in milliseconds
+ * @return {number} Delay in milliseconds
+ */
+function calculateBackoffDelay(
+  attempt: number,
+  initialDelayMs: number
+): number {
+  const exponentialDelay = initialDelayMs * Math.pow(2, attempt);
+  const cappedDelay = Math.min(exponentialDelay, 30000); // Max 30 seconds
+  const jitter = cappedDelay * 0.1 * Math.random();
+  return Math.round(cappedDelay + jitter);
+}
@@ -0,0 +1,69 @@
+/**
+ * Tag Tests
+ * Tag normalization and suggestions from enrichment output.
+ * Run with: npm test (in functions/)
+ */
+
+import {describe, expect, it} from "vitest";
+import {MAX_TAGS, normalizeTag, normalizeTags, suggestTags} from "./tags";
+
+describe("normalizeTag", () => {
+  it("lowercases, drops the hash and joins words with dashes", () => {
+    expect(normalizeTag("#Product Launch")).toBe("product-launch");
+    expect(normalizeTag("  Q3 / planning  ")).toBe("q3-planning");
+    expect(normalizeTag("##roadmap")).toBe("roadmap");
+  });
+
+  it("keeps letters from any script", () => {
+    expect(normalizeTag("Café Besuch")).toBe("café-besuch");
+    expect(normalizeTag("東京 出張")).toBe("東京-出張");
+  });
+
+  it("caps the length without a trailing dash", () => {
+    // The 30th character is a dash
+    expect(normalizeTag("a very long tag that goes pas thirty"))
+      .toBe("a-very-long-tag-that-goes-pas");
+  });
+
+  it("returns an empty tag when nothing usable remains", () => {
+    expect(normalizeTag("#!?")).toBe("");
+  });
+});
+
+describe("normalizeTags", () => {
+  it("drops non-strings, duplicates and single characters", () => {
+    expect(normalizeTags(["Launch", "launch", 7, "x", "#Budget"]))
+      .toEqual(["launch", "budget"]);
+  });
+
+  it("keeps at most the maximum number of tags", () => {
+    const tags = Array.from({length: MAX_TAGS + 5}, (_, i) => `tag ${i}`);
+    expect(normalizeTags(tags)).toHaveLength(MAX_TAGS);
+  });
+});
+
+describe("suggestTags", () => {
+  it("suggests the category, then phrases, entities and terms", () => {
+    const tags = suggestTags(
+      {
+        category: "meeting",
+        keyPhrases: ["Pricing Model", "launch date", "hiring", "extra"],
+        entities: ["Acme Corp"],
+      },
+      ["budget"]
+    );
+    expect(tags).toEqual([
+      "meeting",
+      "pricing-model",
+      "launch-date",
+      "hiring",
+      "acme-corp",
+    ]);
+  });
+
+  it("skips the catch-all category", () => {
+    expect(suggestTags({category: "note", keyPhrases: [], entities: []}, [
+      "groceries",
+    ])).toEqual(["groceries"]);
+  });
+});
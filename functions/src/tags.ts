@@ -0,0 +1,62 @@
+/**
+ * Memo tags: normalization and automatic suggestions from the transcript
+ * terms and enrichment output. Tags are lowercase slugs such as
+ * "product-launch"; the web app and chat API apply the same rules.
+ */
+
+import {MemoEnrichment} from "./enrichment";
+
+// Firestore rules reject memos with more than 20 tags
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 30;
+const MAX_SUGGESTED_TAGS = 5;
+
+/**
+ * Normalize a tag: lowercase, no leading "#", words joined by "-"
+ * @param {string} tag - Raw tag
+ * @return {string} Normalized tag, or "" when nothing usable remains
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, MAX_TAG_LENGTH)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Normalize, de-duplicate and cap a list of tags
+ * @param {unknown[]} tags - Raw tags
+ * @return {string[]} Clean tags in their original order
+ */
+export function normalizeTags(tags: unknown[]): string[] {
+  const clean = tags
+    .filter((t): t is string => typeof t === "string")
+    .map(normalizeTag)
+    .filter((t) => t.length > 1);
+  return Array.from(new Set(clean)).slice(0, MAX_TAGS);
+}
+
+/**
+ * Suggest tags for a memo: its category, then the strongest key phrases,
+ * entities and transcript terms
+ * @param {MemoEnrichment} enrichment - Enrichment output
+ * @param {string[]} terms - Memo-level keywords (memo.terms)
+ * @return {string[]} Up to five normalized tags
+ */
+export function suggestTags(
+  enrichment: Pick<MemoEnrichment, "category" | "keyPhrases" | "entities">,
+  terms: string[] = []
+): string[] {
+  const candidates = [
+    // "note" is the catch-all category and says nothing about the memo
+    ...(enrichment.category !== "note" ? [enrichment.category] : []),
+    ...enrichment.keyPhrases.slice(0, 3),
+    ...enrichment.entities.slice(0, 2),
+    ...terms.slice(0, 3),
+  ];
+  return normalizeTags(candidates).slice(0, MAX_SUGGESTED_TAGS);
+}
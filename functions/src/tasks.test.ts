@@ -0,0 +1,198 @@
+/**
+ * Task Tests
+ * Due date parsing, locating tasks in the transcript and syncing a memo's
+ * action items with its task documents (against an in-memory Firestore).
+ * Run with: npm test (in functions/)
+ */
+
+import {beforeEach, describe, expect, it, vi} from "vitest";
+import {locateTask, parseDueDate, syncMemoTasks} from "./tasks";
+
+type Data = Record<string, unknown>;
+
+const firestore = vi.hoisted(() => {
+  const state = {
+    existing: [] as Array<{id: string; data: Data}>,
+    written: new Map<string, Data>(),
+    deleted: [] as string[],
+  };
+  const tasks = {
+    where: () => ({
+      get: async () => ({
+        docs: state.existing.map(({id, data}) => ({
+          id,
+          ref: {id},
+          data: () => data,
+        })),
+      }),
+    }),
+    doc: (id: string) => ({id}),
+  };
+  const db = {
+    collection: () => ({doc: () => ({collection: () => tasks})}),
+    batch: () => ({
+      set: (ref: {id: string}, data: Data) => state.written.set(ref.id, data),
+      delete: (ref: {id: string}) => state.deleted.push(ref.id),
+      commit: async () => undefined,
+    }),
+  };
+  return {state, db};
+});
+
+vi.mock("firebase-admin", () => ({
+  firestore: Object.assign(() => firestore.db, {
+    FieldValue: {serverTimestamp: () => "SERVER_TIMESTAMP"},
+  }),
+}));
+vi.mock("firebase-functions/logger", () => ({info: vi.fn()}));
+
+// A Wednesday
+const REFERENCE = new Date("2024-03-13T15:00:00Z");
+
+describe("parseDueDate", () => {
+  it("resolves relative days", () => {
+    expect(parseDueDate("Send the deck tomorrow", REFERENCE))
+      .toEqual({date: "2024-03-14", phrase: "tomorrow"});
+    expect(parseDueDate("Book it the day after tomorrow", REFERENCE)?.date)
+      .toBe("2024-03-15");
+    expect(parseDueDate("Finish by EOD", REFERENCE)?.date).toBe("2024-03-13");
+    expect(parseDueDate("Renew in two weeks", REFERENCE)?.date)
+      .toBe("2024-03-27");
+    expect(parseDueDate("Check back in 3 months", REFERENCE)?.date)
+      .toBe("2024-06-13");
+  });
+
+  it("resolves weekdays to the coming one", () => {
+    expect(parseDueDate("Call Sam by Friday", REFERENCE))
+      .toEqual({date: "2024-03-15", phrase: "Friday"});
+    expect(parseDueDate("Review on Wednesday", REFERENCE)?.date)
+      .toBe("2024-03-20");
+    expect(parseDueDate("Start next week", REFERENCE)?.date)
+      .toBe("2024-03-18");
+    expect(parseDueDate("Wrap up by end of the week", REFERENCE)?.date)
+      .toBe("2024-03-15");
+  });
+
+  it("resolves calendar dates, rolling past ones into next year", () => {
+    expect(parseDueDate("File taxes by April 15th", REFERENCE)?.date)
+      .toBe("2024-04-15");
+    expect(parseDueDate("Plan the party for March 5", REFERENCE)?.date)
+      .toBe("2025-03-05");
+    expect(parseDueDate("Ship on the 2nd of May", REFERENCE)?.date)
+      .toBe("2024-05-02");
+    expect(parseDueDate("Deadline 2024-06-01", REFERENCE)?.date)
+      .toBe("2024-06-01");
+    expect(parseDueDate("Pay rent 3/20", REFERENCE)?.date).toBe("2024-03-20");
+    expect(parseDueDate("Close the month end of the month", REFERENCE)?.date)
+      .toBe("2024-03-31");
+  });
+
+  it("returns null without a date or for impossible ones", () => {
+    expect(parseDueDate("Buy more coffee", REFERENCE)).toBeNull();
+    expect(parseDueDate("Meet on February 31", REFERENCE)).toBeNull();
+  });
+});
+
+describe("locateTask", () => {
+  const transcript =
+    "We met about the launch. Sam will send the budget by Friday. " +
+    "Then we had lunch.";
+
+  it("finds the sentence a task was spoken in", () => {
+    expect(locateTask("Send the budget", transcript, [], "en-US")).toEqual({
+      chunkIndex: 0,
+      sourceText: "Sam will send the budget by Friday.",
+      startTime: null,
+      endTime: null,
+    });
+  });
+
+  it("reports the sentence's audio range when words are timed", () => {
+    const words = transcript.split(" ").map((word, i) => ({
+      word,
+      startTime: i,
+      endTime: i + 0.5,
+    }));
+    expect(locateTask("Send the budget", transcript, words, "en-US"))
+      .toMatchObject({startTime: 5, endTime: 11.5});
+  });
+
+  it("gives up on tasks reworded beyond recognition", () => {
+    expect(locateTask("Renew passport", transcript, [], "en-US")).toBeNull();
+  });
+});
+
+describe("syncMemoTasks", () => {
+  const memo = {
+    title: "Launch sync",
+    transcript: "Sam will send the budget by Friday.",
+    language: "en-US",
+    createdAt: {toDate: () => REFERENCE},
+  };
+
+  beforeEach(() => {
+    firestore.state.existing = [];
+    firestore.state.written.clear();
+    firestore.state.deleted = [];
+  });
+
+  it("creates open tasks with due dates and sources", async () => {
+    const count = await syncMemoTasks({
+      uid: "user1",
+      memoId: "memo1",
+      memo,
+      actionItems: ["Send the budget by Friday"],
+    });
+
+    expect(count).toBe(1);
+    const [[id, task]] = Array.from(firestore.state.written);
+    expect(id).toMatch(/^memo1_[0-9a-f]{12}$/);
+    expect(task).toMatchObject({
+      memoId: "memo1",
+      memoTitle: "Launch sync",
+      text: "Send the budget by Friday",
+      dueDate: "2024-03-15",
+      dueText: "Friday",
+      sourceText: "Sam will send the budget by Friday.",
+      memoDeleted: false,
+      status: "open",
+    });
+  });
+
+  it("keeps IDs stable and leaves the status of existing tasks", async () => {
+    await syncMemoTasks({
+      uid: "user1",
+      memoId: "memo1",
+      memo,
+      actionItems: ["Send the budget by Friday"],
+    });
+    const [id] = Array.from(firestore.state.written.keys());
+    firestore.state.existing = [{id, data: {status: "completed"}}];
+    firestore.state.written.clear();
+
+    await syncMemoTasks({
+      uid: "user1",
+      memoId: "memo1",
+      memo,
+      actionItems: ["send the budget by friday"],
+    });
+    expect(firestore.state.written.get(id)).not.toHaveProperty("status");
+  });
+
+  it("deletes open tasks that vanished but keeps finished ones", async () => {
+    firestore.state.existing = [
+      {id: "memo1_old", data: {status: "open"}},
+      {id: "memo1_done", data: {status: "completed"}},
+      {id: "memo1_skip", data: {status: "dismissed"}},
+    ];
+
+    const count = await syncMemoTasks({
+      uid: "user1",
+      memoId: "memo1",
+      memo,
+      actionItems: [],
+    });
+    expect(count).toBe(0);
+    expect(firestore.state.deleted).toEqual(["memo1_old"]);
+  });
+});
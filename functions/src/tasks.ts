@@ -0,0 +1,290 @@
+/**
+ * Tasks extracted from memos. Each action item found by enrichment becomes
+ * a document in users/{uid}/tasks with any due date parsed from its
+ * wording and the transcript position it was spoken at, so the app can
+ * play the moment back. Re-enrichment updates a memo's open tasks; tasks
+ * the user completed or dismissed are left alone.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {chunkTranscript, hashText} from "./chunking";
+import {getStopwords, tokenize} from "./language";
+import {retryWithBackoff} from "./retry";
+import {TranscriptWord} from "./transcription";
+
+export type TaskStatus = "open" | "completed" | "dismissed";
+
+/**
+ * Due date parsed from task wording
+ */
+export interface DueDate {
+  date: string; // YYYY-MM-DD
+  phrase: string; // The words it was parsed from, e.g. "by Friday"
+}
+
+/**
+ * Where in the memo a task was spoken
+ */
+export interface TaskSource {
+  chunkIndex: number;
+  sourceText: string; // Transcript sentence the task came from
+  startTime: number | null; // Seconds; null for untimed transcripts
+  endTime: number | null;
+}
+
+const WEEKDAYS = [
+  "sunday", "monday", "tuesday", "wednesday", "thursday", "friday",
+  "saturday",
+];
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june", "july",
+  "august", "september", "october", "november", "december",
+];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+
+/**
+ * Date `days` after the reference day, in UTC
+ * @param {Date} reference - Reference date
+ * @param {number} days - Days to add
+ * @return {Date} Midnight UTC of the resulting day
+ */
+function addDays(reference: Date, days: number): Date {
+  return new Date(Date.UTC(
+    reference.getUTCFullYear(),
+    reference.getUTCMonth(),
+    reference.getUTCDate() + days
+  ));
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ * @param {Date} date - Date
+ * @return {string} ISO calendar date
+ */
+function isoDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Next occurrence of a weekday strictly after the reference day
+ * @param {Date} reference - Reference date
+ * @param {number} weekday - 0 (Sunday) to 6 (Saturday)
+ * @return {Date} Matching day
+ */
+function nextWeekday(reference: Date, weekday: number): Date {
+  const ahead = (weekday - reference.getUTCDay() + 7) % 7 || 7;
+  return addDays(reference, ahead);
+}
+
+/**
+ * A month/day in the reference year, or the next year once it has passed
+ * @param {Date} reference - Reference date
+ * @param {number} month - 0-based month
+ * @param {number} day - Day of month
+ * @return {Date | null} Date, or null when the day is invalid
+ */
+function upcomingDate(reference: Date, month: number, day: number):
+  Date | null {
+  if (day < 1 || day > 31) return null;
+  const year = reference.getUTCFullYear();
+  let date = new Date(Date.UTC(year, month, day));
+  if (date.getUTCMonth() !== month) return null;
+  if (date < addDays(reference, 0)) {
+    date = new Date(Date.UTC(year + 1, month, day));
+  }
+  return date;
+}
+
+/**
+ * Parse a due date from English task wording ("by Friday", "tomorrow",
+ * "in two weeks", "March 5th", "end of the month", ...)
+ * @param {string} text - Task text
+ * @param {Date} reference - When the memo was recorded
+ * @return {DueDate | null} Due date, or null when none is mentioned
+ */
+export function parseDueDate(text: string, reference: Date): DueDate | null {
+  const lower = text.toLowerCase();
+  const weekdays = WEEKDAYS.join("|");
+  const months = MONTHS.join("|");
+  const counts = Object.keys(NUMBER_WORDS).join("|");
+
+  const rules: Array<[RegExp, (m: RegExpMatchArray) => Date | null]> = [
+    [/\b(\d{4})-(\d{2})-(\d{2})\b/, (m) =>
+      new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])))],
+    [/\bday after tomorrow\b/, () => addDays(reference, 2)],
+    [/\btomorrow\b/, () => addDays(reference, 1)],
+    [/\b(?:today|tonight|this evening|end of (?:the )?day|eod)\b/, () =>
+      addDays(reference, 0)],
+    [new RegExp(`\\bin (\\d+|${counts}) (day|week|month)s?\\b`), (m) => {
+      const n = NUMBER_WORDS[m[1]] ?? Number(m[1]);
+      if (m[2] === "day") return addDays(reference, n);
+      if (m[2] === "week") return addDays(reference, 7 * n);
+      return new Date(Date.UTC(
+        reference.getUTCFullYear(),
+        reference.getUTCMonth() + n,
+        reference.getUTCDate()
+      ));
+    }],
+    [/\bnext week\b/, () => nextWeekday(reference, 1)],
+    [/\b(?:end of (?:the )?week|eow)\b/, () =>
+      reference.getUTCDay() === 5 ?
+        addDays(reference, 0) :
+        nextWeekday(reference, 5)],
+    [/\b(?:end of (?:the )?month|eom)\b/, () => new Date(Date.UTC(
+      reference.getUTCFullYear(),
+      reference.getUTCMonth() + 1,
+      0
+    ))],
+    // "Friday" and "next Friday" both mean the coming one
+    [new RegExp(`\\b(${weekdays})\\b`), (m) =>
+      nextWeekday(reference, WEEKDAYS.indexOf(m[1]))],
+    [new RegExp(`\\b(${months}) (\\d{1,2})(?:st|nd|rd|th)?\\b`), (m) =>
+      upcomingDate(reference, MONTHS.indexOf(m[1]), Number(m[2]))],
+    [new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?(${months})\\b`),
+      (m) => upcomingDate(reference, MONTHS.indexOf(m[2]), Number(m[1]))],
+    [/\b(\d{1,2})\/(\d{1,2})\b/, (m) =>
+      upcomingDate(reference, Number(m[1]) - 1, Number(m[2]))],
+  ];
+
+  for (const [pattern, resolve] of rules) {
+    const match = lower.match(pattern);
+    if (!match) continue;
+    const date = resolve(match);
+    if (date && !isNaN(date.getTime())) {
+      const start = match.index || 0;
+      return {
+        date: isoDate(date),
+        phrase: text.substring(start, start + match[0].length),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the transcript sentence a task was spoken in, by content-word
+ * overlap, and its audio range when word timings exist
+ * @param {string} taskText - Task text
+ * @param {string} transcript - Memo transcript
+ * @param {TranscriptWord[]} words - Memo word timings
+ * @param {string} language - Memo language
+ * @return {TaskSource | null} Best matching position, or null
+ */
+export function locateTask(
+  taskText: string,
+  transcript: string,
+  words: TranscriptWord[],
+  language: string
+): TaskSource | null {
+  const stopwords = getStopwords(language);
+  const contentTerms = (text: string) =>
+    new Set(tokenize(text).filter((t) => t.length > 2 && !stopwords.has(t)));
+  const wanted = contentTerms(taskText);
+  if (wanted.size === 0) return null;
+
+  let best: TaskSource | null = null;
+  let bestScore = 0;
+  chunkTranscript(transcript, words).forEach((chunk, chunkIndex) => {
+    const tokens = chunk.text.split(" ");
+    let start = 0;
+    tokens.forEach((token, i) => {
+      if (!SENTENCE_END.test(token) && i + 1 < tokens.length) return;
+      const sentence = tokens.slice(start, i + 1).join(" ");
+      const terms = contentTerms(sentence);
+      const overlap = Array.from(wanted).filter((t) => terms.has(t)).length;
+      const score = overlap / wanted.size;
+      if (score > bestScore) {
+        const timed = chunk.words.length === tokens.length;
+        bestScore = score;
+        best = {
+          chunkIndex,
+          sourceText: sentence,
+          startTime: timed ? chunk.words[start].startTime : null,
+          endTime: timed ? chunk.words[i].endTime : null,
+        };
+      }
+      start = i + 1;
+    });
+  });
+
+  // A task that shares under a third of its words with every sentence was
+  // reworded too much to point at one
+  return bestScore >= 0.34 ? best : null;
+}
+
+/**
+ * Write a memo's action items as tasks: new items are created, open tasks
+ * that disappeared are deleted and completed or dismissed tasks are kept
+ * @param {Object} params - Memo identity, memo data and action items
+ * @return {Promise<number>} Number of tasks for the memo after syncing
+ */
+export async function syncMemoTasks(params: {
+  uid: string;
+  memoId: string;
+  memo: admin.firestore.DocumentData;
+  actionItems: string[];
+}): Promise<number> {
+  const {uid, memoId, memo, actionItems} = params;
+  const db = admin.firestore();
+  const tasksColl = db.collection("users").doc(uid).collection("tasks");
+  const existing = await tasksColl.where("memoId", "==", memoId).get();
+
+  const transcript: string = memo.transcript || "";
+  const words: TranscriptWord[] = Array.isArray(memo.words) ? memo.words : [];
+  const language: string = memo.language;
+  const reference: Date = memo.createdAt?.toDate?.() || new Date();
+
+  const batch = db.batch();
+  const keepIds = new Set<string>();
+  actionItems.forEach((text) => {
+    // Same wording, same task: IDs are stable across re-enrichment
+    const id = `${memoId}_${hashText(text.toLowerCase()).substring(0, 12)}`;
+    keepIds.add(id);
+    const due = parseDueDate(text, reference);
+    const source = locateTask(text, transcript, words, language);
+    const isNew = !existing.docs.some((doc) => doc.id === id);
+
+    batch.set(tasksColl.doc(id), {
+      taskId: id,
+      uid,
+      memoId,
+      memoTitle: memo.title || null,
+      text,
+      dueDate: due?.date || null,
+      dueText: due?.phrase || null,
+      chunkIndex: source?.chunkIndex ?? null,
+      sourceText: source?.sourceText || null,
+      startTime: source?.startTime ?? null,
+      endTime: source?.endTime ?? null,
+      memoDeleted: memo.isDeleted === true, // Hidden while the memo is trashed
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(isNew ? {
+        status: "open" as TaskStatus,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      } : {}),
+    }, {merge: true});
+  });
+
+  let removed = 0;
+  existing.docs.forEach((doc) => {
+    if (!keepIds.has(doc.id) && doc.data().status === "open") {
+      batch.delete(doc.ref);
+      removed++;
+    }
+  });
+
+  await retryWithBackoff(() => batch.commit(), 2, 500);
+  logger.info("Memo tasks synced:", {
+    uid,
+    memoId,
+    tasks: actionItems.length,
+    removed,
+  });
+  return keepIds.size;
+}
@@ -0,0 +1,575 @@
+/**
+ * Transcription providers: a common interface over speech-to-text vendors
+ * that returns a normalized result (text, words, confidence, language and
+ * speaker segments). The active provider is chosen through the
+ * TRANSCRIPTION_PROVIDER param: "google" (default), "whisper" or "fake".
+ */
+
+import * as admin from "firebase-admin";
+import {v2 as speech} from "@google-cloud/speech";
+import OpenAI, {toFile} from "openai";
+import * as logger from "firebase-functions/logger";
+import {baseLanguage, normalizeLanguageCode} from "./language";
+import {retryWithBackoff} from "./retry";
+
+/**
+ * Normalized word with timing in seconds from the start of the recording
+ */
+export interface TranscriptWord {
+  word: string;
+  startTime: number;
+  endTime: number;
+  confidence?: number;
+  speaker?: string;
+}
+
+/**
+ * Contiguous span of a diarized transcript spoken by one speaker
+ */
+export interface SpeakerSegment {
+  speaker: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+/**
+ * Audio object to transcribe and the languages that may be spoken in it
+ */
+export interface TranscriptionRequest {
+  bucket: string;
+  path: string;
+  contentType: string;
+  sizeBytes: number;
+  languageCodes: string[];
+}
+
+/**
+ * Vendor-independent transcription output
+ */
+export interface TranscriptionResult {
+  text: string;
+  words: TranscriptWord[];
+  confidence: number;
+  language: string;
+  segments: SpeakerSegment[];
+}
+
+/**
+ * A speech-to-text backend
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export type TranscriptionProviderName = "google" | "whisper" | "fake";
+
+// Speaker diarization bounds passed to Speech-to-Text
+const MIN_SPEAKER_COUNT = 1;
+const MAX_SPEAKER_COUNT = 6;
+
+// Whisper rejects uploads above 25 MB
+const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
+
+// Synthetic pace used by the fake provider to assign word timings
+const FAKE_SECONDS_PER_WORD = 0.4;
+
+/**
+ * Convert a protobuf Duration (or a "1.5s" string) to seconds
+ * @param {unknown} d - Duration value from the STT response
+ * @return {number} Duration in seconds
+ */
+function durationToSeconds(d: unknown): number {
+  if (d === null || d === undefined) return 0;
+  if (typeof d === "number") return d;
+  if (typeof d === "string") return parseFloat(d) || 0;
+
+  const {seconds, nanos} = d as {seconds?: unknown; nanos?: unknown};
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const toNum = (v: any): number => typeof v?.toNumber === "function" ?
+    v.toNumber() : Number(v || 0);
+  return toNum(seconds) + toNum(nanos) / 1e9;
+}
+
+/**
+ * Normalize a raw Google STT word into a Firestore-friendly shape
+ * @param {Record<string, unknown>} w - Raw WordInfo from the STT response
+ * @return {TranscriptWord} Normalized word
+ */
+function normalizeGoogleWord(w: Record<string, unknown>): TranscriptWord {
+  const word: TranscriptWord = {
+    word: String(w.word || ""),
+    startTime: durationToSeconds(w.startOffset),
+    endTime: durationToSeconds(w.endOffset),
+  };
+  if (typeof w.confidence === "number" && w.confidence > 0) {
+    word.confidence = w.confidence;
+  }
+  if (typeof w.speakerLabel === "string" && w.speakerLabel.length > 0) {
+    word.speaker = w.speakerLabel;
+  }
+  return word;
+}
+
+/**
+ * Group consecutive words by speaker into labeled segments
+ * @param {TranscriptWord[]} words - Words with speaker labels
+ * @return {SpeakerSegment[]} Segments in playback order
+ */
+export function buildSpeakerSegments(
+  words: TranscriptWord[]
+): SpeakerSegment[] {
+  const segments: SpeakerSegment[] = [];
+  for (const w of words) {
+    if (!w.speaker) continue;
+    const last = segments[segments.length - 1];
+    if (last && last.speaker === w.speaker) {
+      last.text += " " + w.word;
+      last.endTime = w.endTime;
+    } else {
+      segments.push({
+        speaker: w.speaker,
+        startTime: w.startTime,
+        endTime: w.endTime,
+        text: w.word,
+      });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Pick the language spoken in most of the transcript from per-result codes
+ * @param {Array<Object>} results - Per-result language codes and text
+ * @param {string} fallback - Language to use when STT reports none
+ * @return {string} Detected language code
+ */
+function detectTranscriptLanguage(
+  results: Array<{languageCode?: string; text: string}>,
+  fallback: string
+): string {
+  const charsByLanguage = new Map<string, number>();
+  for (const r of results) {
+    if (!r.languageCode) continue;
+    const code = normalizeLanguageCode(r.languageCode);
+    charsByLanguage.set(code, (charsByLanguage.get(code) || 0) + r.text.length);
+  }
+  const ranked = Array.from(charsByLanguage.entries())
+    .sort((a, b) => b[1] - a[1]);
+  return ranked.length > 0 ? ranked[0][0] : fallback;
+}
+
+/**
+ * Map a detected base language onto the closest candidate code, so that
+ * "es" becomes "es-ES" when the user listed Spanish (Spain)
+ * @param {string} detected - Detected language (code or base language)
+ * @param {string[]} candidates - Candidate language codes
+ * @return {string} Candidate code, or the detected code if none matches
+ */
+function matchCandidate(detected: string, candidates: string[]): string {
+  const base = baseLanguage(detected);
+  return candidates.find((c) => baseLanguage(c) === base) ||
+    normalizeLanguageCode(detected);
+}
+
+/**
+ * Google Cloud Speech-to-Text v2 batchRecognize with speaker diarization
+ * and automatic language detection across the candidate languages
+ */
+export class GoogleSpeechProvider implements TranscriptionProvider {
+  readonly name = "google";
+  private client: speech.SpeechClient | null = null;
+
+  /**
+   * Transcribe an audio object in Cloud Storage
+   * @param {TranscriptionRequest} request - Audio and candidate languages
+   * @return {Promise<TranscriptionResult>} Normalized result
+   */
+  async transcribe(
+    request: TranscriptionRequest
+  ): Promise<TranscriptionResult> {
+    if (!this.client) {
+      this.client = new speech.SpeechClient();
+    }
+    const client = this.client;
+
+    const gcsUri = `gs://${request.bucket}/${request.path}`;
+    const project = process.env.GCLOUD_PROJECT;
+    const recognizer = `projects/${project}/locations/global/recognizers/_`;
+
+    // Short audio (≤60s) uses latest_short for speed, longer uses latest_long
+    // Rough estimate: 16kHz, 16-bit
+    const estimatedDurationSeconds = Math.ceil(request.sizeBytes / (16000 * 2));
+    const useShortModel = estimatedDurationSeconds <= 60;
+
+    logger.info("Audio model selection:", {
+      gcsUri,
+      estimatedDurationSeconds,
+      useShortModel,
+      languageCodes: request.languageCodes,
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sttRequest: any = {
+      recognizer,
+      config: {
+        autoDecodingConfig: {},
+        // Several codes let STT detect which candidate is spoken
+        languageCodes: request.languageCodes,
+        features: {
+          // Word offsets carry the speaker labels used for diarization
+          enableWordTimeOffsets: true,
+          // Punctuation gives chunking its sentence boundaries
+          enableAutomaticPunctuation: true,
+          diarizationConfig: {
+            minSpeakerCount: MIN_SPEAKER_COUNT,
+            maxSpeakerCount: MAX_SPEAKER_COUNT,
+          },
+        },
+        model: useShortModel ? "latest_short" : "latest_long",
+      },
+      recognitionOutputConfig: {
+        inlineResponseConfig: {},
+      },
+      files: [{uri: gcsUri}],
+    };
+
+    const startTime = Date.now();
+    const [operation] = await retryWithBackoff(
+      () => client.batchRecognize(sttRequest),
+      2,
+      500
+    );
+
+    logger.info("Waiting for Speech-to-Text operation to complete...", {
+      gcsUri,
+    });
+
+    // Wait for operation with timeout
+    const response = await Promise.race([
+      operation.promise(),
+      new Promise((_, reject) =>
+        setTimeout(
+          () => reject(new Error("Speech-to-Text operation timeout")),
+          540000
+        )
+      ),
+    ]);
+
+    logger.info("Speech-to-Text operation completed", {
+      gcsUri,
+      durationMs: Date.now() - startTime,
+    });
+
+    const transcriptResults = this.extractResults(response, gcsUri);
+
+    // Each result covers a consecutive stretch of audio, so combine the
+    // top alternative of every result rather than just the first one
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const usableResults = (transcriptResults as any[])
+      .filter((r) => r?.alternatives?.[0] &&
+        typeof r.alternatives[0] === "object");
+    const alternatives = usableResults.map((r) => r.alternatives[0]);
+    if (alternatives.length === 0) {
+      logger.error("No alternatives found in transcript:", {gcsUri});
+      throw new Error(`No alternatives found in transcript for ${gcsUri}`);
+    }
+
+    const text = alternatives
+      .map((a) => String(a.transcript || "").trim())
+      .filter((t) => t.length > 0)
+      .join(" ");
+
+    const words: TranscriptWord[] = alternatives
+      .flatMap((a) => Array.isArray(a.words) ? a.words : [])
+      .map(normalizeGoogleWord)
+      .filter((w: TranscriptWord) => w.word.length > 0);
+
+    const confidences = alternatives
+      .map((a) => a.confidence)
+      .filter((c): c is number => typeof c === "number" && c > 0);
+    const confidence = confidences.length > 0 ?
+      confidences.reduce((sum, c) => sum + c, 0) / confidences.length :
+      0;
+
+    const language = detectTranscriptLanguage(
+      usableResults.map((r) => ({
+        languageCode: r.languageCode,
+        text: String(r.alternatives[0].transcript || ""),
+      })),
+      request.languageCodes[0]
+    );
+
+    return {
+      text,
+      words,
+      confidence,
+      language: matchCandidate(language, request.languageCodes),
+      segments: buildSpeakerSegments(words),
+    };
+  }
+
+  /**
+   * Find the per-file results in the several shapes batchRecognize has
+   * been observed to return
+   * @param {unknown} response - Resolved long-running operation response
+   * @param {string} gcsUri - URI of the transcribed file
+   * @return {unknown[]} SpeechRecognitionResult list
+   */
+  private extractResults(response: unknown, gcsUri: string): unknown[] {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const resp = response as any;
+
+    // Log full response for debugging
+    const respStr = JSON.stringify(resp) || "undefined";
+    const respKeys = Object.keys(resp || {});
+    logger.info("Full Speech-to-Text response:", {
+      gcsUri,
+      responseKeys: respKeys.slice(0, 20),
+      responseStr: respStr.substring(0, 2000),
+    });
+
+    // Speech-to-Text v2 batchRecognize returns:
+    // { results: { [gcsUri]: { transcript: { results: [...] } } } }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let fileResults: any = null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const fromResultsMap = (results: any) => {
+      if (!results || typeof results !== "object") return null;
+      // Try with full gcsUri as key, then the first available result
+      return results[gcsUri] || Object.values(results)[0] || null;
+    };
+
+    // First, check if response has a results property (most common case)
+    fileResults = fromResultsMap(resp?.results);
+
+    // If response is an array (alternative structure)
+    if (!fileResults && Array.isArray(resp) && resp.length > 0) {
+      logger.info("Response is an array, checking first element", {
+        gcsUri,
+        arrayLength: resp.length,
+      });
+      fileResults = fromResultsMap(resp[0]?.results);
+    }
+
+    // If still not found, check if response itself is the file result
+    if (!fileResults && resp?.transcript !== undefined) {
+      fileResults = resp;
+      logger.info("Response is BatchRecognizeFileResult directly");
+    }
+
+    if (!fileResults) {
+      const respStr2 = (JSON.stringify(resp) || "").substring(0, 1000);
+      logger.error(`No results found. Response: ${respStr2}`);
+      const errMsg = `No transcription results found for ${gcsUri}. ` +
+        "Check Cloud Function logs for details.";
+      throw new Error(errMsg);
+    }
+
+    // Try transcript.results, then direct results, then the value itself
+    const transcriptResults = fileResults?.transcript?.results ||
+      fileResults?.results ||
+      (Array.isArray(fileResults) ? fileResults : null);
+
+    if (!transcriptResults || transcriptResults.length === 0) {
+      const fileResultsJson = JSON.stringify(fileResults, null, 2) ||
+        "undefined";
+      const msg = "No transcript results. FileResults: " +
+        fileResultsJson.substring(0, 1000);
+      logger.error(msg);
+      throw new Error(`No transcript results found for ${gcsUri}`);
+    }
+
+    return transcriptResults;
+  }
+}
+
+// Whisper reports languages by English name rather than by code
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  english: "en",
+  spanish: "es",
+  german: "de",
+  french: "fr",
+  italian: "it",
+  portuguese: "pt",
+  dutch: "nl",
+  japanese: "ja",
+  chinese: "zh",
+};
+
+/**
+ * OpenAI Whisper transcription. Whisper has no diarization, so results
+ * carry word timings but no speaker segments.
+ */
+export class WhisperProvider implements TranscriptionProvider {
+  readonly name = "whisper";
+  private readonly client: OpenAI;
+
+  /**
+   * @param {string} apiKey - OpenAI API key
+   * @param {string} model - Transcription model
+   */
+  constructor(apiKey: string, private readonly model = "whisper-1") {
+    this.client = new OpenAI({apiKey, timeout: 300000, maxRetries: 2});
+  }
+
+  /**
+   * Download the audio from Cloud Storage and transcribe it with Whisper
+   * @param {TranscriptionRequest} request - Audio and candidate languages
+   * @return {Promise<TranscriptionResult>} Normalized result
+   */
+  async transcribe(
+    request: TranscriptionRequest
+  ): Promise<TranscriptionResult> {
+    if (request.sizeBytes > WHISPER_MAX_BYTES) {
+      throw new Error(
+        `Audio file too large for Whisper: ${request.sizeBytes} bytes ` +
+        `(max: ${WHISPER_MAX_BYTES})`
+      );
+    }
+
+    const [buffer] = await admin.storage()
+      .bucket(request.bucket)
+      .file(request.path)
+      .download();
+    const fileName = request.path.split("/").pop() || "audio.webm";
+    const upload = await toFile(buffer, fileName, {
+      type: request.contentType,
+    });
+
+    // With a single candidate, pin the language; otherwise let Whisper detect
+    const language = request.languageCodes.length === 1 ?
+      baseLanguage(request.languageCodes[0]) :
+      undefined;
+
+    const response = await retryWithBackoff(
+      () => this.client.audio.transcriptions.create({
+        file: upload,
+        model: this.model,
+        response_format: "verbose_json",
+        timestamp_granularities: ["word", "segment"],
+        ...(language ? {language} : {}),
+      }),
+      2,
+      1000
+    );
+
+    const words: TranscriptWord[] = (response.words || [])
+      .map((w) => ({
+        word: w.word.trim(),
+        startTime: w.start,
+        endTime: w.end,
+      }))
+      .filter((w) => w.word.length > 0);
+
+    // Segment log-probabilities stand in for a confidence score
+    const segments = response.segments || [];
+    const confidence = segments.length > 0 ?
+      segments.reduce((sum, seg) => sum + Math.exp(seg.avg_logprob), 0) /
+        segments.length :
+      0;
+
+    const detected = WHISPER_LANGUAGE_NAMES[
+      String(response.language || "").toLowerCase()
+    ] || response.language || request.languageCodes[0];
+
+    return {
+      text: response.text.trim(),
+      words,
+      confidence,
+      language: matchCandidate(detected, request.languageCodes),
+      segments: [],
+    };
+  }
+}
+
+/**
+ * Deterministic stand-in that reads a sidecar text file stored next to the
+ * audio (audio/{uid}/{memoId}.txt), so the upload-to-transcript pipeline can
+ * run in the emulator without cloud calls.
+ *
+ * Sidecar format: an optional "language: es-ES" first line, then transcript
+ * text. Lines starting with "Speaker N:" are attributed to speaker N.
+ */
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "fake";
+
+  /**
+   * Build a transcription result from the sidecar file
+   * @param {TranscriptionRequest} request - Audio and candidate languages
+   * @return {Promise<TranscriptionResult>} Normalized result
+   */
+  async transcribe(
+    request: TranscriptionRequest
+  ): Promise<TranscriptionResult> {
+    const sidecarPath = request.path.replace(/\.[^/.]+$/, "") + ".txt";
+    const file = admin.storage().bucket(request.bucket).file(sidecarPath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      throw new Error(`Invalid fake transcription: missing ${sidecarPath}`);
+    }
+
+    const [contents] = await file.download();
+    const lines = contents.toString("utf8").split(/\r?\n/);
+
+    let language = request.languageCodes[0];
+    const languageLine = /^language:\s*(\S+)\s*$/i.exec(lines[0] || "");
+    if (languageLine) {
+      language = normalizeLanguageCode(languageLine[1]);
+      lines.shift();
+    }
+
+    const words: TranscriptWord[] = [];
+    let clock = 0;
+    for (const line of lines) {
+      const speakerLine = /^Speaker\s+(\S+):\s*(.*)$/i.exec(line.trim());
+      const speaker = speakerLine ? speakerLine[1] : undefined;
+      const lineText = speakerLine ? speakerLine[2] : line;
+      for (const token of lineText.split(/\s+/).filter((t) => t.length > 0)) {
+        words.push({
+          word: token,
+          startTime: clock,
+          endTime: clock + FAKE_SECONDS_PER_WORD,
+          confidence: 1,
+          ...(speaker ? {speaker} : {}),
+        });
+        clock += FAKE_SECONDS_PER_WORD;
+      }
+    }
+
+    return {
+      text: words.map((w) => w.word).join(" "),
+      words,
+      confidence: words.length > 0 ? 1 : 0,
+      language,
+      segments: buildSpeakerSegments(words),
+    };
+  }
+}
+
+/**
+ * Create the transcription provider selected by configuration
+ * @param {string} name - Provider name
+ * @param {Object} options - Provider credentials
+ * @return {TranscriptionProvider} Provider instance
+ */
+export function createTranscriptionProvider(
+  name: string,
+  options: {openaiApiKey?: string} = {}
+): TranscriptionProvider {
+  switch (name as TranscriptionProviderName) {
+  case "whisper":
+    if (!options.openaiApiKey) {
+      throw new Error("Invalid configuration: OPENAI_API_KEY is not set");
+    }
+    return new WhisperProvider(options.openaiApiKey);
+  case "fake":
+    return new FakeTranscriptionProvider();
+  case "google":
+    return new GoogleSpeechProvider();
+  default:
+    throw new Error(`Invalid transcription provider: ${name}`);
+  }
+}
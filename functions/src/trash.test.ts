@@ -0,0 +1,132 @@
+/**
+ * Trash Tests
+ * Permanently deleting memos (against an in-memory Firestore): only from
+ * the trash, and with the memo doc removed after everything derived from
+ * it so an interrupted purge can be finished.
+ * Run with: npm test (in functions/)
+ */
+
+import {beforeEach, describe, expect, it, vi} from "vitest";
+import {purgeMemo} from "./trash";
+
+type Data = Record<string, unknown>;
+
+const firestore = vi.hoisted(() => {
+  const state = {
+    memo: undefined as Data | undefined,
+    derived: new Map<string, string[]>(), // Collection -> doc IDs
+    deleted: [] as string[], // Paths in deletion order
+    failOn: "",
+  };
+  const remove = async (path: string) => {
+    if (path === state.failOn) throw new Error(`Failed to delete ${path}`);
+    state.deleted.push(path);
+  };
+  const collection = (name: string) => ({
+    doc: (id: string) => ({
+      get: async () => ({
+        exists: name === "memos" && !!state.memo,
+        data: () => (name === "memos" ? state.memo : undefined),
+      }),
+      delete: () => remove(`${name}/${id}`),
+      set: async () => undefined,
+    }),
+    where: () => ({
+      get: async () => {
+        const docs = (state.derived.get(name) || [])
+          .map((id) => ({ref: {path: `${name}/${id}`}}));
+        return {docs, size: docs.length};
+      },
+    }),
+  });
+  const db = {
+    collection: () => ({doc: () => ({collection})}),
+    batch: () => {
+      const paths: string[] = [];
+      return {
+        delete: (ref: {path: string}) => paths.push(ref.path),
+        commit: async () => {
+          for (const path of paths) await remove(path);
+        },
+      };
+    },
+  };
+  return {state, db, remove};
+});
+
+vi.mock("firebase-admin", () => ({
+  firestore: Object.assign(() => firestore.db, {
+    FieldValue: {serverTimestamp: () => "SERVER_TIMESTAMP"},
+  }),
+  storage: () => ({
+    bucket: () => ({
+      file: (path: string) => ({delete: () => firestore.remove(path)}),
+    }),
+  }),
+}));
+vi.mock("firebase-functions/logger", () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+}));
+vi.mock("./keywordIndex", () => ({
+  removeFromKeywordIndex: (uid: string, memoId: string) =>
+    firestore.remove(`keywordPostings/${memoId}`),
+}));
+vi.mock("./retry", () => ({
+  retryWithBackoff: (fn: () => Promise<unknown>) => fn(),
+}));
+
+describe("purgeMemo", () => {
+  beforeEach(() => {
+    firestore.state.memo = {
+      isDeleted: true,
+      storagePath: "audio/user1/memo1.webm",
+    };
+    firestore.state.derived = new Map([
+      ["chunks", ["c0", "c1"]],
+      ["tasks", ["t0"]],
+    ]);
+    firestore.state.deleted = [];
+    firestore.state.failOn = "";
+  });
+
+  it("deletes the memo doc after everything derived from it", async () => {
+    const result = await purgeMemo("user1", "memo1");
+
+    expect(result).toEqual({
+      deletedChunks: 2,
+      deletedTasks: 1,
+      deletedStorage: true,
+    });
+    expect(firestore.state.deleted).toEqual([
+      "audio/user1/memo1.webm",
+      "chunks/c0",
+      "chunks/c1",
+      "tasks/t0",
+      "keywordPostings/memo1",
+      "memos/memo1",
+    ]);
+  });
+
+  it("keeps the trashed memo when a step fails", async () => {
+    firestore.state.failOn = "tasks/t0";
+
+    await expect(purgeMemo("user1", "memo1")).rejects.toThrow("tasks/t0");
+    expect(firestore.state.deleted).not.toContain("memos/memo1");
+  });
+
+  it("refuses memos that are not in the trash", async () => {
+    firestore.state.memo = {isDeleted: false};
+
+    await expect(purgeMemo("user1", "memo1"))
+      .rejects.toThrow("Failed precondition");
+    expect(firestore.state.deleted).toEqual([]);
+  });
+
+  it("cleans up after a memo that is already gone", async () => {
+    firestore.state.memo = undefined;
+
+    await purgeMemo("user1", "memo1");
+    expect(firestore.state.deleted).toContain("chunks/c0");
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Memo trash. Deleting a memo moves it to the trash: the memo gets
+ * isDeleted/deletedAt/purgeAt and its chunks and tasks get memoDeleted, so
+ * retrieval and the task list skip it while it can still be restored.
+ * A scheduled job purges memos whose purgeAt has passed, removing the
+ * audio, memo, chunks and tasks for good.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+  chunkMetadata,
+  hashChunkMetadata,
+  syncChunkMetadata,
+} from "./indexing";
+import {removeFromKeywordIndex} from "./keywordIndex";
+import {retryWithBackoff} from "./retry";
+
+/**
+ * Counts from permanently deleting one memo
+ */
+export interface PurgeResult {
+  deletedChunks: number;
+  deletedTasks: number;
+  deletedStorage: boolean;
+}
+
+const PURGE_PAGE_SIZE = 50;
+
+/**
+ * Delete every document matched by a query, 400 writes per batch
+ * @param {admin.firestore.Query} query - Documents to delete
+ * @return {Promise<number>} Documents deleted
+ */
+async function deleteMatching(query: admin.firestore.Query): Promise<number> {
+  const snap = await query.get();
+  const db = admin.firestore();
+  for (let start = 0; start < snap.docs.length; start += 400) {
+    const batch = db.batch();
+    snap.docs.slice(start, start + 400).forEach((doc) => batch.delete(doc.ref));
+    await retryWithBackoff(() => batch.commit(), 2, 500);
+  }
+  return snap.size;
+}
+
+/**
+ * Move a memo to the trash or restore it, flipping the flag on the memo,
+ * its chunks and its tasks
+ * @param {Object} params - Memo identity, target state and retention
+ * @return {Promise<Date | null>} When the memo will be purged, or null
+ *   after a restore
+ */
+export async function setMemoTrashed(params: {
+  uid: string;
+  memoId: string;
+  trashed: boolean;
+  retentionDays: number;
+}): Promise<Date | null> {
+  const {uid, memoId, trashed, retentionDays} = params;
+  const db = admin.firestore();
+  const userRef = db.collection("users").doc(uid);
+  const memoRef = userRef.collection("memos").doc(memoId);
+  const memoSnap = await memoRef.get();
+  if (!memoSnap.exists) {
+    throw new Error("Not found: memo does not exist");
+  }
+
+  // Chunks first, so a failure leaves the memo in its old state. The
+  // stored hash then matches and onTranscriptWrite doesn't sync again.
+  const metadata = chunkMetadata({...memoSnap.data(), isDeleted: trashed});
+  const updatedChunks = await syncChunkMetadata(uid, memoId, metadata);
+
+  const tasksSnap = await userRef.collection("tasks")
+    .where("memoId", "==", memoId)
+    .get();
+  if (!tasksSnap.empty) {
+    const batch = db.batch();
+    tasksSnap.docs.forEach((doc) =>
+      batch.update(doc.ref, {memoDeleted: trashed}));
+    await retryWithBackoff(() => batch.commit(), 2, 500);
+  }
+
+  const purgeAt = trashed ?
+    new Date(Date.now() + retentionDays * 24 * 60 * 60 * 1000) :
+    null;
+  await memoRef.update({
+    isDeleted: trashed,
+    deletedAt: trashed ?
+      admin.firestore.FieldValue.serverTimestamp() :
+      admin.firestore.FieldValue.delete(),
+    purgeAt: purgeAt ?
+      admin.firestore.Timestamp.fromDate(purgeAt) :
+      admin.firestore.FieldValue.delete(),
+    chunkMetadataHash: hashChunkMetadata(metadata),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info(trashed ? "Memo moved to trash:" : "Memo restored:", {
+    uid,
+    memoId,
+    updatedChunks,
+    updatedTasks: tasksSnap.size,
+    purgeAt,
+  });
+  return purgeAt;
+}
+
+/**
+ * Permanently delete a trashed memo: Storage audio, chunks, tasks, keyword
+ * index postings and, last, the memo doc. A purge that fails part way
+ * leaves the trashed memo behind, so the next purge run finishes it.
+ * @param {string} uid - Owner
+ * @param {string} memoId - Memo ID
+ * @return {Promise<PurgeResult>} What was deleted
+ */
+export async function purgeMemo(
+  uid: string,
+  memoId: string
+): Promise<PurgeResult> {
+  const db = admin.firestore();
+  const userRef = db.collection("users").doc(uid);
+  const memoRef = userRef.collection("memos").doc(memoId);
+  const memoSnap = await memoRef.get();
+  // Without a memo doc only leftovers of an earlier purge can remain
+  if (memoSnap.exists && memoSnap.data()?.isDeleted !== true) {
+    throw new Error(
+      "Failed precondition: move the memo to the trash before deleting it " +
+      "permanently"
+    );
+  }
+  const storagePath = memoSnap.data()?.storagePath;
+
+  // 1) Delete Storage audio file
+  let deletedStorage = true;
+  try {
+    const bucket = admin.storage().bucket();
+    if (storagePath) {
+      await bucket.file(storagePath).delete().catch(() => {
+        logger.warn(
+          "Audio file not found or already deleted:",
+          {uid, memoId, storagePath}
+        );
+      });
+    } else {
+      // Fallback: try common extensions
+      const extensions = ["webm", "m4a", "mp4", "wav", "mp3"];
+      for (const ext of extensions) {
+        await bucket.file(`audio/${uid}/${memoId}.${ext}`).delete()
+          .catch(() => {
+            // File may not exist, that's ok
+          });
+      }
+    }
+  } catch (storageError) {
+    // Continue with deletion even if storage fails
+    logger.warn("Error deleting storage file:", storageError);
+    deletedStorage = false;
+  }
+
+  // 2) Delete everything derived from the memo, then the memo
+  const deletedChunks = await deleteMatching(
+    userRef.collection("chunks").where("memoId", "==", memoId)
+  );
+  const deletedTasks = await deleteMatching(
+    userRef.collection("tasks").where("memoId", "==", memoId)
+  );
+  await removeFromKeywordIndex(uid, memoId);
+  await memoRef.delete();
+
+  // 3) Tombstone for race condition prevention
+  // (Useful if multiple deletes are in flight)
+  await userRef.collection("deletedMemos").doc(memoId).set({
+    deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+    deletedChunks,
+  });
+
+  logger.info("Memo purged:", {uid, memoId, deletedChunks, deletedTasks});
+  return {deletedChunks, deletedTasks, deletedStorage};
+}
+
+/**
+ * Purge every trashed memo whose retention has run out, page by page
+ * until none are left or the deadline passes
+ * @param {number} deadline - Epoch milliseconds to stop by
+ * @return {Promise<Object>} Memos purged and failed, and whether any are left
+ */
+export async function purgeExpiredMemos(deadline: number): Promise<{
+  purged: number;
+  failed: number;
+  done: boolean;
+}> {
+  const db = admin.firestore();
+  const failedPaths = new Set<string>();
+  let purged = 0;
+
+  while (Date.now() < deadline) {
+    const snap = await db.collectionGroup("memos")
+      .where("isDeleted", "==", true)
+      .where("purgeAt", "<=", admin.firestore.Timestamp.now())
+      .orderBy("purgeAt")
+      .limit(PURGE_PAGE_SIZE + failedPaths.size)
+      .get();
+    const due = snap.docs.filter((doc) => !failedPaths.has(doc.ref.path));
+    if (due.length === 0) {
+      return {purged, failed: failedPaths.size, done: true};
+    }
+
+    for (const doc of due) {
+      if (Date.now() >= deadline) break;
+      try {
+        const uid = doc.ref.parent.parent?.id;
+        if (!uid) throw new Error("Memo is not under users/{uid}");
+        await purgeMemo(uid, doc.id);
+        purged++;
+      } catch (error) {
+        logger.error("Failed to purge memo:", {path: doc.ref.path, error});
+        failedPaths.add(doc.ref.path);
+      }
+    }
+  }
+  return {purged, failed: failedPaths.size, done: false};
+}
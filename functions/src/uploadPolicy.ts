@@ -0,0 +1,136 @@
+/**
+ * Upload policy for memo audio: accepted formats and the size and duration
+ * limits. This is where the limits are configured. Mirrored in
+ * web/src/utils/uploadPolicy.ts and in the audio rule of storage.rules so
+ * the client, the rules and onAudioUpload accept exactly the same files;
+ * web/src/utils/uploadPolicy.test.ts fails when they drift apart.
+ */
+
+/**
+ * An accepted audio format and the MIME types it may be uploaded as
+ */
+export interface AudioFormat {
+  label: string;
+  mimeTypes: string[];
+}
+
+export const AUDIO_FORMATS: AudioFormat[] = [
+  {label: "WebM", mimeTypes: ["audio/webm"]},
+  {label: "Ogg", mimeTypes: ["audio/ogg"]},
+  {label: "MP4/M4A", mimeTypes: ["audio/mp4", "audio/m4a", "audio/x-m4a"]},
+  {label: "MP3", mimeTypes: ["audio/mpeg", "audio/mp3"]},
+  {label: "WAV", mimeTypes: ["audio/wav", "audio/x-wav"]},
+];
+
+export const MIN_AUDIO_BYTES = 1024; // 1 KB
+export const MAX_AUDIO_BYTES = 100 * 1024 * 1024; // 100 MB
+export const MAX_AUDIO_DURATION_SECONDS = 2 * 60 * 60; // 2 hours
+
+export type UploadLimit = "minSize" | "maxSize" | "maxDuration" | "format";
+
+/**
+ * The limit an upload breaks and a message naming it
+ */
+export interface UploadViolation {
+  limit: UploadLimit;
+  message: string;
+}
+
+/**
+ * Audio properties checked against the policy
+ */
+export interface AudioUpload {
+  sizeBytes: number;
+  contentType: string;
+  durationSeconds?: number; // Unknown for uploads without the metadata
+}
+
+/**
+ * Format a byte count as "512 bytes", "1 KB" or "100 MB"
+ * @param {number} bytes - Size in bytes
+ * @return {string} Human-readable size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`;
+  if (bytes < 1024 * 1024) return `${+(bytes / 1024).toFixed(1)} KB`;
+  return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Format a duration as "45 s", "12 min" or "2 h 5 min"
+ * @param {number} seconds - Duration in seconds
+ * @return {string} Human-readable duration
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.ceil(seconds);
+  if (total < 60) return `${total} s`;
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.ceil((total % 3600) / 60);
+  if (hours === 0) return `${minutes} min`;
+  return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+}
+
+/**
+ * Base MIME type without parameters, e.g. "audio/webm;codecs=opus" ->
+ * "audio/webm"
+ * @param {string} contentType - Content type as uploaded
+ * @return {string} Lowercase base type
+ */
+export function baseMimeType(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Whether a content type is one of the accepted audio formats
+ * @param {string} contentType - Content type, parameters allowed
+ * @return {boolean} True when accepted
+ */
+export function isAllowedAudioType(contentType: string): boolean {
+  const base = baseMimeType(contentType);
+  return AUDIO_FORMATS.some((format) => format.mimeTypes.includes(base));
+}
+
+/**
+ * Check audio against the upload policy
+ * @param {AudioUpload} upload - Size, content type and duration if known
+ * @return {UploadViolation | null} The first limit broken, or null
+ */
+export function checkAudioUpload(upload: AudioUpload): UploadViolation | null {
+  const {sizeBytes, contentType, durationSeconds} = upload;
+
+  if (!isAllowedAudioType(contentType)) {
+    const supported = AUDIO_FORMATS.map((format) => format.label).join(", ");
+    return {
+      limit: "format",
+      message: `Unsupported audio content type ${contentType || "(none)"}. ` +
+        `Supported formats: ${supported}.`,
+    };
+  }
+
+  if (sizeBytes < MIN_AUDIO_BYTES) {
+    return {
+      limit: "minSize",
+      message: `Audio file too small: ${formatBytes(sizeBytes)} is below ` +
+        `the ${formatBytes(MIN_AUDIO_BYTES)} minimum.`,
+    };
+  }
+
+  if (sizeBytes > MAX_AUDIO_BYTES) {
+    return {
+      limit: "maxSize",
+      message: `Audio file too large: ${formatBytes(sizeBytes)} exceeds ` +
+        `the ${formatBytes(MAX_AUDIO_BYTES)} upload limit.`,
+    };
+  }
+
+  if (durationSeconds !== undefined &&
+      durationSeconds > MAX_AUDIO_DURATION_SECONDS) {
+    return {
+      limit: "maxDuration",
+      message: `Audio too long: ${formatDuration(durationSeconds)} exceeds ` +
+        `the ${formatDuration(MAX_AUDIO_DURATION_SECONDS)} duration limit.`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,85 @@
+/**
+ * BM25 Tests
+ * Scoring keyword postings against corpus statistics.
+ * Run with: npm test
+ */
+
+import {describe, expect, it} from "vitest";
+import {CorpusStats, KeywordPosting, idf, scoreBM25} from "./bm25";
+
+const stats = (documentFrequency: Record<string, number>, chunkCount = 10, totalLength = 100): CorpusStats => ({
+  chunkCount,
+  totalLength,
+  documentFrequency: new Map(Object.entries(documentFrequency)),
+});
+
+describe("idf", () => {
+  it("is higher for rarer terms", () => {
+    expect(idf(100, 1)).toBeGreaterThan(idf(100, 10));
+    expect(idf(100, 1)).toBeCloseTo(Math.log(1 + 99.5 / 1.5));
+  });
+
+  it("never goes negative, even for terms in every chunk", () => {
+    expect(idf(10, 10)).toBeGreaterThan(0);
+  });
+});
+
+describe("scoreBM25", () => {
+  it("scores one term with the BM25 formula", () => {
+    const postings: KeywordPosting[] = [{term: "budget", memoId: "m1", chunks: {"0": {tf: 2, length: 10}}}];
+    const [chunk] = scoreBM25(postings, stats({budget: 2}));
+
+    // Average length 10, so length normalization is neutral
+    const expected = idf(10, 2) * (2 * 2.2) / (2 + 1.2);
+    expect(chunk).toMatchObject({memoId: "m1", chunkIndex: 0, matchedTerms: ["budget"]});
+    expect(chunk.score).toBeCloseTo(expected);
+  });
+
+  it("sums the terms a chunk matches and ranks it first", () => {
+    const postings: KeywordPosting[] = [
+      {term: "budget", memoId: "m1", chunks: {"0": {tf: 1, length: 10}, "1": {tf: 1, length: 10}}},
+      {term: "launch", memoId: "m1", chunks: {"1": {tf: 1, length: 10}}},
+    ];
+    const scored = scoreBM25(postings, stats({budget: 2, launch: 1}));
+
+    expect(scored.map((c) => c.chunkIndex)).toEqual([1, 0]);
+    expect(scored[0].matchedTerms).toEqual(["budget", "launch"]);
+  });
+
+  it("prefers rare terms and shorter chunks", () => {
+    const rare = scoreBM25(
+      [
+        {term: "common", memoId: "m1", chunks: {"0": {tf: 1, length: 10}}},
+        {term: "rare", memoId: "m2", chunks: {"0": {tf: 1, length: 10}}},
+      ],
+      stats({common: 8, rare: 1})
+    );
+    expect(rare[0].memoId).toBe("m2");
+
+    const short = scoreBM25(
+      [{term: "budget", memoId: "m1", chunks: {"0": {tf: 1, length: 40}, "1": {tf: 1, length: 5}}}],
+      stats({budget: 2})
+    );
+    expect(short[0].chunkIndex).toBe(1);
+  });
+
+  it("saturates term frequency", () => {
+    const scoreFor = (tf: number) =>
+      scoreBM25([{term: "budget", memoId: "m1", chunks: {"0": {tf, length: 10}}}], stats({budget: 1}))[0].score;
+    expect(scoreFor(2)).toBeGreaterThan(scoreFor(1));
+    expect(scoreFor(100)).toBeLessThan(scoreFor(1) * 2.2);
+  });
+
+  it("falls back to the posting's chunk count without a document frequency", () => {
+    const postings: KeywordPosting[] = [{term: "budget", memoId: "m1", chunks: {"0": {tf: 1, length: 10}}}];
+    expect(scoreBM25(postings, stats({}))[0].score).toBeCloseTo(scoreBM25(postings, stats({budget: 1}))[0].score);
+  });
+
+  it("skips malformed entries and empty corpora", () => {
+    const postings: KeywordPosting[] = [
+      {term: "budget", memoId: "m1", chunks: {"x": {tf: 1, length: 10}, "2": {tf: 0, length: 10}}},
+    ];
+    expect(scoreBM25(postings, stats({budget: 1}))).toEqual([]);
+    expect(scoreBM25(postings, stats({budget: 1}, 0))).toEqual([]);
+  });
+});
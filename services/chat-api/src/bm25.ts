@@ -0,0 +1,75 @@
+/**
+ * BM25 scoring over the per-user keyword index that Cloud Functions keep in
+ * users/{uid}/keywordPostings (see functions/src/keywordIndex.ts). Each
+ * posting holds one memo's chunks that contain a term, with the term
+ * frequency and the chunk length in terms.
+ */
+
+export interface Bm25Params {
+  k1: number; // Term frequency saturation
+  b: number; // Length normalization (0 = none, 1 = full)
+}
+
+export const DEFAULT_BM25_PARAMS: Bm25Params = {k1: 1.2, b: 0.75};
+
+export interface KeywordPosting {
+  term: string;
+  memoId: string;
+  chunks: Record<string, {tf: number; length: number}>;
+}
+
+/**
+ * Corpus statistics aggregated over the user's index
+ */
+export interface CorpusStats {
+  chunkCount: number;
+  totalLength: number; // Sum of chunk lengths in terms
+  documentFrequency: Map<string, number>; // Chunks containing each term
+}
+
+export interface ScoredChunk {
+  memoId: string;
+  chunkIndex: number;
+  score: number;
+  matchedTerms: string[];
+}
+
+/**
+ * Inverse document frequency (Lucene's variant, which is never negative)
+ */
+export function idf(chunkCount: number, documentFrequency: number): number {
+  return Math.log(1 + (chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * Score every chunk that appears in the postings; returns chunks best first
+ */
+export function scoreBM25(
+  postings: KeywordPosting[],
+  stats: CorpusStats,
+  params: Bm25Params = DEFAULT_BM25_PARAMS
+): ScoredChunk[] {
+  if (stats.chunkCount <= 0) return [];
+  const avgLength = stats.totalLength / stats.chunkCount || 1;
+  const scores = new Map<string, ScoredChunk>();
+
+  for (const posting of postings) {
+    const df = stats.documentFrequency.get(posting.term) || Object.keys(posting.chunks).length;
+    const termIdf = idf(stats.chunkCount, df);
+
+    for (const [index, {tf, length}] of Object.entries(posting.chunks)) {
+      const chunkIndex = Number(index);
+      if (!Number.isInteger(chunkIndex) || !(tf > 0)) continue;
+      const norm = params.k1 * (1 - params.b + params.b * (length / avgLength));
+      const termScore = termIdf * (tf * (params.k1 + 1)) / (tf + norm);
+
+      const key = `${posting.memoId}:${chunkIndex}`;
+      const entry = scores.get(key) || {memoId: posting.memoId, chunkIndex, score: 0, matchedTerms: []};
+      entry.score += termScore;
+      entry.matchedTerms.push(posting.term);
+      scores.set(key, entry);
+    }
+  }
+
+  return Array.from(scores.values()).sort((a, b) => b.score - a.score);
+}
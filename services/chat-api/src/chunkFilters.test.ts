@@ -0,0 +1,105 @@
+/**
+ * Chunk Filter Tests
+ * Splitting chat filters between the chunk query and the checks on its
+ * results, and matching chunks against combined filters.
+ * Run with: npm test
+ */
+
+import {describe, expect, it} from "vitest";
+import type {Query} from "@google-cloud/firestore";
+import {
+  applyMetadataFilters,
+  chunkSpeakerNames,
+  hasPostFilters,
+  matchesChunkFilters,
+  queryFilterKeys,
+} from "./chunkFilters";
+import {ChatFilters} from "./validation";
+
+// Query that records its where clauses
+function recordingQuery(clauses: unknown[][] = []): Query {
+  return {
+    clauses,
+    where: (...clause: unknown[]) => recordingQuery([...clauses, clause]),
+  } as unknown as Query;
+}
+
+const clausesOf = (filters: ChatFilters) =>
+  (applyMetadataFilters(recordingQuery(), filters) as unknown as {clauses: unknown[][]}).clauses;
+
+const timestamp = (iso: string) => ({toDate: () => new Date(iso)});
+
+const chunk = {
+  memoId: "m1",
+  tags: ["standup", "q3"],
+  speakerKeys: ["alice", "speaker 2"],
+  language: "es-MX",
+  languageBase: "es",
+  category: "meeting",
+  sentiment: "positive",
+  keyPhrases: ["launch plan"],
+  memoCreatedAt: timestamp("2024-03-10T12:00:00Z"),
+};
+
+describe("queryFilterKeys", () => {
+  it("puts the most selective filter group into the query", () => {
+    expect(queryFilterKeys({tags: ["standup"], speakers: ["alice"], language: "es"})).toEqual(["speakers"]);
+    expect(queryFilterKeys({memoIds: ["m1"], tags: ["standup"]})).toEqual(["memoIds"]);
+    expect(queryFilterKeys({sentiment: "positive", category: "idea", language: "es"})).toEqual(["category", "sentiment"]);
+    expect(queryFilterKeys({keyPhrases: ["launch"]})).toEqual([]);
+    expect(queryFilterKeys(undefined)).toEqual([]);
+  });
+});
+
+describe("applyMetadataFilters", () => {
+  it("queries one filter group and the date range", () => {
+    const createdAfter = new Date("2024-01-01T00:00:00Z");
+    expect(clausesOf({tags: ["standup"], speakers: ["alice"], createdAfter})).toEqual([
+      ["speakerKeys", "array-contains-any", ["alice"]],
+      ["memoCreatedAt", ">=", createdAfter],
+    ]);
+  });
+
+  it("matches base languages and regional variants on their own fields", () => {
+    expect(clausesOf({language: "es"})).toEqual([["languageBase", "==", "es"]]);
+    expect(clausesOf({language: "es-MX"})).toEqual([["language", "==", "es-MX"]]);
+  });
+});
+
+describe("hasPostFilters", () => {
+  it("is set when filters are left over after the query", () => {
+    expect(hasPostFilters(undefined)).toBe(false);
+    expect(hasPostFilters({tags: ["standup"], createdBefore: new Date()})).toBe(false);
+    expect(hasPostFilters({category: "idea", sentiment: "neutral"})).toBe(false);
+    expect(hasPostFilters({tags: ["standup"], speakers: ["alice"]})).toBe(true);
+    expect(hasPostFilters({memoIds: ["m1"], language: "es"})).toBe(true);
+    expect(hasPostFilters({entities: ["acme"]})).toBe(true);
+  });
+});
+
+describe("matchesChunkFilters", () => {
+  it("applies every filter of a combination", () => {
+    expect(matchesChunkFilters(chunk, {tags: ["standup"], speakers: ["alice"]})).toBe(true);
+    expect(matchesChunkFilters(chunk, {tags: ["standup"], speakers: ["bob"]})).toBe(false);
+    expect(matchesChunkFilters(chunk, {memoIds: ["m1"], language: "es"})).toBe(true);
+    expect(matchesChunkFilters(chunk, {memoIds: ["m1"], language: "es-ES"})).toBe(false);
+    expect(matchesChunkFilters(chunk, {category: "meeting", tags: ["retro"]})).toBe(false);
+    expect(matchesChunkFilters(chunk, {
+      speakers: ["speaker 2"],
+      createdAfter: new Date("2024-03-01T00:00:00Z"),
+      createdBefore: new Date("2024-03-31T00:00:00Z"),
+      keyPhrases: ["launch"],
+    })).toBe(true);
+    expect(matchesChunkFilters(chunk, {tags: ["standup"], createdAfter: new Date("2024-04-01T00:00:00Z")})).toBe(false);
+  });
+
+  it("matches speaker names exactly", () => {
+    expect(matchesChunkFilters(chunk, {speakers: ["ali"]})).toBe(false);
+  });
+
+  it("reads chunks written before speaker keys and base languages were stored", () => {
+    const legacy = {memoId: "m1", language: "es-MX", speakers: ["1", "2"], speakerNames: {"1": " Alice "}};
+    expect(chunkSpeakerNames(legacy)).toEqual(["alice", "speaker 2"]);
+    expect(matchesChunkFilters(legacy, {speakers: ["alice"], language: "es"})).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Chunk filters - chat filters matched against the memo fields Cloud Functions
+ * denormalize onto chunk documents. Each filter combination inside a vector
+ * query needs its own composite index (firestore.indexes.json), so a chunk
+ * query carries the date range and one filter group; the remaining groups
+ * are checked on its results, and retrieval fetches more candidates to
+ * make up for the ones they drop.
+ */
+
+import type {Query} from "@google-cloud/firestore";
+import {baseLanguage} from "./language";
+import {ChatFilters} from "./validation";
+
+// Filter groups a chunk query can carry, most selective first; the first
+// group set in a request goes into the query
+const QUERY_FILTER_GROUPS: Array<Array<keyof ChatFilters>> = [
+  ["memoIds"],
+  ["speakers"],
+  ["tags"],
+  ["category", "sentiment"],
+  ["language"],
+];
+
+/**
+ * Filters that go into the chunk query besides the date range
+ */
+export function queryFilterKeys(filters: ChatFilters | undefined): Array<keyof ChatFilters> {
+  if (!filters) return [];
+  const group = QUERY_FILTER_GROUPS.find((keys) => keys.some((key) => filters[key] !== undefined));
+  return group ? group.filter((key) => filters[key] !== undefined) : [];
+}
+
+/**
+ * Whether a language code names a regional variant ("es-ES") rather than a base language ("es")
+ */
+function hasRegion(language: string): boolean {
+  return language.includes("-");
+}
+
+/**
+ * Apply the date range and one filter group to a chunk query. Chunks written before a field was
+ * denormalized match once their memo's next write or the backfill copies it onto them.
+ */
+export function applyMetadataFilters(query: Query, filters: ChatFilters | undefined): Query {
+  let filtered = query;
+  for (const key of queryFilterKeys(filters)) {
+    if (key === "category") filtered = filtered.where("category", "==", filters?.category);
+    if (key === "sentiment") filtered = filtered.where("sentiment", "==", filters?.sentiment);
+    if (key === "memoIds") filtered = filtered.where("memoId", "in", filters?.memoIds);
+    if (key === "tags") filtered = filtered.where("tags", "array-contains-any", filters?.tags);
+    if (key === "speakers") filtered = filtered.where("speakerKeys", "array-contains-any", filters?.speakers);
+    if (key === "language" && filters?.language) {
+      filtered = hasRegion(filters.language) ?
+        filtered.where("language", "==", filters.language) :
+        filtered.where("languageBase", "==", filters.language);
+    }
+  }
+  if (filters?.createdAfter) filtered = filtered.where("memoCreatedAt", ">=", filters.createdAfter);
+  if (filters?.createdBefore) filtered = filtered.where("memoCreatedAt", "<=", filters.createdBefore);
+  return filtered;
+}
+
+/**
+ * Whether any filter is left for matchesChunkFilters after the chunk query
+ */
+export function hasPostFilters(filters: ChatFilters | undefined): boolean {
+  if (!filters) return false;
+  const inQuery = new Set<keyof ChatFilters>([...queryFilterKeys(filters), "createdAfter", "createdBefore"]);
+  return (Object.keys(filters) as Array<keyof ChatFilters>)
+    .some((key) => filters[key] !== undefined && !inQuery.has(key));
+}
+
+/**
+ * Names of the speakers heard in a chunk, lowercase; unnamed speakers are "speaker <label>".
+ * Stored as speakerKeys by the indexer (speakerKeys in functions/src/indexing.ts); derived
+ * here for chunks written before that.
+ */
+export function chunkSpeakerNames(data: any): string[] {
+  if (Array.isArray(data.speakerKeys)) return data.speakerKeys.map(String);
+  const names = data.speakerNames && typeof data.speakerNames === "object" ? data.speakerNames : {};
+  return Array.from(new Set((Array.isArray(data.speakers) ? data.speakers : []).map((label: unknown) => {
+    const name = names[String(label)];
+    return (typeof name === "string" && name.trim() ? name.trim() : `Speaker ${label}`).toLowerCase();
+  })));
+}
+
+/**
+ * Whether a chunk's memo metadata matches every filter. Phrases and entities
+ * match on containment either way ("launch" ~ "phoenix launch").
+ */
+export function matchesChunkFilters(data: any, filters: ChatFilters | undefined): boolean {
+  if (!filters) return true;
+  if (filters.category && data.category !== filters.category) return false;
+  if (filters.sentiment && data.sentiment !== filters.sentiment) return false;
+  const matchesAny = (wanted: string[] | undefined, stored: unknown): boolean => {
+    if (!wanted || wanted.length === 0) return true;
+    const values = Array.isArray(stored) ? stored.map((v) => String(v).toLowerCase()) : [];
+    return wanted.some((w) => values.some((v) => v.includes(w) || w.includes(v)));
+  };
+  if (filters.tags && !(Array.isArray(data.tags) && filters.tags.some((tag) => data.tags.includes(tag)))) return false;
+  if (filters.memoIds && !filters.memoIds.includes(data.memoId)) return false;
+  if (filters.language) {
+    const language = typeof data.language === "string" ? data.language : "";
+    const languageBase = typeof data.languageBase === "string" ? data.languageBase : baseLanguage(language);
+    if (hasRegion(filters.language) ? language !== filters.language : languageBase !== filters.language) {
+      return false;
+    }
+  }
+  if (filters.createdAfter || filters.createdBefore) {
+    const createdAt: Date | undefined = data.memoCreatedAt?.toDate?.();
+    if (!createdAt) return false;
+    if (filters.createdAfter && createdAt < filters.createdAfter) return false;
+    if (filters.createdBefore && createdAt > filters.createdBefore) return false;
+  }
+  if (filters.speakers) {
+    const heard = chunkSpeakerNames(data);
+    if (!filters.speakers.some((speaker) => heard.includes(speaker))) return false;
+  }
+  return matchesAny(filters.keyPhrases, data.keyPhrases) && matchesAny(filters.entities, data.entities);
+}
@@ -0,0 +1,23 @@
+/**
+ * Document IDs of the chunks and keyword postings Cloud Functions write.
+ * The chat API reads both directly by ID, so these mirror chunkDocId in
+ * functions/src/indexing.ts and postingDocId in functions/src/keywordIndex.ts;
+ * mirrors.test.ts fails when they disagree.
+ */
+
+import {createHash} from "crypto";
+
+/**
+ * Chunk document ID for an embedding version
+ */
+export function chunkDocId(memoId: string, version: string, chunkIndex: number): string {
+  const versionKey = version.replace(/[^A-Za-z0-9_.-]+/g, "-");
+  return `${memoId}_${versionKey}_${chunkIndex}`;
+}
+
+/**
+ * Keyword posting document ID; terms are hashed because any letter may appear
+ */
+export function postingDocId(memoId: string, term: string): string {
+  return `${memoId}_${createHash("sha256").update(term, "utf8").digest("hex").substring(0, 16)}`;
+}
@@ -20,6 +20,7 @@ export enum ErrorCode {
   SERVICE_UNAVAILABLE = "SERVICE_UNAVAILABLE",
   TIMEOUT = "TIMEOUT",
   CIRCUIT_BREAKER_OPEN = "CIRCUIT_BREAKER_OPEN",
+  FILTER_NOT_SUPPORTED = "FILTER_NOT_SUPPORTED",
 }
 
 /**
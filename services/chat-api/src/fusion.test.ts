@@ -0,0 +1,93 @@
+/**
+ * Fusion Tests
+ * Reciprocal rank fusion of vector and keyword results, and its settings.
+ * Run with: npm test
+ */
+
+import {describe, expect, it} from "vitest";
+import {FusionConfig, fuseByRRF, loadFusionConfig} from "./fusion";
+
+const config: FusionConfig = {k: 60, weights: {vector: 1, keyword: 1}};
+const byId = (item: {id: string}) => item.id;
+
+describe("fuseByRRF", () => {
+  it("scores each result by weight / (k + rank)", () => {
+    const fused = fuseByRRF([{source: "vector", items: [{id: "a"}, {id: "b"}]}], byId, config);
+    expect(fused.map((r) => r.item.id)).toEqual(["a", "b"]);
+    expect(fused[0].score).toBeCloseTo(1 / 61);
+    expect(fused[1]).toMatchObject({ranks: {vector: 2}});
+    expect(fused[1].score).toBeCloseTo(1 / 62);
+  });
+
+  it("lifts results both retrievers agree on", () => {
+    const fused = fuseByRRF(
+      [
+        {source: "vector", items: [{id: "a"}, {id: "b"}, {id: "c"}]},
+        {source: "keyword", items: [{id: "c"}, {id: "d"}]},
+      ],
+      byId,
+      config
+    );
+    expect(fused[0].item.id).toBe("c");
+    expect(fused[0].ranks).toEqual({vector: 3, keyword: 1});
+    expect(fused[0].score).toBeCloseTo(1 / 63 + 1 / 61);
+  });
+
+  it("applies per-source weights", () => {
+    const fused = fuseByRRF(
+      [
+        {source: "vector", items: [{id: "a"}]},
+        {source: "keyword", items: [{id: "b"}]},
+      ],
+      byId,
+      {k: 60, weights: {vector: 1, keyword: 2}}
+    );
+    expect(fused.map((r) => r.item.id)).toEqual(["b", "a"]);
+  });
+
+  it("sums several lists from one source and keeps the best rank", () => {
+    const fused = fuseByRRF(
+      [
+        {source: "vector", items: [{id: "a"}, {id: "b"}]},
+        {source: "vector", items: [{id: "b"}]},
+      ],
+      byId,
+      config
+    );
+    expect(fused[0].item.id).toBe("b");
+    expect(fused[0].ranks).toEqual({vector: 1});
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it("counts a duplicate within one list once and keeps the first item", () => {
+    const fused = fuseByRRF(
+      [
+        {source: "keyword", items: [{id: "a", text: "first"}, {id: "a", text: "again"}]},
+        {source: "vector", items: [{id: "a", text: "vector"}]},
+      ],
+      byId,
+      config
+    );
+    expect(fused).toHaveLength(1);
+    expect(fused[0].item.text).toBe("first");
+    expect(fused[0].score).toBeCloseTo(2 / 61);
+  });
+
+  it("returns nothing for empty lists", () => {
+    expect(fuseByRRF([{source: "vector", items: []}], byId, config)).toEqual([]);
+  });
+});
+
+describe("loadFusionConfig", () => {
+  it("defaults to k = 60 and equal weights", () => {
+    expect(loadFusionConfig({})).toEqual(config);
+  });
+
+  it("reads the environment and ignores invalid values", () => {
+    expect(loadFusionConfig({RRF_K: "20", RRF_VECTOR_WEIGHT: "0.5", RRF_KEYWORD_WEIGHT: "-1"})).toEqual({
+      k: 20,
+      weights: {vector: 0.5, keyword: 1},
+    });
+    expect(loadFusionConfig({RRF_K: "many"}).k).toBe(60);
+  });
+});
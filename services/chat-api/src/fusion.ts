@@ -0,0 +1,90 @@
+/**
+ * Reciprocal Rank Fusion - merges ranked result lists from several retrievers
+ * (vector and keyword search) into one list. A result scores
+ * sum(weight / (k + rank)) over the lists it appears in, so agreement between
+ * retrievers and high ranks in any one of them both lift it.
+ */
+
+export type RetrievalSource = "vector" | "keyword";
+
+/**
+ * 1-based rank of a result in each list that returned it
+ */
+export type SourceRanks = Partial<Record<RetrievalSource, number>>;
+
+export interface FusionConfig {
+  k: number; // Rank offset; larger values flatten the gap between top and lower ranks
+  weights: Record<RetrievalSource, number>;
+}
+
+export interface FusedResult<T> {
+  item: T;
+  ranks: SourceRanks;
+  score: number;
+}
+
+const DEFAULT_RRF_K = 60;
+const DEFAULT_WEIGHT = 1;
+
+/**
+ * Read a non-negative number from the environment, falling back when unset or invalid
+ */
+function readNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Fusion settings from RRF_K, RRF_VECTOR_WEIGHT and RRF_KEYWORD_WEIGHT
+ */
+export function loadFusionConfig(env: NodeJS.ProcessEnv = process.env): FusionConfig {
+  return {
+    k: readNumber(env.RRF_K, DEFAULT_RRF_K),
+    weights: {
+      vector: readNumber(env.RRF_VECTOR_WEIGHT, DEFAULT_WEIGHT),
+      keyword: readNumber(env.RRF_KEYWORD_WEIGHT, DEFAULT_WEIGHT),
+    },
+  };
+}
+
+/**
+ * A ranked result list and the retriever that produced it
+ */
+export interface RankedList<T> {
+  source: RetrievalSource;
+  items: T[];
+}
+
+/**
+ * Fuse ranked lists by reciprocal rank. A source may contribute several lists
+ * (one per search query); every list adds to the score and an item's rank for
+ * the source is its best one. Items are identified by key; the first list that
+ * returned an item supplies the item kept in the result.
+ * Returns results by descending fused score.
+ */
+export function fuseByRRF<T>(
+  lists: RankedList<T>[],
+  keyOf: (item: T) => string,
+  config: FusionConfig
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  for (const {source, items} of lists) {
+    const weight = config.weights[source];
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      const key = keyOf(item);
+      if (seen.has(key)) return; // Duplicate within one list
+      seen.add(key);
+
+      const rank = index + 1;
+      const entry = fused.get(key) || {item, ranks: {}, score: 0};
+      entry.ranks[source] = Math.min(entry.ranks[source] ?? rank, rank);
+      entry.score += weight / (config.k + rank);
+      fused.set(key, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
@@ -3,11 +3,19 @@ import express, {Request, Response} from "express";
 import cors from "cors";
 import {initializeApp, applicationDefault} from "firebase-admin/app";
 import {getAuth} from "firebase-admin/auth";
-import {Firestore} from "@google-cloud/firestore";
+import {AggregateField, DocumentReference, Firestore, Query} from "@google-cloud/firestore";
 import {PredictionServiceClient, helpers} from "@google-cloud/aiplatform";
 import OpenAI from "openai";
 import RateLimiter from "./rateLimiter";
-import {validateChatRequest, validateUserId, sanitizeString} from "./validation";
+import {detectLanguage, getStopwords, keywordTerms, tokenize} from "./language";
+import {CorpusStats, KeywordPosting, scoreBM25} from "./bm25";
+import {applyMetadataFilters, hasPostFilters, matchesChunkFilters} from "./chunkFilters";
+import {chunkDocId, postingDocId} from "./documentIds";
+import {AccessToken, EmbeddingProvider, createEmbeddingProvider, createEmbeddingProviderForVersion} from "./embeddings";
+import {FusedResult, SourceRanks, fuseByRRF, loadFusionConfig} from "./fusion";
+import {createReranker, loadRerankConfig, rerankCandidates} from "./rerank";
+import {RewrittenQuery, loadQueryRewriteConfig, rewriteQuery, searchQueries} from "./queryRewrite";
+import {ChatFilters, validateChatRequest, validateUserId, sanitizeString} from "./validation";
 import {handleError, logError, ErrorCode, createErrorResponse} from "./errorHandler";
 
 // Load environment variables from .env.local
@@ -29,6 +37,70 @@ const aiplatform = new PredictionServiceClient({
   projectId: process.env.GCLOUD_PROJECT,
 });
 
+// Helper: Access token from Application Default Credentials for Vertex AI
+async function getGoogleAccessToken(): Promise<AccessToken> {
+  const {GoogleAuth} = require("google-auth-library");
+  const googleAuth = new GoogleAuth({
+    scopes: ["https://www.googleapis.com/auth/cloud-platform"],
+  });
+  const client = await googleAuth.getClient();
+  const {token} = await client.getAccessToken();
+  if (!token) {
+    throw new Error("No access token from application default credentials");
+  }
+  // Tokens usually live an hour; assume less when the client doesn't say
+  return {token, expiresAt: client.credentials?.expiry_date || Date.now() + 30 * 60 * 1000};
+}
+
+// Query embeddings must come from the same provider that indexed the chunks
+// (EMBEDDING_PROVIDER on the Cloud Functions): vertex | openai | local
+const embeddingProviderOptions = {
+  project: process.env.GCLOUD_PROJECT,
+  getAccessToken: getGoogleAccessToken,
+  openaiApiKey: process.env.OPENAI_API_KEY,
+};
+const embeddingProvider = createEmbeddingProvider(process.env.EMBEDDING_PROVIDER || "vertex", embeddingProviderOptions);
+
+// Chunks written before versions were recorded (see functions/src/indexing.ts)
+const LEGACY_EMBEDDING_VERSION = "gemini-embedding-001@1024";
+const EMBEDDING_CONFIG_TTL_MS = 60000;
+const versionProviders = new Map<string, EmbeddingProvider>([[embeddingProvider.version, embeddingProvider]]);
+let embeddingConfigCache: {activeVersion: string; fetchedAt: number} | null = null;
+
+// Helper: Embedding version retrieval reads; during a re-embedding backfill
+// config/embeddings keeps pointing at the old version until every memo has
+// chunks in the new one
+async function getActiveEmbeddingVersion(): Promise<string> {
+  if (embeddingConfigCache && Date.now() - embeddingConfigCache.fetchedAt < EMBEDDING_CONFIG_TTL_MS) {
+    return embeddingConfigCache.activeVersion;
+  }
+  try {
+    const snap = await withTimeout(db.doc("config/embeddings").get(), FIRESTORE_TIMEOUT_MS, "Embedding config");
+    const active = snap.data()?.activeVersion;
+    const activeVersion = typeof active === "string" && active ? active : embeddingProvider.version;
+    embeddingConfigCache = {activeVersion, fetchedAt: Date.now()};
+    return activeVersion;
+  } catch (error: any) {
+    console.warn("Failed to read embedding config, using cached or default version:", error.message);
+    return embeddingConfigCache?.activeVersion || embeddingProvider.version;
+  }
+}
+
+// Helper: Provider that embeds queries in the same space as a chunk version
+function getProviderForVersion(version: string): EmbeddingProvider {
+  let provider = versionProviders.get(version);
+  if (!provider) {
+    provider = createEmbeddingProviderForVersion(version, embeddingProviderOptions);
+    versionProviders.set(version, provider);
+  }
+  return provider;
+}
+
+// Helper: Embedding version of a stored chunk, including pre-versioning chunks
+function chunkEmbeddingVersion(data: any): string {
+  return data.embeddingVersion || data.embeddingModel || LEGACY_EMBEDDING_VERSION;
+}
+
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
   timeout: 30000, // 30 second timeout
@@ -42,6 +114,32 @@ const rateLimiter = new RateLimiter(db, 60000, 30);
 const FIRESTORE_TIMEOUT_MS = 10000;
 const EMBEDDING_TIMEOUT_MS = 15000;
 const OPENAI_TIMEOUT_MS = 60000;
+const RERANK_TIMEOUT_MS = 15000;
+const QUERY_REWRITE_TIMEOUT_MS = 8000;
+
+// Hybrid retrieval: vector and keyword results are merged by reciprocal rank
+// fusion (weights from RRF_K, RRF_VECTOR_WEIGHT, RRF_KEYWORD_WEIGHT) before MMR
+const fusionConfig = loadFusionConfig();
+
+// Follow-up questions are rewritten into standalone search queries, optionally
+// with expansions (QUERY_REWRITE, QUERY_EXPANSIONS, QUERY_REWRITE_MODEL)
+const queryRewriteConfig = loadQueryRewriteConfig();
+
+// Optional reranking after MMR (RERANKER, RERANK_POOL_SIZE, RERANK_THRESHOLD):
+// MMR then selects a larger pool, which the reranker trims to CONTEXT_CHUNKS
+const rerankConfig = loadRerankConfig();
+const reranker = createReranker(rerankConfig, {openai});
+
+const CONTEXT_CHUNKS = 12;
+const MMR_SELECTED = reranker ? Math.max(rerankConfig.poolSize, CONTEXT_CHUNKS) : CONTEXT_CHUNKS;
+const VECTOR_CANDIDATES = Math.max(20, MMR_SELECTED);
+const POST_FILTER_OVERFETCH = 5; // Nearest chunks fetched per candidate kept when filtering after the query
+const MAX_NEAREST_LIMIT = 1000; // Largest limit findNearest accepts
+const KEYWORD_POOL_SIZE = 100; // Chunks scanned when the user has no keyword index yet
+const KEYWORD_CANDIDATES = Math.max(20, MMR_SELECTED);
+const MAX_QUERY_TERMS = 10;
+const POSTINGS_PER_TERM = 200; // Memos read per query term, highest term frequency first
+const BM25_CHUNKS_FETCHED = KEYWORD_CANDIDATES * 3; // BM25 chunks loaded per page while filters are applied
 
 // Connection health tracking
 const connectionHealth = {
@@ -260,19 +358,66 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return denominator === 0 ? 0 : dotProduct / denominator;
 }
 
+// Retrieved transcript chunk used as model context and returned as a citation
+interface ContextChunk {
+  text: string;
+  memoId: string;
+  chunkIndex: number;
+  speakers?: string[]; // Diarized speaker labels (or names) heard in the chunk
+  speakerText?: string; // Chunk text broken into "Speaker N: ..." turns
+  startTime?: number; // Seconds into the recording where the chunk starts
+  endTime?: number; // Seconds into the recording where the chunk ends
+  ranks?: SourceRanks; // Rank in the vector and keyword result lists
+  fusedScore?: number; // Reciprocal rank fusion score
+  rerankScore?: number; // Reranker relevance, 0..1
+}
+
+// Retrieved chunk before selection; keyword-only hits may lack an embedding
+type RetrievalCandidate = ContextChunk & {
+  embedding?: number[];
+  terms?: string[];
+  language?: string;
+  relevance?: number; // Normalized fused score used by MMR in place of cosine similarity
+};
+
+// Helper: Strip the embedding from a candidate before it becomes context
+function toContextChunk(c: RetrievalCandidate): ContextChunk {
+  return {
+    text: c.text,
+    memoId: c.memoId,
+    chunkIndex: c.chunkIndex,
+    ...(c.speakers && c.speakers.length > 0 ? {speakers: c.speakers} : {}),
+    ...(c.speakerText ? {speakerText: c.speakerText} : {}),
+    ...(typeof c.startTime === "number" ? {startTime: c.startTime} : {}),
+    ...(typeof c.endTime === "number" ? {endTime: c.endTime} : {}),
+    ...(c.ranks ? {ranks: c.ranks} : {}),
+    ...(typeof c.fusedScore === "number" ? {fusedScore: c.fusedScore} : {}),
+    ...(typeof c.rerankScore === "number" ? {rerankScore: c.rerankScore} : {}),
+  };
+}
+
 // Helper: Maximal Marginal Relevance (MMR) selection
-// Balances relevance to query with diversity from already-selected items
+// Balances relevance to query with diversity from already-selected items.
+// Relevance is the candidate's fused score when set, otherwise cosine similarity
+// to the query; candidates without an embedding count as dissimilar to the rest.
 function selectByMMR(
-  candidates: Array<{text: string; embedding: number[]; memoId: string; chunkIndex: number}>,
-  queryEmbedding: number[],
+  candidates: RetrievalCandidate[],
+  queryEmbedding: number[] | null,
   k: number,
   lambda = 0.5
-): Array<{text: string; memoId: string; chunkIndex: number}> {
+): ContextChunk[] {
   if (candidates.length === 0) return [];
   if (candidates.length <= k) {
-    return candidates.map(c => ({text: c.text, memoId: c.memoId, chunkIndex: c.chunkIndex}));
+    return candidates.map(toContextChunk);
   }
 
+  const relevanceOf = (c: RetrievalCandidate): number => {
+    if (typeof c.relevance === "number") return c.relevance;
+    return c.embedding && queryEmbedding ? cosineSimilarity(c.embedding, queryEmbedding) : 0;
+  };
+  const similarity = (a: RetrievalCandidate, b: RetrievalCandidate): number =>
+    a.embedding && b.embedding ? cosineSimilarity(a.embedding, b.embedding) : 0;
+
   const selected: typeof candidates = [];
   const remaining = [...candidates];
 
@@ -280,7 +425,7 @@ function selectByMMR(
   let bestIdx = 0;
   let bestScore = -Infinity;
   for (let i = 0; i < remaining.length; i++) {
-    const relevance = cosineSimilarity(remaining[i].embedding, queryEmbedding);
+    const relevance = relevanceOf(remaining[i]);
     if (relevance > bestScore) {
       bestScore = relevance;
       bestIdx = i;
@@ -295,13 +440,12 @@ function selectByMMR(
     bestScore = -Infinity;
 
     for (let i = 0; i < remaining.length; i++) {
-      const relevance = cosineSimilarity(remaining[i].embedding, queryEmbedding);
+      const relevance = relevanceOf(remaining[i]);
 
       // Calculate max similarity to already selected items
       let maxSimilarityToSelected = 0;
       for (const s of selected) {
-        const sim = cosineSimilarity(remaining[i].embedding, s.embedding);
-        maxSimilarityToSelected = Math.max(maxSimilarityToSelected, sim);
+        maxSimilarityToSelected = Math.max(maxSimilarityToSelected, similarity(remaining[i], s));
       }
 
       // MMR score: balance relevance and diversity
@@ -316,27 +460,29 @@ function selectByMMR(
     remaining.splice(bestIdx, 1);
   }
 
-  return selected.map(c => ({text: c.text, memoId: c.memoId, chunkIndex: c.chunkIndex}));
+  return selected.map(toContextChunk);
 }
 
-// Helper: Hybrid search - keyword matching fallback
-function keywordSearch(
-  chunks: Array<{text: string; terms?: string[]; memoId: string; chunkIndex: number}>,
-  query: string,
-  limit: number
-): Array<{text: string; memoId: string; chunkIndex: number}> {
-  const queryTerms = query.toLowerCase().split(/\W+/).filter(t => t.length > 2);
+// Helper: Keyword scoring of a chunk pool, used until a user's keyword index exists
+// Uses Unicode-aware tokens and drops stopwords of both the query's language and each chunk's language.
+// Returns matching chunks best first.
+function keywordSearch<T extends RetrievalCandidate>(chunks: T[], query: string, limit: number): T[] {
+  const queryStopwords = getStopwords(detectLanguage(query));
+  const queryTokens = tokenize(query).filter(t => t.length > 2 && !queryStopwords.has(t));
 
   // Score chunks by keyword matches
   const scored = chunks.map(chunk => {
     let score = 0;
-    const chunkText = chunk.text.toLowerCase();
+    const chunkStopwords = getStopwords(chunk.language);
+    const queryTerms = queryTokens.filter(t => !chunkStopwords.has(t));
 
     // Match query terms in text
+    const tokenCounts = new Map<string, number>();
+    for (const token of tokenize(chunk.text)) {
+      tokenCounts.set(token, (tokenCounts.get(token) || 0) + 1);
+    }
     for (const term of queryTerms) {
-      const regex = new RegExp(`\\b${term}\\b`, "g");
-      const matches = chunkText.match(regex);
-      score += (matches?.length || 0) * 2;
+      score += (tokenCounts.get(term) || 0) * 2;
     }
 
     // Match chunk terms if available
@@ -355,7 +501,7 @@ function keywordSearch(
     .filter(s => s.score > 0)
     .sort((a, b) => b.score - a.score)
     .slice(0, limit)
-    .map(s => ({text: s.chunk.text, memoId: s.chunk.memoId, chunkIndex: s.chunk.chunkIndex}));
+    .map(s => s.chunk);
 }
 
 // Helper: Summarize conversation history for context
@@ -397,9 +543,7 @@ function summarizeConversationHistory(
 }
 
 // Helper: Deduplicate chunks by memoId and chunkIndex
-function deduplicateChunks(
-  chunks: Array<{text: string; memoId: string; chunkIndex: number}>
-): Array<{text: string; memoId: string; chunkIndex: number}> {
+function deduplicateChunks(chunks: ContextChunk[]): ContextChunk[] {
   const seen = new Set<string>();
   const result = [];
 
@@ -414,6 +558,281 @@ function deduplicateChunks(
   return result;
 }
 
+// Helper: Replace diarized speaker labels with the names users assigned on their memos
+// (memo.speakerNames maps a label such as "1" to a name such as "Sam")
+async function applySpeakerNames(userId: string, chunks: ContextChunk[]): Promise<ContextChunk[]> {
+  const memoIds = Array.from(new Set(
+    chunks.filter(c => c.speakers && c.speakers.length > 0).map(c => c.memoId)
+  ));
+  if (memoIds.length === 0) return chunks;
+
+  const memosColl = db.collection("users").doc(userId).collection("memos");
+  const memoSnaps = await withTimeout(
+    db.getAll(...memoIds.map(id => memosColl.doc(id))),
+    FIRESTORE_TIMEOUT_MS,
+    "Speaker name lookup"
+  );
+
+  const namesByMemo = new Map<string, Record<string, string>>();
+  for (const snap of memoSnaps) {
+    const names = snap.data()?.speakerNames;
+    if (names && typeof names === "object") {
+      namesByMemo.set(snap.id, names);
+    }
+  }
+
+  return chunks.map(c => {
+    const names = namesByMemo.get(c.memoId) || {};
+    if (!c.speakers) return c;
+    const nameFor = (label: string) => (typeof names[label] === "string" && names[label].trim()) || `Speaker ${label}`;
+    return {
+      ...c,
+      speakers: c.speakers.map(nameFor),
+      speakerText: c.speakerText?.replace(/^Speaker (\S+):/gm, (match, label) => `${nameFor(label)}:`),
+    };
+  });
+}
+
+// Helper: Read the optional diarization fields stored on a chunk document
+function readSpeakerFields(data: any): Pick<ContextChunk, "speakers" | "speakerText"> {
+  return {
+    speakers: Array.isArray(data.speakers) ? data.speakers.map(String) : undefined,
+    speakerText: typeof data.speakerText === "string" && data.speakerText ? data.speakerText.substring(0, 4000) : undefined,
+  };
+}
+
+// Helper: Read the audio time range stored on a chunk document (absent for untimed transcripts)
+function readTimeFields(data: any): Pick<ContextChunk, "startTime" | "endTime"> {
+  return {
+    startTime: typeof data.startTime === "number" ? data.startTime : undefined,
+    endTime: typeof data.endTime === "number" ? data.endTime : undefined,
+  };
+}
+
+// Helper: Whether a Firestore query failed for lack of a composite index, i.e. its
+// filter combination has no entry in firestore.indexes.json or it isn't deployed
+function isMissingIndexError(error: any): boolean {
+  return error?.code === 9 || String(error?.message || "").includes("FAILED_PRECONDITION");
+}
+
+// Helper: Read a chunk document into a retrieval candidate (null when it lacks the required fields)
+function readCandidate(data: any): RetrievalCandidate | null {
+  if (!data.text || !data.memoId || typeof data.chunkIndex !== "number") return null;
+  return {
+    text: String(data.text).substring(0, 2000),
+    memoId: String(data.memoId),
+    chunkIndex: data.chunkIndex,
+    embedding: Array.isArray(data.embedding?.value) ? data.embedding.value : undefined,
+    terms: Array.isArray(data.terms) ? data.terms : [],
+    language: typeof data.language === "string" ? data.language : undefined,
+    ...readSpeakerFields(data),
+    ...readTimeFields(data),
+  };
+}
+
+// Helper: Vector retrieval - nearest chunks to each embedded query, best first.
+// All queries are embedded in one request; returns one candidate list per query.
+async function retrieveByVector(
+  coll: Query,
+  queries: string[],
+  activeVersion: string,
+  filters: ChatFilters | undefined,
+  postFiltered: boolean
+): Promise<{queryVecs: number[][]; lists: RetrievalCandidate[][]}> {
+  const queryProvider = getProviderForVersion(activeVersion);
+  console.log("Embedding", queries.length, "queries with provider:", queryProvider.name, queryProvider.version);
+
+  const embedded = await withTimeout(
+    queryProvider.embed(queries, "query"),
+    EMBEDDING_TIMEOUT_MS,
+    "Embedding generation"
+  );
+
+  const queryVecs = embedded.filter((vec): vec is number[] => !!vec && vec.length > 0);
+  if (queryVecs.length !== queries.length) {
+    throw new Error("No embedding generated");
+  }
+
+  console.log("Queries embedded, vector dimension:", queryVecs[0].length);
+
+  const lists = await Promise.all(queryVecs.map((queryVec) => searchNearest(coll, queryVec, activeVersion, filters, postFiltered)));
+  return {queryVecs, lists};
+}
+
+// Helper: Nearest chunks to one query vector in the active embedding version
+async function searchNearest(
+  coll: Query,
+  queryVec: number[],
+  activeVersion: string,
+  filters: ChatFilters | undefined,
+  postFiltered: boolean
+): Promise<RetrievalCandidate[]> {
+  const runVectorQuery = (versionFilter: boolean) => {
+    let filtered = coll.where("memoDeleted", "==", false); // Filter out deleted memos
+    if (versionFilter) {
+      // Only vectors comparable to the query. The filter indexes all include embeddingVersion,
+      // so the unversioned legacy fallback filters its results instead.
+      filtered = applyMetadataFilters(filtered, filters).where("embeddingVersion", "==", activeVersion);
+    }
+    const filteredAfter = postFiltered || (!versionFilter && !!filters);
+    // @ts-ignore - Vector types present in server SDK
+    const vectorQuery = filtered.findNearest({
+      vectorField: "embedding",
+      queryVector: queryVec,
+      // Get more candidates when filtering after the query
+      limit: filteredAfter ? Math.min(VECTOR_CANDIDATES * POST_FILTER_OVERFETCH, MAX_NEAREST_LIMIT) : VECTOR_CANDIDATES,
+      distanceMeasure: "COSINE",
+    });
+    return withTimeout(vectorQuery.get(), FIRESTORE_TIMEOUT_MS, "Vector search") as Promise<any>;
+  };
+
+  let snap = await runVectorQuery(true);
+  // Chunks indexed before versions were recorded have no embeddingVersion
+  // field until the backfill rewrites them
+  let unversioned = false;
+  if (snap.empty && activeVersion === LEGACY_EMBEDDING_VERSION) {
+    snap = await runVectorQuery(false);
+    unversioned = true;
+  }
+
+  const candidates: RetrievalCandidate[] = [];
+  snap.forEach((doc: any) => {
+    const data = doc.data();
+    if (unversioned && chunkEmbeddingVersion(data) !== activeVersion) return;
+    if (!matchesChunkFilters(data, filters)) return;
+    const candidate = readCandidate(data);
+    if (candidate?.embedding) candidates.push(candidate);
+  });
+
+  return candidates.slice(0, VECTOR_CANDIDATES);
+}
+
+// Helper: BM25 retrieval over the user's keyword index (maintained by onTranscriptWrite).
+// Returns null when the user has no index yet.
+async function retrieveByBM25(
+  userRef: DocumentReference,
+  query: string,
+  activeVersion: string,
+  filters: ChatFilters | undefined
+): Promise<RetrievalCandidate[] | null> {
+  const terms = Array.from(new Set(keywordTerms(query, detectLanguage(query)))).slice(0, MAX_QUERY_TERMS);
+  const postingsColl = userRef.collection("keywordPostings");
+
+  // Corpus size and document frequencies are summed from the index at query time
+  const [corpusSnap, ...dfSnaps] = await withTimeout(
+    Promise.all([
+      userRef.collection("keywordMemos").aggregate({
+        chunkCount: AggregateField.sum("chunkCount"),
+        totalLength: AggregateField.sum("totalLength"),
+      }).get(),
+      ...terms.map((term) =>
+        postingsColl.where("term", "==", term).aggregate({df: AggregateField.sum("chunkCount")}).get()
+      ),
+    ]),
+    FIRESTORE_TIMEOUT_MS,
+    "Keyword index stats"
+  );
+  const corpus = corpusSnap.data();
+  if (!corpus.chunkCount) return null;
+  if (terms.length === 0) return [];
+
+  const stats: CorpusStats = {
+    chunkCount: corpus.chunkCount,
+    totalLength: corpus.totalLength || 0,
+    documentFrequency: new Map(terms.map((term, i) => [term, dfSnaps[i].data().df || 0])),
+  };
+
+  // With a memo filter the postings are read directly by ID; otherwise the
+  // memos where each term is most frequent
+  const memoIds = filters?.memoIds;
+  const postings: KeywordPosting[] = memoIds ?
+    (await withTimeout(
+      db.getAll(...memoIds.flatMap((memoId) => terms.map((term) => postingsColl.doc(postingDocId(memoId, term))))),
+      FIRESTORE_TIMEOUT_MS,
+      "Keyword postings"
+    )).filter((snap) => snap.exists).map((snap) => snap.data() as KeywordPosting) :
+    (await withTimeout(
+      Promise.all(terms.map((term) =>
+        postingsColl.where("term", "==", term).orderBy("maxTf", "desc").limit(POSTINGS_PER_TERM).get()
+      )),
+      FIRESTORE_TIMEOUT_MS,
+      "Keyword postings"
+    )).flatMap((snap) => snap.docs.map((doc) => doc.data() as KeywordPosting));
+  const scored = scoreBM25(postings, stats);
+
+  // Load the scored chunks in the active embedding version, best first, a page at a
+  // time until enough of them pass the filters (postings carry no memo metadata)
+  const chunksColl = userRef.collection("chunks");
+  const candidates: RetrievalCandidate[] = [];
+  for (let start = 0; start < scored.length && candidates.length < KEYWORD_CANDIDATES; start += BM25_CHUNKS_FETCHED) {
+    const chunkSnaps = await withTimeout(
+      db.getAll(...scored.slice(start, start + BM25_CHUNKS_FETCHED)
+        .map((c) => chunksColl.doc(chunkDocId(c.memoId, activeVersion, c.chunkIndex)))),
+      FIRESTORE_TIMEOUT_MS,
+      "Keyword chunk lookup"
+    );
+    for (const snap of chunkSnaps) {
+      const data = snap.data();
+      if (!data || data.memoDeleted === true) continue;
+      if (!matchesChunkFilters(data, filters)) continue;
+      const candidate = readCandidate(data);
+      if (candidate) candidates.push(candidate);
+      if (candidates.length >= KEYWORD_CANDIDATES) break;
+    }
+  }
+  return candidates;
+}
+
+// Helper: Keyword retrieval - BM25 over the keyword index; users whose memos predate the index
+// (until the backfill or their next memo write) get a scan of a pool of their chunks instead.
+// Returns one candidate list per query.
+async function retrieveByKeyword(
+  userRef: DocumentReference,
+  queries: string[],
+  activeVersion: string,
+  filters: ChatFilters | undefined
+): Promise<RetrievalCandidate[][]> {
+  const indexed = await Promise.all(queries.map((query) => retrieveByBM25(userRef, query, activeVersion, filters)));
+  if (indexed.every((list) => list !== null)) return indexed as RetrievalCandidate[][];
+
+  const snap = await withTimeout(
+    applyMetadataFilters(userRef.collection("chunks").where("memoDeleted", "==", false), filters)
+      .limit(hasPostFilters(filters) ? KEYWORD_POOL_SIZE * POST_FILTER_OVERFETCH : KEYWORD_POOL_SIZE)
+      .get(),
+    FIRESTORE_TIMEOUT_MS,
+    "Keyword search"
+  );
+
+  const chunks: RetrievalCandidate[] = [];
+  snap.forEach((doc: any) => {
+    const data = doc.data();
+    // Each memo has one chunk set per version while a backfill runs
+    if (chunkEmbeddingVersion(data) !== activeVersion) return;
+    if (!matchesChunkFilters(data, filters)) return;
+    const candidate = readCandidate(data);
+    if (candidate) chunks.push(candidate);
+  });
+
+  return queries.map((query) => keywordSearch(chunks, query, KEYWORD_CANDIDATES));
+}
+
+// Helper: Turn fused results into MMR candidates, scaling the fused score to 0..1 as relevance
+function toFusedCandidates(fused: FusedResult<RetrievalCandidate>[]): RetrievalCandidate[] {
+  const top = fused[0]?.score || 0;
+  return fused.map(({item, ranks, score}) => ({
+    ...item,
+    ranks,
+    fusedScore: score,
+    relevance: top > 0 ? score / top : 0,
+  }));
+}
+
+// Helper: Format seconds as m:ss for context headers
+function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
 // Chat endpoint with RAG and streaming
 app.post("/chat", async (req: Request, res: Response) => {
   let streamStarted = false;
@@ -466,6 +885,8 @@ app.post("/chat", async (req: Request, res: Response) => {
     }
 
     const {messages, sessionId: reqSessionId} = validation.sanitized;
+    const filters: ChatFilters | undefined = validation.sanitized.filters;
+    const postFiltered = hasPostFilters(filters);
 
     // Get the latest user message
     const latestUser = messages
@@ -491,10 +912,41 @@ app.post("/chat", async (req: Request, res: Response) => {
       sessionId,
       messageLength: latestUser.length,
       messageCount: messages.length,
+      filters,
     });
 
+    // Resolve follow-ups ("what about the second one?") into standalone search queries;
+    // on failure the latest turn is searched as typed
+    let searchQuery: RewrittenQuery = {query: latestUser, expansions: [], rewritten: false};
+    const rewriteStart = Date.now();
+    try {
+      searchQuery = await withTimeout(
+        rewriteQuery(openai, queryRewriteConfig, messages),
+        QUERY_REWRITE_TIMEOUT_MS,
+        "Query rewrite"
+      );
+      if (searchQuery.rewritten) {
+        logStructured("info", "query_rewritten", {
+          requestId,
+          uid: userId,
+          sessionId,
+          queryLength: searchQuery.query.length,
+          expansions: searchQuery.expansions.length,
+          durationMs: Date.now() - rewriteStart,
+        });
+      }
+    } catch (rewriteError: any) {
+      logStructured("warn", "query_rewrite_failed", {
+        requestId,
+        uid: userId,
+        sessionId,
+        reason: rewriteError.message,
+      });
+    }
+    const queries = searchQueries(searchQuery);
+
     // 1) Try to get chunks from Firestore first (with or without vector search)
-    let contexts: Array<{text: string; memoId: string; chunkIndex: number}> = [];
+    let contexts: ContextChunk[] = [];
 
     try {
       logStructured("info", "retriever_start", {
@@ -541,160 +993,92 @@ app.post("/chat", async (req: Request, res: Response) => {
       }
 
       if (checkSnap.size > 0) {
-        // Try vector search first with circuit breaker
-        try {
-          await embeddingCircuitBreaker.execute(async () => {
-            const endpoint = `projects/${process.env.GCLOUD_PROJECT}/locations/us-central1/publishers/google/models/gemini-embedding-001`;
-            console.log("Attempting vector embedding with endpoint:", endpoint);
-
-            // Use REST API instead of gRPC for better reliability
-            const url = `https://us-central1-aiplatform.googleapis.com/v1/${endpoint}:predict`;
-
-            // Get access token from application default credentials
-            const {GoogleAuth} = require("google-auth-library");
-            const auth = new GoogleAuth({
-              scopes: ["https://www.googleapis.com/auth/cloud-platform"],
-            });
-            const client = await auth.getClient();
-            const token = await client.getAccessToken();
-
-            const requestBody = {
-              instances: [{
-                content: latestUser,
-                task_type: "RETRIEVAL_QUERY",
-              }],
-              parameters: {
-                outputDimensionality: 1024,
-                autoTruncate: true,
-              },
-            };
-
-            console.log("Calling embedding API via REST:", url);
-
-            const response = await withTimeout(
-              fetch(url, {
-                method: "POST",
-                headers: {
-                  "Authorization": `Bearer ${token.token}`,
-                  "Content-Type": "application/json",
-                },
-                body: JSON.stringify(requestBody),
-              }).then(async (res) => {
-                if (!res.ok) {
-                  const errorText = await res.text();
-                  throw new Error(`API error ${res.status}: ${errorText}`);
-                }
-                return res.json();
-              }),
-              EMBEDDING_TIMEOUT_MS,
-              "Embedding generation"
-            );
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const queryVec = ((response as any)?.predictions?.[0] as any)?.embeddings
-              ?.values as number[];
-
-            if (!queryVec || !Array.isArray(queryVec) || queryVec.length === 0) {
-              console.warn("Failed to generate query embedding, using fallback");
-              throw new Error("No embedding generated");
-            }
-
-            console.log("Query embedded, vector dimension:", queryVec.length);
-
-            // Vector search in Firestore with MMR and deduplication
-            try {
-              // @ts-ignore - Vector types present in server SDK
-              const vectorQuery = coll
-                .where("memoDeleted", "==", false) // Filter out deleted memos
-                .findNearest({
-                  vectorField: "embedding",
-                  queryVector: queryVec,
-                  limit: 20, // Get more candidates for MMR selection
-                  distanceMeasure: "COSINE",
-                });
-
-              // @ts-ignore
-              const snap = await withTimeout(
-                vectorQuery.get(),
-                FIRESTORE_TIMEOUT_MS,
-                "Vector search"
-              );
-
-              // Collect candidates with embeddings for MMR
-              const candidates: Array<{text: string; embedding: number[]; memoId: string; chunkIndex: number}> = [];
-              // @ts-ignore
-              snap.forEach((doc: any) => {
-                const data = doc.data();
-                if (data.text && data.memoId && typeof data.chunkIndex === "number" && Array.isArray(data.embedding?.value)) {
-                  candidates.push({
-                    text: String(data.text).substring(0, 2000),
-                    embedding: data.embedding.value,
-                    memoId: String(data.memoId),
-                    chunkIndex: data.chunkIndex,
-                  });
-                }
-              });
-
-              // Apply MMR for diversity
-              const mmrSelected = selectByMMR(candidates, queryVec, 12, 0.5);
-              contexts.push(...mmrSelected);
-
-              logStructured("info", "retriever_vector_search_success", {
-                requestId,
-                uid: userId,
-                sessionId,
-                candidatesCount: candidates.length,
-                selectedCount: mmrSelected.length,
-              });
-            } catch (vectorError: any) {
-              console.warn("Vector search failed:", vectorError.message);
-              throw vectorError;
-            }
-          }, "embedding-service");
-        } catch (embeddingError: any) {
-          console.warn("Embedding/vector search failed, using hybrid keyword fallback:", embeddingError.message);
+        const activeVersion = await getActiveEmbeddingVersion();
+
+        // Vector (behind the circuit breaker) and keyword retrieval run side by side,
+        // each searching every query
+        const [vectorOutcome, keywordOutcome] = await Promise.allSettled([
+          embeddingCircuitBreaker.execute(
+            () => retrieveByVector(coll, queries, activeVersion, filters, postFiltered),
+            "embedding-service"
+          ),
+          retrieveByKeyword(db.collection("users").doc(userId), queries, activeVersion, filters),
+        ]);
+
+        // A filter combination without an index fails every time; report it rather than
+        // answering from whatever the other retriever found
+        const indexFailure = [vectorOutcome, keywordOutcome].find(
+          (outcome): outcome is PromiseRejectedResult => outcome.status === "rejected" && isMissingIndexError(outcome.reason)
+        );
+        if (indexFailure) {
+          logStructured("error", "retriever_missing_index", {
+            requestId,
+            uid: userId,
+            sessionId,
+            filters,
+            reason: indexFailure.reason?.message,
+          });
+          const errorResp = createErrorResponse(
+            ErrorCode.FILTER_NOT_SUPPORTED,
+            "These chat filters cannot be searched yet",
+            422,
+            requestId
+          );
+          return res.status(422).json(errorResp);
+        }
+
+        let queryVec: number[] | null = null;
+        let vectorLists: RetrievalCandidate[][] = [];
+        if (vectorOutcome.status === "fulfilled") {
+          queryVec = vectorOutcome.value.queryVecs[0]; // MMR relevance is measured against the rewritten query
+          vectorLists = vectorOutcome.value.lists;
+        } else {
+          console.warn("Embedding/vector search failed, using keyword results only:", vectorOutcome.reason?.message);
           logStructured("warn", "retriever_fallback_to_keyword", {
             requestId,
             uid: userId,
             sessionId,
-            reason: embeddingError.message,
+            reason: vectorOutcome.reason?.message,
           });
+        }
 
-          // Fallback: hybrid keyword search
-          try {
-            const snap = await withTimeout(
-              coll.where("memoDeleted", "==", false).limit(50).get(),
-              FIRESTORE_TIMEOUT_MS,
-              "Fallback search"
-            );
-
-            const chunks: Array<{text: string; terms?: string[]; memoId: string; chunkIndex: number}> = [];
-            snap.forEach((doc: any) => {
-              const data = doc.data();
-              if (data.text && data.memoId && typeof data.chunkIndex === "number") {
-                chunks.push({
-                  text: String(data.text).substring(0, 2000),
-                  terms: Array.isArray(data.terms) ? data.terms : [],
-                  memoId: String(data.memoId),
-                  chunkIndex: data.chunkIndex,
-                });
-              }
-            });
-
-            // Apply keyword search scoring
-            const keywordResults = keywordSearch(chunks, latestUser, 12);
-            contexts.push(...keywordResults);
-            console.log("Hybrid keyword search found", contexts.length, "chunks");
-          } catch (fallbackError: any) {
-            console.warn("Fallback search also failed:", fallbackError.message);
-            logStructured("error", "retriever_fallback_failed", {
-              requestId,
-              uid: userId,
-              sessionId,
-              reason: fallbackError.message,
-            });
-          }
+        let keywordLists: RetrievalCandidate[][] = [];
+        if (keywordOutcome.status === "fulfilled") {
+          keywordLists = keywordOutcome.value;
+        } else {
+          console.warn("Keyword search failed:", keywordOutcome.reason?.message);
+          logStructured(vectorOutcome.status === "fulfilled" ? "warn" : "error", "retriever_keyword_failed", {
+            requestId,
+            uid: userId,
+            sessionId,
+            reason: keywordOutcome.reason?.message,
+          });
         }
+
+        // Reciprocal rank fusion over every query's results, then MMR for diversity
+        const fused = fuseByRRF(
+          [
+            ...vectorLists.map((items) => ({source: "vector" as const, items})),
+            ...keywordLists.map((items) => ({source: "keyword" as const, items})),
+          ],
+          (c) => `${c.memoId}:${c.chunkIndex}`,
+          fusionConfig
+        );
+        const selected = selectByMMR(toFusedCandidates(fused), queryVec, MMR_SELECTED, 0.5);
+        contexts.push(...selected);
+
+        logStructured("info", "retriever_hybrid_search_success", {
+          requestId,
+          uid: userId,
+          sessionId,
+          embeddingVersion: activeVersion,
+          queryCount: queries.length,
+          vectorCount: vectorLists.reduce((sum, list) => sum + list.length, 0),
+          keywordCount: keywordLists.reduce((sum, list) => sum + list.length, 0),
+          fusedCount: fused.length,
+          selectedCount: selected.length,
+          fusion: fusionConfig,
+        });
       } else {
         console.log("No chunks found for user");
       }
@@ -702,15 +1086,58 @@ app.post("/chat", async (req: Request, res: Response) => {
       console.warn("Error retrieving chunks:", error.message);
     }
 
+    // Rerank the MMR selection and drop weak context; on failure keep the MMR order
+    if (reranker && contexts.length > 0) {
+      const rerankStart = Date.now();
+      try {
+        const {kept, dropped} = await withTimeout(
+          rerankCandidates(reranker, searchQuery.query, contexts, rerankConfig.threshold, CONTEXT_CHUNKS),
+          RERANK_TIMEOUT_MS,
+          "Rerank"
+        );
+        logStructured("info", "rerank_complete", {
+          requestId,
+          uid: userId,
+          sessionId,
+          reranker: reranker.name,
+          candidates: contexts.length,
+          kept: kept.length,
+          dropped,
+          threshold: rerankConfig.threshold,
+          durationMs: Date.now() - rerankStart,
+        });
+        contexts = kept;
+      } catch (rerankError: any) {
+        logStructured("warn", "rerank_failed", {
+          requestId,
+          uid: userId,
+          sessionId,
+          reranker: reranker.name,
+          reason: rerankError.message,
+        });
+        contexts = contexts.slice(0, CONTEXT_CHUNKS);
+      }
+    }
+
     console.log("Found", contexts.length, "relevant chunks before deduplication");
 
     // Deduplicate chunks
-    const deduplicatedContexts = deduplicateChunks(contexts);
+    let deduplicatedContexts = deduplicateChunks(contexts);
     console.log("After deduplication:", deduplicatedContexts.length, "chunks");
 
+    try {
+      deduplicatedContexts = await applySpeakerNames(userId, deduplicatedContexts);
+    } catch (error: any) {
+      console.warn("Failed to resolve speaker names:", error.message);
+    }
+
     // 3) Build context with citations
+    // Diarized chunks are passed as speaker turns so answers can attribute who said what
     const contextBlocks = deduplicatedContexts
-      .map((c) => `— [memo:${c.memoId} #${c.chunkIndex}] ${c.text}`)
+      .map((c) => {
+        const at = typeof c.startTime === "number" ? ` (at ${formatTimestamp(c.startTime)})` : "";
+        return `— [memo:${c.memoId} #${c.chunkIndex}]${at} ${c.speakerText ? `\n${c.speakerText}` : c.text}`;
+      })
       .join("\n");
 
     // Summarize conversation history for context
@@ -720,6 +1147,7 @@ app.post("/chat", async (req: Request, res: Response) => {
 Use the provided excerpts from the user's voice memo history to answer questions.
 If you quote or reference information, cite it like [memo:<id>#<chunk>].
 If the information needed to answer is not in the provided context, say so briefly.
+Excerpts from multi-person recordings are split into speaker turns; attribute statements to the speaker who made them.
 Be concise and helpful.
 Always provide accurate citations for any information you reference.`;
 
@@ -732,13 +1160,25 @@ Always provide accurate citations for any information you reference.`;
 
     streamStarted = true;
 
-    // Send initial context/citations
+    // Report what was searched, then the context/citations
+    res.write(`data: ${JSON.stringify({
+      type: "query",
+      query: searchQuery.query,
+      expansions: searchQuery.expansions,
+      rewritten: searchQuery.rewritten,
+    })}\n\n`);
+
     res.write(`data: ${JSON.stringify({
       type: "citations",
       citations: deduplicatedContexts.map((c) => ({
         memoId: c.memoId,
         chunkIndex: c.chunkIndex,
         text: c.text,
+        ...(c.speakers ? {speakers: c.speakers} : {}),
+        ...(typeof c.startTime === "number" ? {startTime: c.startTime, endTime: c.endTime} : {}),
+        ...(c.ranks ? {ranks: c.ranks} : {}),
+        ...(typeof c.fusedScore === "number" ? {fusedScore: c.fusedScore} : {}),
+        ...(typeof c.rerankScore === "number" ? {rerankScore: c.rerankScore} : {}),
       })),
     })}\n\n`);
 
@@ -0,0 +1,61 @@
+/**
+ * Mirror Tests
+ * Cloud Functions index memos and this service queries them, so both must
+ * tokenize, embed and name documents the same way. The functions source is
+ * deployed on its own, so shared modules are copied rather than imported;
+ * these tests fail when a copy drifts from its original.
+ */
+
+import {readFileSync} from "node:fs";
+import path from "node:path";
+import {describe, expect, it} from "vitest";
+import {MEMO_CATEGORIES as FUNCTIONS_CATEGORIES} from "../../../functions/src/enrichment";
+import {chunkDocId as functionsChunkDocId} from "../../../functions/src/indexing";
+import {postingDocId as functionsPostingDocId} from "../../../functions/src/keywordIndex";
+import {normalizeTag as functionsNormalizeTag} from "../../../functions/src/tags";
+import {chunkDocId, postingDocId} from "./documentIds";
+import {MEMO_CATEGORIES, normalizeTag} from "./validation";
+
+const FUNCTIONS_SRC = path.resolve(__dirname, "../../../functions/src");
+
+// Source without the leading doc comment, which names the other copy
+function moduleBody(file: string): string {
+  return readFileSync(file, "utf8").replace(/^\/\*\*[\s\S]*?\*\/\s*/, "");
+}
+
+describe("mirrored modules", () => {
+  it.each(["language.ts", "embeddings.ts"])("%s matches functions/src", (name) => {
+    expect(moduleBody(path.join(__dirname, name))).toBe(moduleBody(path.join(FUNCTIONS_SRC, name)));
+  });
+});
+
+describe("mirrored values", () => {
+  it("accepts the categories enrichment assigns", () => {
+    expect(MEMO_CATEGORIES).toEqual([...FUNCTIONS_CATEGORIES]);
+  });
+
+  it.each([
+    "Product Launch",
+    "#roadmap",
+    "  Q3 / planning  ",
+    "Café-Besuch",
+    "東京 出張",
+    "a-very-long-tag-that-goes-past-thirty-characters",
+  ])("normalizes tag %j like functions", (tag) => {
+    expect(normalizeTag(tag)).toBe(functionsNormalizeTag(tag));
+  });
+});
+
+describe("mirrored document IDs", () => {
+  it.each([
+    ["memo1", "vertex:text-embedding-004@1024", 0],
+    ["memo1", "openai/text-embedding-3-small", 12],
+    ["a_b-c", "legacy", 3],
+  ])("names chunk %s/%s/%i like functions", (memoId, version, chunkIndex) => {
+    expect(chunkDocId(memoId, version, chunkIndex)).toBe(functionsChunkDocId(memoId, version, chunkIndex));
+  });
+
+  it.each(["launch", "café", "東京", "ünïcödé"])("names the posting for %s like functions", (term) => {
+    expect(postingDocId("memo1", term)).toBe(functionsPostingDocId("memo1", term));
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Query Rewrite Tests
+ * Rewriting settings and turning the latest turn into standalone search
+ * queries (model faked).
+ * Run with: npm test
+ */
+
+import {describe, expect, it, vi} from "vitest";
+import type OpenAI from "openai";
+import {QueryRewriteConfig, loadQueryRewriteConfig, rewriteQuery, searchQueries} from "./queryRewrite";
+
+// Chat client whose completions reply with the given JSON
+function fakeOpenAI(reply: unknown) {
+  const create = vi.fn(async () => ({choices: [{message: {content: JSON.stringify(reply)}}]}));
+  return {client: {chat: {completions: {create}}} as unknown as OpenAI, create};
+}
+
+const config: QueryRewriteConfig = {enabled: true, expansions: 0, model: "gpt-4o-mini", historyTurns: 6};
+
+const conversation = [
+  {role: "system" as const, content: "You answer questions about memos."},
+  {role: "user" as const, content: "What marketing ideas came up on Tuesday?"},
+  {role: "assistant" as const, content: "Two: a podcast and a referral program."},
+  {role: "user" as const, content: "Tell me more about the second one"},
+];
+
+describe("loadQueryRewriteConfig", () => {
+  it("rewrites without expansions by default", () => {
+    expect(loadQueryRewriteConfig({})).toEqual(config);
+  });
+
+  it("reads the environment", () => {
+    expect(loadQueryRewriteConfig({QUERY_REWRITE: " Off ", QUERY_EXPANSIONS: "9", OPENAI_MODEL: "gpt-4o"}))
+      .toMatchObject({enabled: false, expansions: 4, model: "gpt-4o"});
+    expect(loadQueryRewriteConfig({QUERY_REWRITE: "0", QUERY_REWRITE_MODEL: "small"}))
+      .toMatchObject({enabled: false, model: "small"});
+    expect(loadQueryRewriteConfig({QUERY_EXPANSIONS: "1.5"}).expansions).toBe(0);
+  });
+});
+
+describe("searchQueries", () => {
+  it("searches the rewritten query first, then the expansions", () => {
+    expect(searchQueries({query: "a", expansions: ["b", "c"], rewritten: true})).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("rewriteQuery", () => {
+  it("searches a first message as typed without calling the model", async () => {
+    const {client, create} = fakeOpenAI({query: "unused"});
+    const result = await rewriteQuery(client, config, [{role: "user", content: "budget memos"}]);
+
+    expect(result).toEqual({query: "budget memos", expansions: [], rewritten: false});
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("does not call the model when disabled", async () => {
+    const {client, create} = fakeOpenAI({query: "unused"});
+    const result = await rewriteQuery(client, {...config, enabled: false}, conversation);
+
+    expect(result.query).toBe("Tell me more about the second one");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("resolves references using the conversation", async () => {
+    const {client, create} = fakeOpenAI({query: "  referral   program idea from Tuesday ", expansions: []});
+    const result = await rewriteQuery(client, config, conversation);
+
+    expect(result).toEqual({query: "referral program idea from Tuesday", expansions: [], rewritten: true});
+    const [request] = create.mock.calls[0] as unknown as [{messages: Array<{content: string}>}];
+    expect(request.messages[1].content).toContain("Assistant: Two: a podcast and a referral program.");
+    expect(request.messages[1].content).not.toContain("You answer questions about memos.");
+  });
+
+  it("keeps distinct expansions up to the configured number", async () => {
+    const {client} = fakeOpenAI({
+      query: "referral program",
+      expansions: ["Referral Program", "", 7, "invite rewards", "customer referrals", "word of mouth"],
+    });
+    const result = await rewriteQuery(client, {...config, expansions: 2}, conversation);
+
+    expect(result.expansions).toEqual(["invite rewards", "customer referrals"]);
+  });
+
+  it("asks for expansions of a first message", async () => {
+    const {client, create} = fakeOpenAI({query: "budget memos", expansions: ["spending plans"]});
+    const result = await rewriteQuery(client, {...config, expansions: 1}, [{role: "user", content: "budget memos"}]);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({query: "budget memos", expansions: ["spending plans"], rewritten: true});
+  });
+
+  it("falls back to the typed message when the model returns no query", async () => {
+    const {client} = fakeOpenAI({expansions: []});
+    const result = await rewriteQuery(client, config, conversation);
+
+    expect(result).toEqual({query: "Tell me more about the second one", expansions: [], rewritten: false});
+  });
+});
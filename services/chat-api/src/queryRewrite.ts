@@ -0,0 +1,122 @@
+/**
+ * Query rewriting - turns the latest user turn plus recent conversation into
+ * a standalone search query ("what about the second one?" -> "second
+ * marketing idea from the Tuesday planning memo"), optionally with a few
+ * alternative phrasings that are searched as well. Only retrieval uses the
+ * rewritten queries; the chat model still answers the user's own words.
+ */
+
+import OpenAI from "openai";
+
+export interface QueryRewriteConfig {
+  enabled: boolean;
+  expansions: number; // Extra queries searched alongside the rewritten one
+  model: string;
+  historyTurns: number; // Earlier messages shown to the model
+}
+
+export interface RewrittenQuery {
+  query: string; // Standalone query used for ranking
+  expansions: string[];
+  rewritten: boolean; // False when the latest turn is searched as typed
+}
+
+type ConversationMessage = {role: "user" | "assistant" | "system"; content: string};
+
+const DEFAULT_EXPANSIONS = 0;
+const MAX_EXPANSIONS = 4;
+const HISTORY_TURNS = 6;
+const HISTORY_MESSAGE_CHARS = 500;
+const MAX_QUERY_CHARS = 300;
+
+/**
+ * Rewriting settings from QUERY_REWRITE, QUERY_EXPANSIONS and QUERY_REWRITE_MODEL
+ */
+export function loadQueryRewriteConfig(env: NodeJS.ProcessEnv = process.env): QueryRewriteConfig {
+  const expansions = Number(env.QUERY_EXPANSIONS || DEFAULT_EXPANSIONS);
+  return {
+    enabled: !["false", "0", "off"].includes((env.QUERY_REWRITE || "true").trim().toLowerCase()),
+    expansions: Number.isInteger(expansions) && expansions >= 0 ? Math.min(expansions, MAX_EXPANSIONS) : DEFAULT_EXPANSIONS,
+    model: env.QUERY_REWRITE_MODEL || env.OPENAI_MODEL || "gpt-4o-mini",
+    historyTurns: HISTORY_TURNS,
+  };
+}
+
+/**
+ * Every query to search: the rewritten one first, then the expansions
+ */
+export function searchQueries(rewritten: RewrittenQuery): string[] {
+  return [rewritten.query, ...rewritten.expansions];
+}
+
+/**
+ * Clean a model-written query; empty when unusable
+ */
+function cleanQuery(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.replace(/\s+/g, " ").trim().substring(0, MAX_QUERY_CHARS);
+}
+
+/**
+ * Rewrite the latest user turn into standalone search queries. Without
+ * history or expansions there is nothing to resolve and no model call is made.
+ */
+export async function rewriteQuery(
+  openai: OpenAI,
+  config: QueryRewriteConfig,
+  messages: ConversationMessage[]
+): Promise<RewrittenQuery> {
+  const latestIndex = messages.map((m) => m.role).lastIndexOf("user");
+  const latestUser = latestIndex >= 0 ? messages[latestIndex].content : "";
+  const asTyped: RewrittenQuery = {query: latestUser, expansions: [], rewritten: false};
+
+  const history = messages
+    .slice(0, Math.max(latestIndex, 0))
+    .filter((m) => m.role !== "system")
+    .slice(-config.historyTurns);
+  if (!config.enabled || !latestUser || (history.length === 0 && config.expansions === 0)) {
+    return asTyped;
+  }
+
+  const transcript = history
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content.substring(0, HISTORY_MESSAGE_CHARS)}`)
+    .join("\n");
+  const expansionRule = config.expansions > 0 ?
+    `Also give up to ${config.expansions} alternative search queries that phrase the same need differently ` +
+      "(synonyms, related terms, likely wording in a spoken memo)." :
+    "Return an empty expansions list.";
+
+  const completion = await openai.chat.completions.create({
+    model: config.model,
+    temperature: 0,
+    response_format: {type: "json_object"},
+    messages: [
+      {
+        role: "system",
+        content: "You write search queries over a user's transcribed voice memos. " +
+          "Rewrite the latest user message into one standalone search query: resolve pronouns and references " +
+          "(\"it\", \"the second one\", \"that meeting\") using the conversation, keep names, dates and key terms, " +
+          "and drop chit-chat. If the message already stands alone, return it unchanged. " +
+          `${expansionRule} Reply with JSON: {"query": "...", "expansions": ["..."]}.`,
+      },
+      {
+        role: "user",
+        content: `${transcript ? `Conversation:\n${transcript}\n\n` : ""}Latest user message:\n${latestUser}`,
+      },
+    ],
+  });
+
+  const parsed = JSON.parse(completion.choices[0]?.message?.content || "{}");
+  const query = cleanQuery(parsed.query) || latestUser;
+  const seen = new Set([query.toLowerCase()]);
+  const expansions: string[] = [];
+  for (const value of Array.isArray(parsed.expansions) ? parsed.expansions : []) {
+    const expansion = cleanQuery(value);
+    if (!expansion || seen.has(expansion.toLowerCase())) continue;
+    seen.add(expansion.toLowerCase());
+    expansions.push(expansion);
+    if (expansions.length >= config.expansions) break;
+  }
+
+  return {query, expansions, rewritten: query !== latestUser || expansions.length > 0};
+}
@@ -0,0 +1,161 @@
+/**
+ * Rerank Tests
+ * Reranker settings, the built-in rerankers (model and endpoint faked) and
+ * thresholding of reranked candidates.
+ * Run with: npm test
+ */
+
+import {afterEach, describe, expect, it, vi} from "vitest";
+import type OpenAI from "openai";
+import {
+  CrossEncoderReranker,
+  HeuristicReranker,
+  LlmReranker,
+  Reranker,
+  createReranker,
+  loadRerankConfig,
+  rerankCandidates,
+} from "./rerank";
+
+// Chat client whose completions reply with the given JSON, recording each request
+function fakeOpenAI(reply: (request: any) => unknown) {
+  const create = vi.fn(async (request: any) => ({
+    choices: [{message: {content: JSON.stringify(reply(request))}}],
+  }));
+  return {client: {chat: {completions: {create}}} as unknown as OpenAI, create};
+}
+
+// Reranker that returns fixed scores
+const fixedScores = (scores: number[]): Reranker => ({name: "heuristic", score: async () => scores});
+
+describe("loadRerankConfig", () => {
+  it("defaults to no reranking", () => {
+    expect(loadRerankConfig({})).toMatchObject({reranker: "none", poolSize: 50, threshold: 0.3, model: "gpt-4o-mini"});
+  });
+
+  it("reads the environment and falls back on invalid numbers", () => {
+    expect(loadRerankConfig({
+      RERANKER: "Cross-Encoder",
+      RERANK_POOL_SIZE: "500",
+      RERANK_THRESHOLD: "0",
+      CROSS_ENCODER_URL: "http://rerank/rerank",
+    })).toMatchObject({reranker: "cross-encoder", poolSize: 200, threshold: 0, crossEncoderUrl: "http://rerank/rerank"});
+    expect(loadRerankConfig({RERANK_POOL_SIZE: "-3", RERANK_THRESHOLD: "2"})).toMatchObject({poolSize: 50, threshold: 0.3});
+  });
+
+  it("rejects unknown rerankers", () => {
+    expect(() => loadRerankConfig({RERANKER: "magic"})).toThrow("Invalid RERANKER");
+  });
+});
+
+describe("createReranker", () => {
+  const {client} = fakeOpenAI(() => ({}));
+
+  it("builds the configured reranker", () => {
+    expect(createReranker(loadRerankConfig({}), {openai: client})).toBeNull();
+    expect(createReranker(loadRerankConfig({RERANKER: "llm"}), {openai: client})?.name).toBe("llm");
+    expect(createReranker(loadRerankConfig({RERANKER: "heuristic"}), {openai: client})?.name).toBe("heuristic");
+  });
+
+  it("needs an endpoint for the cross-encoder", () => {
+    expect(() => createReranker(loadRerankConfig({RERANKER: "cross-encoder"}), {openai: client}))
+      .toThrow("CROSS_ENCODER_URL");
+  });
+});
+
+describe("HeuristicReranker", () => {
+  const reranker = new HeuristicReranker();
+
+  it("scores query term coverage with a bonus for phrases", async () => {
+    const [phrase, terms, half, none] = await reranker.score("marketing budget", [
+      "We approved the marketing budget today.",
+      "The budget covers marketing.",
+      "The budget is tight.",
+      "Lunch was great.",
+    ]);
+    expect(phrase).toBe(1);
+    expect(terms).toBe(0.75);
+    expect(half).toBeCloseTo(0.375);
+    expect(none).toBe(0);
+  });
+
+  it("scores zero for a query without content words", async () => {
+    expect(await reranker.score("the", ["the memo"])).toEqual([0]);
+  });
+});
+
+describe("LlmReranker", () => {
+  it("maps grades to 0..1 and ignores malformed entries", async () => {
+    const {client} = fakeOpenAI(() => ({
+      scores: [{id: 0, score: 8}, {id: 1, score: 15}, {id: 9, score: 5}, {id: 2, score: "n/a"}],
+    }));
+    const scores = await new LlmReranker(client, "gpt-4o-mini").score("q", ["a", "b", "c"]);
+    expect(scores).toEqual([0.8, 1, 0]);
+  });
+
+  it("grades passages in batches", async () => {
+    const {client, create} = fakeOpenAI((request) => {
+      const count = (request.messages[1].content.match(/^\[\d+\]/gm) || []).length;
+      return {scores: Array.from({length: count}, (_, id) => ({id, score: 10}))};
+    });
+    const scores = await new LlmReranker(client, "gpt-4o-mini").score("q", new Array(30).fill("passage"));
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(scores).toEqual(new Array(30).fill(1));
+  });
+});
+
+describe("CrossEncoderReranker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubFetch = (status: number, body: unknown) => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify(body), {status}));
+    vi.stubGlobal("fetch", fetch);
+    return fetch;
+  };
+
+  it("reads Text Embeddings Inference replies", async () => {
+    const fetch = stubFetch(200, [{index: 1, score: 0.9}, {index: 0, score: 1.4}]);
+    const scores = await new CrossEncoderReranker("http://rerank/rerank", "key").score("q", ["a", "b"]);
+
+    expect(scores).toEqual([1, 0.9]);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://rerank/rerank");
+    expect(init.headers).toMatchObject({Authorization: "Bearer key"});
+    expect(JSON.parse(String(init.body))).toMatchObject({query: "q", texts: ["a", "b"]});
+  });
+
+  it("reads {scores} replies", async () => {
+    stubFetch(200, {scores: [0.2, -1]});
+    expect(await new CrossEncoderReranker("http://rerank").score("q", ["a", "b"])).toEqual([0.2, 0]);
+  });
+
+  it("fails on errors and unknown replies", async () => {
+    stubFetch(503, {error: "down"});
+    await expect(new CrossEncoderReranker("http://rerank").score("q", ["a"])).rejects.toThrow("Cross-encoder error 503");
+    stubFetch(200, {results: []});
+    await expect(new CrossEncoderReranker("http://rerank").score("q", ["a"])).rejects.toThrow("no scores");
+  });
+});
+
+describe("rerankCandidates", () => {
+  const candidates = [{text: "a"}, {text: "b"}, {text: "c"}, {text: "d"}];
+
+  it("keeps the best candidates above the threshold", async () => {
+    const result = await rerankCandidates(fixedScores([0.4, 0.9, 0.1, 0.6]), "q", candidates, 0.3, 2);
+    expect(result.kept).toEqual([{text: "b", rerankScore: 0.9}, {text: "d", rerankScore: 0.6}]);
+    expect(result.dropped).toBe(2);
+  });
+
+  it("treats missing scores as zero", async () => {
+    const result = await rerankCandidates(fixedScores([0.5]), "q", candidates, 0, 10);
+    expect(result.kept.map((c) => c.rerankScore)).toEqual([0.5, 0, 0, 0]);
+  });
+
+  it("does not call the reranker without candidates", async () => {
+    const reranker = {name: "heuristic" as const, score: vi.fn()};
+    expect(await rerankCandidates(reranker, "q", [], 0.3, 5)).toEqual({kept: [], dropped: 0});
+    expect(reranker.score).not.toHaveBeenCalled();
+  });
+});
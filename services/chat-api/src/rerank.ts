@@ -0,0 +1,213 @@
+/**
+ * Reranking - rescores retrieved chunks against the question after MMR and
+ * keeps the best ones above a relevance threshold. Rerankers are pluggable:
+ *   llm           - an OpenAI chat model grades each passage
+ *   cross-encoder - a reranking endpoint (Text Embeddings Inference /rerank
+ *                   or any service answering {scores: number[]})
+ *   heuristic     - query term coverage and phrase overlap, no network
+ * All rerankers return scores between 0 and 1.
+ */
+
+import OpenAI from "openai";
+import {detectLanguage, keywordTerms} from "./language";
+
+export type RerankerName = "none" | "llm" | "cross-encoder" | "heuristic";
+
+export interface Reranker {
+  readonly name: Exclude<RerankerName, "none">;
+  score(query: string, texts: string[]): Promise<number[]>;
+}
+
+export interface RerankConfig {
+  reranker: RerankerName;
+  poolSize: number; // Candidates selected by MMR and passed to the reranker
+  threshold: number; // Candidates scoring below this are dropped
+  model: string; // Chat model for the llm reranker
+  crossEncoderUrl?: string;
+  crossEncoderApiKey?: string;
+}
+
+export interface RerankResult<T> {
+  kept: Array<T & {rerankScore: number}>; // Best first
+  dropped: number; // Below the threshold or beyond the limit
+}
+
+const RERANKERS: RerankerName[] = ["none", "llm", "cross-encoder", "heuristic"];
+const DEFAULT_POOL_SIZE = 50;
+const MAX_POOL_SIZE = 200;
+const DEFAULT_THRESHOLD = 0.3;
+const LLM_PASSAGES_PER_REQUEST = 25;
+const LLM_PASSAGE_CHARS = 700;
+
+/**
+ * Reranking settings from RERANKER, RERANK_POOL_SIZE, RERANK_THRESHOLD,
+ * RERANK_MODEL, CROSS_ENCODER_URL and CROSS_ENCODER_API_KEY
+ */
+export function loadRerankConfig(env: NodeJS.ProcessEnv = process.env): RerankConfig {
+  const name = (env.RERANKER || "none").trim().toLowerCase() as RerankerName;
+  if (!RERANKERS.includes(name)) {
+    throw new Error(`Invalid RERANKER: ${env.RERANKER} (expected ${RERANKERS.join(", ")})`);
+  }
+
+  const poolSize = Number(env.RERANK_POOL_SIZE || DEFAULT_POOL_SIZE);
+  const threshold = Number(env.RERANK_THRESHOLD ?? DEFAULT_THRESHOLD);
+  return {
+    reranker: name,
+    poolSize: Number.isInteger(poolSize) && poolSize > 0 ? Math.min(poolSize, MAX_POOL_SIZE) : DEFAULT_POOL_SIZE,
+    threshold: Number.isFinite(threshold) && threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_THRESHOLD,
+    model: env.RERANK_MODEL || env.OPENAI_MODEL || "gpt-4o-mini",
+    crossEncoderUrl: env.CROSS_ENCODER_URL || undefined,
+    crossEncoderApiKey: env.CROSS_ENCODER_API_KEY || undefined,
+  };
+}
+
+/**
+ * Asks a chat model to grade each passage 0-10 for how well it helps answer the question
+ */
+export class LlmReranker implements Reranker {
+  readonly name = "llm";
+
+  constructor(private readonly openai: OpenAI, private readonly model: string) {}
+
+  async score(query: string, texts: string[]): Promise<number[]> {
+    const batches: number[][] = [];
+    for (let start = 0; start < texts.length; start += LLM_PASSAGES_PER_REQUEST) {
+      batches.push(texts.slice(start, start + LLM_PASSAGES_PER_REQUEST).map((_, i) => start + i));
+    }
+    const scores = new Array<number>(texts.length).fill(0);
+    await Promise.all(batches.map(async (indexes) => {
+      const passages = indexes
+        .map((index, i) => `[${i}] ${texts[index].substring(0, LLM_PASSAGE_CHARS).replace(/\s+/g, " ")}`)
+        .join("\n");
+      const completion = await this.openai.chat.completions.create({
+        model: this.model,
+        temperature: 0,
+        response_format: {type: "json_object"},
+        messages: [
+          {
+            role: "system",
+            content: "You grade passages from a user's voice memos for a search engine. " +
+              "For each passage, give a score from 0 (irrelevant) to 10 (directly answers the question). " +
+              "Reply with JSON: {\"scores\": [{\"id\": <passage number>, \"score\": <0-10>}, ...]} covering every passage.",
+          },
+          {role: "user", content: `Question: ${query}\n\nPassages:\n${passages}`},
+        ],
+      });
+      const parsed = JSON.parse(completion.choices[0]?.message?.content || "{}");
+      for (const entry of Array.isArray(parsed.scores) ? parsed.scores : []) {
+        const id = Number(entry?.id);
+        const value = Number(entry?.score);
+        if (Number.isInteger(id) && id >= 0 && id < indexes.length && Number.isFinite(value)) {
+          scores[indexes[id]] = Math.min(Math.max(value / 10, 0), 1);
+        }
+      }
+    }));
+    return scores;
+  }
+}
+
+/**
+ * Cross-encoder served over HTTP. Sends {query, texts} and accepts either the
+ * Text Embeddings Inference reply ([{index, score}]) or {scores: number[]}.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = "cross-encoder";
+
+  constructor(private readonly url: string, private readonly apiKey?: string) {}
+
+  async score(query: string, texts: string[]): Promise<number[]> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? {Authorization: `Bearer ${this.apiKey}`} : {}),
+      },
+      body: JSON.stringify({query, texts, raw_scores: false}),
+    });
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`Cross-encoder error ${res.status}: ${errorText.substring(0, 200)}`);
+    }
+
+    const body: any = await res.json();
+    const scores = new Array<number>(texts.length).fill(0);
+    if (Array.isArray(body)) {
+      for (const entry of body) {
+        if (Number.isInteger(entry?.index) && entry.index < texts.length) scores[entry.index] = Number(entry.score) || 0;
+      }
+    } else if (Array.isArray(body?.scores)) {
+      body.scores.slice(0, texts.length).forEach((value: unknown, i: number) => {
+        scores[i] = Number(value) || 0;
+      });
+    } else {
+      throw new Error("Cross-encoder returned no scores");
+    }
+    return scores.map((value) => Math.min(Math.max(value, 0), 1));
+  }
+}
+
+/**
+ * Offline reranker: the share of query terms a passage contains, plus a bonus
+ * for consecutive query terms (phrases) appearing together
+ */
+export class HeuristicReranker implements Reranker {
+  readonly name = "heuristic";
+
+  async score(query: string, texts: string[]): Promise<number[]> {
+    const language = detectLanguage(query);
+    const queryTerms = keywordTerms(query, language);
+    const uniqueTerms = Array.from(new Set(queryTerms));
+    if (uniqueTerms.length === 0) return texts.map(() => 0);
+    const queryBigrams = new Set(queryTerms.slice(1).map((term, i) => `${queryTerms[i]} ${term}`));
+
+    return texts.map((text) => {
+      const terms = keywordTerms(text, language);
+      const present = new Set(terms);
+      const coverage = uniqueTerms.filter((term) => present.has(term)).length / uniqueTerms.length;
+      if (queryBigrams.size === 0) return coverage;
+
+      const bigrams = new Set(terms.slice(1).map((term, i) => `${terms[i]} ${term}`));
+      const phrase = Array.from(queryBigrams).filter((bigram) => bigrams.has(bigram)).length / queryBigrams.size;
+      return 0.75 * coverage + 0.25 * phrase;
+    });
+  }
+}
+
+/**
+ * Build the configured reranker; null when reranking is off
+ */
+export function createReranker(config: RerankConfig, options: {openai: OpenAI}): Reranker | null {
+  switch (config.reranker) {
+  case "none":
+    return null;
+  case "llm":
+    return new LlmReranker(options.openai, config.model);
+  case "cross-encoder":
+    if (!config.crossEncoderUrl) {
+      throw new Error("Invalid configuration: CROSS_ENCODER_URL is not set");
+    }
+    return new CrossEncoderReranker(config.crossEncoderUrl, config.crossEncoderApiKey);
+  case "heuristic":
+    return new HeuristicReranker();
+  }
+}
+
+/**
+ * Score candidates, drop those below the threshold and keep the best `limit`
+ */
+export async function rerankCandidates<T extends {text: string}>(
+  reranker: Reranker,
+  query: string,
+  candidates: T[],
+  threshold: number,
+  limit: number
+): Promise<RerankResult<T>> {
+  if (candidates.length === 0) return {kept: [], dropped: 0};
+  const scores = await reranker.score(query, candidates.map((c) => c.text));
+  const kept = candidates
+    .map((c, i) => ({...c, rerankScore: scores[i] ?? 0}))
+    .filter((c) => c.rerankScore >= threshold)
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, limit);
+  return {kept, dropped: candidates.length - kept.length};
+}
@@ -0,0 +1,94 @@
+/**
+ * Validation Tests
+ * Chat request filters: value checks and which filters may be combined.
+ * Run with: npm test
+ */
+
+import {describe, expect, it} from "vitest";
+import {validateChatFilters, validateChatRequest} from "./validation";
+
+describe("validateChatFilters", () => {
+  it("accepts no filters", () => {
+    expect(validateChatFilters(undefined)).toEqual({valid: true, sanitized: undefined});
+    expect(validateChatFilters({})).toEqual({valid: true, sanitized: undefined});
+  });
+
+  it("rejects filters that are not an object", () => {
+    expect(validateChatFilters("meeting").valid).toBe(false);
+    expect(validateChatFilters(["meeting"]).valid).toBe(false);
+  });
+
+  it("checks category and sentiment against the known values", () => {
+    expect(validateChatFilters({category: "meeting", sentiment: "negative"})).toEqual({
+      valid: true,
+      sanitized: {category: "meeting", sentiment: "negative"},
+    });
+    expect(validateChatFilters({category: "party"}).error).toContain("filters.category");
+    expect(validateChatFilters({sentiment: "angry"}).error).toContain("filters.sentiment");
+  });
+
+  it("lowercases and de-duplicates key phrases and entities", () => {
+    const result = validateChatFilters({keyPhrases: ["Launch", "launch "], entities: ["Acme"]});
+    expect(result.sanitized).toEqual({keyPhrases: ["launch"], entities: ["acme"]});
+    expect(validateChatFilters({speakers: ["  Sam ", "sam"]}).sanitized).toEqual({speakers: ["sam"]});
+    expect(validateChatFilters({entities: [""]}).valid).toBe(false);
+    expect(validateChatFilters({keyPhrases: new Array(11).fill("x")}).valid).toBe(false);
+  });
+
+  it("normalizes tags and rejects ones with nothing left", () => {
+    expect(validateChatFilters({tags: ["#Product Launch", "product-launch", "Q3"]}).sanitized)
+      .toEqual({tags: ["product-launch", "q3"]});
+    expect(validateChatFilters({tags: ["###"]}).error).toBe("filters.tags values must be non-empty tag strings");
+    expect(validateChatFilters({tags: [42]}).valid).toBe(false);
+    expect(validateChatFilters({tags: "launch"}).valid).toBe(false);
+  });
+
+  it("parses the date range and rejects an inverted one", () => {
+    const result = validateChatFilters({createdAfter: "2024-01-01T00:00:00Z", createdBefore: "2024-02-01T00:00:00Z"});
+    expect(result.sanitized.createdAfter).toEqual(new Date("2024-01-01T00:00:00Z"));
+    expect(validateChatFilters({createdAfter: "yesterday"}).valid).toBe(false);
+    expect(validateChatFilters({createdAfter: "2024-02-01", createdBefore: "2024-01-01"}).valid).toBe(false);
+  });
+
+  it("checks memo IDs and normalizes the language", () => {
+    expect(validateChatFilters({memoIds: ["a1", "a1", "b_2"]}).sanitized).toEqual({memoIds: ["a1", "b_2"]});
+    expect(validateChatFilters({memoIds: ["../memo"]}).valid).toBe(false);
+    expect(validateChatFilters({language: "es_es"}).sanitized).toEqual({language: "es-ES"});
+    expect(validateChatFilters({language: "Spanish"}).valid).toBe(false);
+  });
+
+  it("accepts any combination of filters", () => {
+    const result = validateChatFilters({
+      tags: ["standup"],
+      speakers: ["Alice"],
+      memoIds: ["a1"],
+      language: "es",
+      category: "meeting",
+      sentiment: "positive",
+      createdAfter: "2024-01-01T00:00:00Z",
+      keyPhrases: ["pricing"],
+    });
+    expect(result.valid).toBe(true);
+    expect(result.sanitized).toMatchObject({tags: ["standup"], speakers: ["alice"], memoIds: ["a1"], language: "es"});
+  });
+});
+
+describe("validateChatRequest", () => {
+  it("passes sanitized filters through", () => {
+    const result = validateChatRequest({
+      messages: [{role: "user", content: "What did we decide?"}],
+      filters: {category: "meeting"},
+    });
+    expect(result.valid).toBe(true);
+    expect(result.sanitized.filters).toEqual({category: "meeting"});
+  });
+
+  it("fails the request on invalid filters", () => {
+    const result = validateChatRequest({
+      messages: [{role: "user", content: "What did we decide?"}],
+      filters: {category: "meeting", language: "Spanish"},
+    });
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("filters.language");
+  });
+});
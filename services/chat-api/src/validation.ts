@@ -2,12 +2,153 @@
  * Request Validation - Comprehensive input validation for Chat API
  */
 
+import {normalizeLanguageCode} from "./language";
+
 export interface ValidationResult {
   valid: boolean;
   error?: string;
   sanitized?: any;
 }
 
+/**
+ * Optional retrieval filters on memo metadata
+ */
+export interface ChatFilters {
+  category?: string;
+  sentiment?: "positive" | "neutral" | "negative";
+  keyPhrases?: string[]; // Lowercase; a chunk matches if any phrase matches
+  entities?: string[]; // Lowercase; a chunk matches if any entity matches
+  tags?: string[]; // Normalized; a chunk matches if its memo has any of them
+  createdAfter?: Date; // Memo created at or after (inclusive)
+  createdBefore?: Date; // Memo created at or before (inclusive)
+  memoIds?: string[]; // Only these memos
+  language?: string; // BCP-47; "es" matches every Spanish variant, "es-ES" only that one
+  speakers?: string[]; // Lowercase; a chunk matches if a speaker heard in it has one of these names exactly
+}
+
+// Mirrors MEMO_CATEGORIES in functions/src/enrichment.ts (checked by mirrors.test.ts)
+export const MEMO_CATEGORIES = ["meeting", "idea", "todo", "journal", "lecture", "interview", "note"];
+const SENTIMENTS = ["positive", "neutral", "negative"];
+const MAX_FILTER_VALUES = 10;
+const MAX_FILTER_VALUE_LENGTH = 60;
+const MEMO_ID_PATTERN = /^[a-zA-Z0-9_-]{1,128}$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Z0-9]{2,4})?$/;
+
+/**
+ * Normalize a memo tag (mirrors normalizeTag in functions/src/tags.ts; checked by mirrors.test.ts)
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, 30)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Validate the optional filters object of a chat request
+ */
+export function validateChatFilters(filters: any): ValidationResult {
+  if (filters === undefined || filters === null) {
+    return { valid: true, sanitized: undefined };
+  }
+  if (typeof filters !== "object" || Array.isArray(filters)) {
+    return { valid: false, error: "filters must be an object" };
+  }
+
+  const sanitized: ChatFilters = {};
+
+  if (filters.category !== undefined) {
+    if (!MEMO_CATEGORIES.includes(filters.category)) {
+      return { valid: false, error: `filters.category must be one of: ${MEMO_CATEGORIES.join(", ")}` };
+    }
+    sanitized.category = filters.category;
+  }
+
+  if (filters.sentiment !== undefined) {
+    if (!SENTIMENTS.includes(filters.sentiment)) {
+      return { valid: false, error: `filters.sentiment must be one of: ${SENTIMENTS.join(", ")}` };
+    }
+    sanitized.sentiment = filters.sentiment;
+  }
+
+  for (const key of ["keyPhrases", "entities", "speakers"] as const) {
+    const values = filters[key];
+    if (values === undefined) continue;
+    if (!Array.isArray(values) || values.length > MAX_FILTER_VALUES) {
+      return { valid: false, error: `filters.${key} must be an array of at most ${MAX_FILTER_VALUES} strings` };
+    }
+    const cleaned: string[] = [];
+    for (const value of values) {
+      if (typeof value !== "string" || value.trim().length === 0 || value.length > MAX_FILTER_VALUE_LENGTH) {
+        return { valid: false, error: `filters.${key} values must be non-empty strings (max ${MAX_FILTER_VALUE_LENGTH} chars)` };
+      }
+      cleaned.push(sanitizeString(value).trim().toLowerCase());
+    }
+    if (cleaned.length > 0) {
+      sanitized[key] = Array.from(new Set(cleaned));
+    }
+  }
+
+  if (filters.tags !== undefined) {
+    if (!Array.isArray(filters.tags) || filters.tags.length > MAX_FILTER_VALUES) {
+      return { valid: false, error: `filters.tags must be an array of at most ${MAX_FILTER_VALUES} strings` };
+    }
+    const tags = filters.tags
+      .map((tag: unknown) => (typeof tag === "string" ? normalizeTag(tag) : ""))
+      .filter((tag: string) => tag.length > 0);
+    if (tags.length !== filters.tags.length) {
+      return { valid: false, error: "filters.tags values must be non-empty tag strings" };
+    }
+    if (tags.length > 0) {
+      sanitized.tags = Array.from(new Set(tags));
+    }
+  }
+
+  for (const key of ["createdAfter", "createdBefore"] as const) {
+    const value = filters[key];
+    if (value === undefined) continue;
+    const date = typeof value === "string" && value.length <= 40 ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+      return { valid: false, error: `filters.${key} must be an ISO 8601 date` };
+    }
+    sanitized[key] = date;
+  }
+  if (sanitized.createdAfter && sanitized.createdBefore && sanitized.createdAfter > sanitized.createdBefore) {
+    return { valid: false, error: "filters.createdAfter must not be later than filters.createdBefore" };
+  }
+
+  if (filters.memoIds !== undefined) {
+    if (!Array.isArray(filters.memoIds) || filters.memoIds.length > MAX_FILTER_VALUES) {
+      return { valid: false, error: `filters.memoIds must be an array of at most ${MAX_FILTER_VALUES} memo IDs` };
+    }
+    if (!filters.memoIds.every((id: unknown) => typeof id === "string" && MEMO_ID_PATTERN.test(id))) {
+      return { valid: false, error: "filters.memoIds values must be memo IDs" };
+    }
+    if (filters.memoIds.length > 0) {
+      sanitized.memoIds = Array.from(new Set(filters.memoIds as string[]));
+    }
+  }
+
+  if (filters.language !== undefined) {
+    const language = typeof filters.language === "string" && filters.language.trim() ?
+      normalizeLanguageCode(filters.language) :
+      "";
+    if (!LANGUAGE_PATTERN.test(language)) {
+      return { valid: false, error: "filters.language must be a language code such as \"es\" or \"es-ES\"" };
+    }
+    sanitized.language = language;
+  }
+
+  return {
+    valid: true,
+    sanitized: Object.keys(sanitized).length > 0 ? sanitized : undefined,
+  };
+}
+
 /**
  * Validate chat message request
  */
@@ -16,7 +157,7 @@ export function validateChatRequest(body: any): ValidationResult {
     return { valid: false, error: "Request body must be a JSON object" };
   }
 
-  const { messages, sessionId } = body;
+  const { messages, sessionId, filters } = body;
 
   // Validate messages array
   if (!Array.isArray(messages)) {
@@ -61,6 +202,11 @@ export function validateChatRequest(body: any): ValidationResult {
     return { valid: false, error: "sessionId too long (max 256 chars)" };
   }
 
+  const filtersValidation = validateChatFilters(filters);
+  if (!filtersValidation.valid) {
+    return filtersValidation;
+  }
+
   return {
     valid: true,
     sanitized: {
@@ -69,6 +215,7 @@ export function validateChatRequest(body: any): ValidationResult {
         content: sanitizeString(m.content),
       })),
       sessionId: sessionId || undefined,
+      filters: filtersValidation.sanitized as ChatFilters | undefined,
     },
   };
 }
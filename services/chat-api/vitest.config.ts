@@ -0,0 +1,9 @@
+import {configDefaults, defineConfig} from "vitest/config";
+
+export default defineConfig({
+  test: {
+    environment: "node",
+    // index.test.ts exercises a running service, not the modules
+    exclude: [...configDefaults.exclude, "src/index.test.ts"],
+  },
+});
@@ -0,0 +1,136 @@
+import {useEffect, useState} from "react";
+import {collection, limit, onSnapshot, orderBy, query} from "firebase/firestore";
+import {getFunctions, httpsCallable} from "firebase/functions";
+import {MdDownload} from "react-icons/md";
+import {db} from "../firebase";
+import {getUserUid} from "../utils/authManager";
+import {Button, Modal} from "./index";
+
+// Mirrors ExportJob in functions/src/accountExport.ts
+interface ExportState {
+  exportId: string;
+  status: "running" | "completed" | "error";
+  phase: "collecting" | "archiving" | "signing" | "done";
+  progress: number;
+  downloadUrl: string | null;
+  expiresAt: Date | null;
+  sizeBytes: number | null;
+  counts: Record<string, number> | null;
+  error: string | null;
+  createdAt: Date | null;
+}
+
+const PHASE_LABELS: Record<ExportState["phase"], string> = {
+  collecting: "Collecting memos, chats and tasks",
+  archiving: "Packing audio and data into the archive",
+  signing: "Preparing the download link",
+  done: "Ready",
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * "Export Data" header button: starts an account export and follows its
+ * progress in users/{uid}/exports until the zip can be downloaded
+ */
+export default function AccountExport() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [latest, setLatest] = useState<ExportState | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const userId = getUserUid();
+
+  // Follow the most recent export
+  useEffect(() => {
+    if (!userId || !isOpen) return;
+    const q = query(collection(db, "users", userId, "exports"), orderBy("createdAt", "desc"), limit(1));
+    return onSnapshot(q, (snapshot) => {
+      const exportDoc = snapshot.docs[0];
+      if (!exportDoc) {
+        setLatest(null);
+        return;
+      }
+      const data = exportDoc.data();
+      setLatest({
+        ...(data as ExportState),
+        expiresAt: data.expiresAt?.toDate?.() || null,
+        createdAt: data.createdAt?.toDate?.() || null,
+      });
+    }, (err) => {
+      console.error("Failed to load exports:", err);
+    });
+  }, [userId, isOpen]);
+
+  const startExport = async () => {
+    setStarting(true);
+    setError(null);
+    try {
+      const exportAccountData = httpsCallable(getFunctions(), "exportAccountData", {timeout: 540000});
+      await exportAccountData();
+    } catch (err: any) {
+      console.error("Account export failed:", err);
+      setError(err?.message || "Export failed");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const running = starting || latest?.status === "running";
+  const expired = !!latest?.expiresAt && latest.expiresAt.getTime() < Date.now();
+
+  return (
+    <>
+      <button onClick={() => setIsOpen(true)} className="clear-name-btn">
+        Export Data
+      </button>
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Export your data" size="md">
+        <p style={{marginTop: 0, color: "#4a5568", lineHeight: 1.5}}>
+          Download a zip with all of your memos (audio, transcripts with word timings, summaries and tags),
+          chat sessions with their messages and citations, and tasks. A manifest.json lists every file.
+        </p>
+
+        {latest?.status === "running" && (
+          <div style={{margin: "16px 0"}}>
+            <div style={{fontSize: "0.9em", color: "#718096", marginBottom: "6px"}}>
+              {PHASE_LABELS[latest.phase]}… {latest.progress}%
+            </div>
+            <div style={{height: "6px", background: "#e2e8f0", borderRadius: "3px", overflow: "hidden"}}>
+              <div style={{width: `${latest.progress}%`, height: "100%", background: "#667eea", transition: "width 0.3s ease"}} />
+            </div>
+          </div>
+        )}
+
+        {latest?.status === "completed" && latest.downloadUrl && !expired && (
+          <div style={{margin: "16px 0", padding: "12px", background: "#f0fff4", border: "1px solid #c6f6d5", borderRadius: "8px"}}>
+            <a href={latest.downloadUrl} style={{display: "inline-flex", alignItems: "center", gap: "6px", fontWeight: 600}}>
+              <MdDownload size={20} /> Download export
+              {latest.sizeBytes ? ` (${formatSize(latest.sizeBytes)})` : ""}
+            </a>
+            <div style={{fontSize: "0.85em", color: "#718096", marginTop: "6px"}}>
+              {latest.counts && `${latest.counts.memos} memos, ${latest.counts.chatSessions} chats, ${latest.counts.tasks} tasks. `}
+              {latest.expiresAt && `Link expires ${latest.expiresAt.toLocaleString()}.`}
+            </div>
+          </div>
+        )}
+
+        {(error || latest?.status === "error") && (
+          <div style={{margin: "16px 0", color: "#e53e3e", fontSize: "0.9em"}}>
+            {error || latest?.error || "Export failed"}
+          </div>
+        )}
+
+        <div style={{display: "flex", justifyContent: "flex-end", gap: "8px"}}>
+          <Button variant="secondary" onClick={() => setIsOpen(false)}>
+            Close
+          </Button>
+          <Button variant="primary" onClick={startExport} disabled={running}>
+            {running ? "Exporting…" : latest?.status === "completed" ? "Export again" : "Start export"}
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
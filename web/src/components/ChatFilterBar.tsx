@@ -0,0 +1,200 @@
+import {useEffect, useMemo, useState} from "react";
+import {collection, getDocs, limit, orderBy, query} from "firebase/firestore";
+import {db} from "../firebase";
+import {getUserUid} from "../utils/authManager";
+import {collectTags} from "../utils/tags";
+import {TRANSCRIPTION_LANGUAGES} from "../services/preferencesService";
+import {Badge, Button} from "./index";
+import type {ChatFilters} from "../types";
+
+// The chat API accepts at most this many values per list filter
+const MAX_FILTER_VALUES = 10;
+const MEMOS_LOADED = 200;
+
+interface MemoOption {
+  id: string;
+  label: string;
+  tags: string[];
+  speakerNames: string[];
+  language?: string;
+}
+
+interface ChatFilterBarProps {
+  filters: ChatFilters;
+  onChange: (filters: ChatFilters) => void;
+}
+
+/**
+ * Number of filters set, for the toggle button
+ */
+export function countChatFilters(filters: ChatFilters): number {
+  return (filters.createdAfter || filters.createdBefore ? 1 : 0) +
+    (filters.language ? 1 : 0) +
+    (filters.tags?.length || 0) +
+    (filters.speakers?.length || 0) +
+    (filters.memoIds?.length || 0);
+}
+
+/**
+ * YYYY-MM-DD in local time for a date input
+ */
+function toDateInput(iso: string | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Start or end of a local day as ISO 8601, so the range includes both days
+ */
+function fromDateInput(value: string, endOfDay: boolean): string | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split("-").map(Number);
+  return endOfDay ?
+    new Date(year, month - 1, day, 23, 59, 59, 999).toISOString() :
+    new Date(year, month - 1, day).toISOString();
+}
+
+/**
+ * Add or remove a value; empty lists are dropped from the filters
+ */
+function toggleValue(values: string[] | undefined, value: string): string[] | undefined {
+  const current = values || [];
+  const next = current.includes(value) ?
+    current.filter((v) => v !== value) :
+    [...current, value].slice(0, MAX_FILTER_VALUES);
+  return next.length > 0 ? next : undefined;
+}
+
+function languageLabel(code: string): string {
+  return TRANSCRIPTION_LANGUAGES.find((lang) => lang.code === code)?.label || code;
+}
+
+/**
+ * Narrows which memos chat answers are drawn from: creation date range,
+ * language, tags, named speakers and specific memos
+ */
+export default function ChatFilterBar({filters, onChange}: ChatFilterBarProps) {
+  const [memos, setMemos] = useState<MemoOption[]>([]);
+  const userId = getUserUid();
+
+  useEffect(() => {
+    if (!userId) return;
+    const memosQuery = query(collection(db, "users", userId, "memos"), orderBy("createdAt", "desc"), limit(MEMOS_LOADED));
+    getDocs(memosQuery)
+      .then((snapshot) => {
+        setMemos(snapshot.docs
+          .filter((memoDoc) => !memoDoc.data().isDeleted)
+          .map((memoDoc) => {
+            const data = memoDoc.data();
+            const names: unknown[] = Object.values(data.speakerNames || {});
+            return {
+              id: memoDoc.id,
+              label: data.title || (data.transcript ? `${String(data.transcript).substring(0, 40)}...` : memoDoc.id),
+              tags: Array.isArray(data.tags) ? data.tags : [],
+              speakerNames: names.filter((name): name is string => typeof name === "string" && name.trim().length > 0),
+              language: data.language,
+            };
+          }));
+      })
+      .catch((error) => console.error("Failed to load memos for chat filters:", error));
+  }, [userId]);
+
+  const tags = useMemo(() => collectTags(memos), [memos]);
+  const speakers = useMemo(
+    () => Array.from(new Set(memos.flatMap((memo) => memo.speakerNames.map((name) => name.trim())))).sort(),
+    [memos]
+  );
+  const languages = useMemo(
+    () => Array.from(new Set(memos.map((memo) => memo.language).filter((lang): lang is string => !!lang))).sort(),
+    [memos]
+  );
+  const memoLabels = useMemo(() => new Map(memos.map((memo) => [memo.id, memo.label])), [memos]);
+
+  const update = (changes: Partial<ChatFilters>) => {
+    const next: ChatFilters = {...filters, ...changes};
+    (Object.keys(next) as Array<keyof ChatFilters>).forEach((key) => next[key] === undefined && delete next[key]);
+    onChange(next);
+  };
+
+  const rowStyle = {display: "flex", alignItems: "center", gap: "6px", flexWrap: "wrap" as const};
+  const labelStyle = {fontSize: "0.85em", color: "var(--text-secondary)", minWidth: "70px"};
+  const chipStyle = {background: "none", border: "none", padding: 0, cursor: "pointer"};
+
+  return (
+    <div style={{padding: "12px", borderBottom: "1px solid var(--border-color)", backgroundColor: "var(--bg-secondary)", display: "flex", flexDirection: "column", gap: "8px", fontSize: "0.9em"}}>
+      <div style={rowStyle}>
+        <span style={labelStyle}>Created</span>
+        <input
+          type="date"
+          value={toDateInput(filters.createdAfter)}
+          max={toDateInput(filters.createdBefore) || undefined}
+          onChange={(e) => update({createdAfter: fromDateInput(e.target.value, false)})}
+          aria-label="Created from"
+        />
+        <span>to</span>
+        <input
+          type="date"
+          value={toDateInput(filters.createdBefore)}
+          min={toDateInput(filters.createdAfter) || undefined}
+          onChange={(e) => update({createdBefore: fromDateInput(e.target.value, true)})}
+          aria-label="Created until"
+        />
+        <span style={{...labelStyle, minWidth: 0, marginLeft: "12px"}}>Language</span>
+        <select value={filters.language || ""} onChange={(e) => update({language: e.target.value || undefined})}>
+          <option value="">Any</option>
+          {languages.map((code) => (
+            <option key={code} value={code}>{languageLabel(code)}</option>
+          ))}
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div style={rowStyle}>
+          <span style={labelStyle}>Tags</span>
+          {tags.map((tag) => (
+            <button key={tag} type="button" style={chipStyle} onClick={() => update({tags: toggleValue(filters.tags, tag)})}>
+              <Badge variant={filters.tags?.includes(tag) ? "primary" : "secondary"} size="sm">#{tag}</Badge>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {speakers.length > 0 && (
+        <div style={rowStyle}>
+          <span style={labelStyle}>Speakers</span>
+          {speakers.map((name) => (
+            <button key={name} type="button" style={chipStyle} onClick={() => update({speakers: toggleValue(filters.speakers, name)})}>
+              <Badge variant={filters.speakers?.includes(name) ? "primary" : "secondary"} size="sm">{name}</Badge>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div style={rowStyle}>
+        <span style={labelStyle}>Memos</span>
+        {filters.memoIds?.map((id) => (
+          <Badge key={id} variant="primary" size="sm" removable onRemove={() => update({memoIds: toggleValue(filters.memoIds, id)})}>
+            {memoLabels.get(id) || id}
+          </Badge>
+        ))}
+        <select
+          value=""
+          disabled={(filters.memoIds?.length || 0) >= MAX_FILTER_VALUES}
+          onChange={(e) => e.target.value && update({memoIds: toggleValue(filters.memoIds, e.target.value)})}
+          style={{maxWidth: "240px"}}
+        >
+          <option value="">{filters.memoIds?.length ? "Add memo..." : "All memos"}</option>
+          {memos.filter((memo) => !filters.memoIds?.includes(memo.id)).map((memo) => (
+            <option key={memo.id} value={memo.id}>{memo.label}</option>
+          ))}
+        </select>
+        {countChatFilters(filters) > 0 && (
+          <Button size="sm" variant="ghost" onClick={() => onChange({})} style={{marginLeft: "auto"}}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,20 @@
 import {useEffect, useRef, useState} from "react";
-import {MdChat, MdSend, MdError, MdDelete, MdRefresh} from "react-icons/md";
+import {MdChat, MdSend, MdError, MdDelete, MdRefresh, MdEdit, MdCheck, MdClose, MdFilterList} from "react-icons/md";
 import {validateChatMessage} from "../utils/validation";
+import {formatTimestamp} from "../utils/timeFormat";
 import {Button, Card, Badge, Input, Modal} from "./index";
-import {createChatSession, addMessageToSession, getChatSessions, getSessionMessages} from "../services/chatSessionService";
-import {ChatSession, ChatMessage} from "../types";
+import {
+  createChatSession,
+  addMessageToSession,
+  getChatSessions,
+  getSessionMessages,
+  deleteChatSession,
+  deleteChatSessionsOlderThan,
+  updateSessionTitle,
+} from "../services/chatSessionService";
+import SourceMemoPlayer from "./SourceMemoPlayer";
+import ChatFilterBar, {countChatFilters} from "./ChatFilterBar";
+import {ChatSession, ChatMessage, ChatFilters, Citation} from "../types";
 import {getUserUid, getIdToken} from "../utils/authManager";
 import {db} from "../firebase";
 import {doc, getDoc} from "firebase/firestore";
@@ -19,6 +30,14 @@ if (!CHAT_API_URL) {
   );
 }
 
+// Where hybrid retrieval ranked a citation, e.g. " (vector #2, keyword #1)"
+function describeRanks(citation: Citation): string {
+  const parts = [];
+  if (citation.ranks?.vector) parts.push(`vector #${citation.ranks.vector}`);
+  if (citation.ranks?.keyword) parts.push(`keyword #${citation.ranks.keyword}`);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
 export default function ChatInterface() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
@@ -27,8 +46,13 @@ export default function ChatInterface() {
   const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [showSessions, setShowSessions] = useState(false);
-  const [selectedCitation, setSelectedCitation] = useState<{memoId: string; chunkIndex: number} | null>(null);
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
+  const [cleanupDays, setCleanupDays] = useState(30);
+  const [selectedCitation, setSelectedCitation] = useState<Citation | null>(null);
   const [citationMemo, setCitationMemo] = useState<any>(null);
+  const [filters, setFilters] = useState<ChatFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const userId = getUserUid();
 
@@ -36,13 +60,13 @@ export default function ChatInterface() {
     messagesEndRef.current?.scrollIntoView({behavior: "smooth"});
   };
 
-  const handleCitationClick = async (memoId: string, chunkIndex: number) => {
+  const handleCitationClick = async (citation: Citation) => {
     if (!userId) return;
 
     try {
-      setSelectedCitation({memoId, chunkIndex});
-      // Fetch the memo to display its transcript
-      const memoRef = doc(db, "users", userId, "memos", memoId);
+      setSelectedCitation(citation);
+      // Fetch the memo for its transcript, word timings and audio path
+      const memoRef = doc(db, "users", userId, "memos", citation.memoId);
       const memoSnap = await getDoc(memoRef);
       if (memoSnap.exists()) {
         setCitationMemo(memoSnap.data());
@@ -108,6 +132,54 @@ export default function ChatInterface() {
     setShowSessions(false);
   };
 
+  // Rename a session in place
+  const handleRenameSession = async (session: ChatSession) => {
+    const title = renameDraft.trim().substring(0, 200);
+    setRenamingSessionId(null);
+    if (!userId || !title || title === session.title) return;
+    try {
+      await updateSessionTitle(userId, session.id, title);
+      setSessions((prev) => prev.map((s) => (s.id === session.id ? {...s, title} : s)));
+      if (currentSession?.id === session.id) {
+        setCurrentSession({...currentSession, title});
+      }
+    } catch (err) {
+      setError("Failed to rename session");
+    }
+  };
+
+  // Delete a session with all of its messages
+  const handleDeleteSession = async (session: ChatSession) => {
+    if (!window.confirm(`Delete "${session.title}" and all of its messages?`)) return;
+    try {
+      await deleteChatSession(session.id);
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+      if (currentSession?.id === session.id) {
+        setCurrentSession(null);
+        setMessages([]);
+      }
+    } catch (err) {
+      setError("Failed to delete session");
+    }
+  };
+
+  // Delete every session with no activity in the selected number of days
+  const handleDeleteOldSessions = async () => {
+    if (!userId) return;
+    if (!window.confirm(`Delete all chats with no activity in the last ${cleanupDays} days?`)) return;
+    try {
+      await deleteChatSessionsOlderThan(cleanupDays);
+      const remaining = await getChatSessions(userId);
+      setSessions(remaining);
+      if (currentSession && !remaining.some((s) => s.id === currentSession.id)) {
+        setCurrentSession(null);
+        setMessages([]);
+      }
+    } catch (err) {
+      setError("Failed to delete old chats");
+    }
+  };
+
   // Clear current session
   const handleClearSession = () => {
     setMessages([]);
@@ -158,7 +230,10 @@ export default function ChatInterface() {
         }
       }
 
-      const payload = {messages: [...messages, userMessage]};
+      const payload = {
+        messages: [...messages, userMessage],
+        ...(countChatFilters(filters) > 0 ? {filters} : {}),
+      };
       let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
 
       // Implement retry logic with exponential backoff
@@ -241,6 +316,7 @@ export default function ChatInterface() {
           const decoder = new TextDecoder();
           let assistantContent = "";
           let citations: any[] = [];
+          let searchQuery: string | undefined;
           let buffer = "";
 
           const assistantMessage: ChatMessage = {role: "assistant", content: "", citations: [], timestamp: new Date()};
@@ -268,7 +344,10 @@ export default function ChatInterface() {
 
                   const data = JSON.parse(jsonStr);
 
-                  if (data.type === "citations" && Array.isArray(data.citations)) {
+                  if (data.type === "query" && typeof data.query === "string") {
+                    // Follow-ups are searched as a rewritten, standalone query
+                    searchQuery = data.rewritten ? data.query : undefined;
+                  } else if (data.type === "citations" && Array.isArray(data.citations)) {
                     citations = data.citations;
                   } else if (data.type === "delta" && typeof data.delta === "string") {
                     assistantContent += data.delta;
@@ -279,6 +358,7 @@ export default function ChatInterface() {
                           role: "assistant",
                           content: assistantContent,
                           citations,
+                          searchQuery,
                           timestamp: new Date(),
                         };
                       }
@@ -306,6 +386,7 @@ export default function ChatInterface() {
                 role: "assistant",
                 content: assistantContent,
                 citations,
+                ...(searchQuery ? {searchQuery} : {}),
               });
             } catch (err) {
               console.error("Failed to persist message:", err);
@@ -351,6 +432,15 @@ export default function ChatInterface() {
         <Button size="sm" variant="primary" onClick={handleNewSession}>
           New Chat
         </Button>
+        <Button
+          size="sm"
+          variant={countChatFilters(filters) > 0 ? "primary" : "ghost"}
+          onClick={() => setShowFilters(!showFilters)}
+          icon={<MdFilterList />}
+          title="Limit which memos answers are drawn from"
+        >
+          Filters{countChatFilters(filters) > 0 ? ` (${countChatFilters(filters)})` : ""}
+        </Button>
         {messages.length > 0 && (
           <Button size="sm" variant="ghost" onClick={handleClearSession} icon={<MdRefresh />}>
             Clear
@@ -358,28 +448,115 @@ export default function ChatInterface() {
         )}
       </div>
 
+      {showFilters && <ChatFilterBar filters={filters} onChange={setFilters} />}
+
       {showSessions && (
         <div style={{padding: "12px", borderBottom: "1px solid var(--border-color)", maxHeight: "200px", overflowY: "auto", backgroundColor: "var(--bg-secondary)"}}>
           {sessions.length === 0 ? (
             <p style={{margin: 0, fontSize: "0.9em", color: "var(--text-secondary)"}}>No sessions yet</p>
           ) : (
-            sessions.map((session) => (
-              <div
-                key={session.id}
-                onClick={() => handleSwitchSession(session)}
-                style={{
-                  padding: "8px",
-                  marginBottom: "4px",
-                  backgroundColor: currentSession?.id === session.id ? "var(--primary-color)" : "var(--card-bg)",
-                  color: currentSession?.id === session.id ? "white" : "var(--text-primary)",
-                  borderRadius: "4px",
-                  cursor: "pointer",
-                  fontSize: "0.9em",
-                }}
-              >
-                {session.title}
-              </div>
-            ))
+            sessions.map((session) => {
+              const isCurrent = currentSession?.id === session.id;
+              return (
+                <div
+                  key={session.id}
+                  onClick={() => renamingSessionId !== session.id && handleSwitchSession(session)}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "6px",
+                    padding: "8px",
+                    marginBottom: "4px",
+                    backgroundColor: isCurrent ? "var(--primary-color)" : "var(--card-bg)",
+                    color: isCurrent ? "white" : "var(--text-primary)",
+                    borderRadius: "4px",
+                    cursor: "pointer",
+                    fontSize: "0.9em",
+                  }}
+                >
+                  {renamingSessionId === session.id ? (
+                    <>
+                      <input
+                        autoFocus
+                        value={renameDraft}
+                        maxLength={200}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => setRenameDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleRenameSession(session);
+                          if (e.key === "Escape") setRenamingSessionId(null);
+                        }}
+                        style={{flex: 1, minWidth: 0, padding: "2px 6px", fontSize: "inherit"}}
+                      />
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRenameSession(session);
+                        }}
+                        title="Save name"
+                        style={{background: "none", border: "none", color: "inherit", cursor: "pointer", padding: 0}}
+                      >
+                        <MdCheck size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setRenamingSessionId(null);
+                        }}
+                        title="Cancel"
+                        style={{background: "none", border: "none", color: "inherit", cursor: "pointer", padding: 0}}
+                      >
+                        <MdClose size={16} />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span style={{flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap"}}>
+                        {session.title}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setRenameDraft(session.title);
+                          setRenamingSessionId(session.id);
+                        }}
+                        title="Rename chat"
+                        style={{background: "none", border: "none", color: "inherit", cursor: "pointer", padding: 0}}
+                      >
+                        <MdEdit size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteSession(session);
+                        }}
+                        title="Delete chat"
+                        style={{background: "none", border: "none", color: "inherit", cursor: "pointer", padding: 0}}
+                      >
+                        <MdDelete size={16} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })
+          )}
+          {sessions.length > 0 && (
+            <div style={{display: "flex", alignItems: "center", gap: "8px", marginTop: "8px", fontSize: "0.85em", color: "var(--text-secondary)"}}>
+              <span>Delete chats inactive for</span>
+              <select value={cleanupDays} onChange={(e) => setCleanupDays(Number(e.target.value))}>
+                {[7, 30, 90, 365].map((days) => (
+                  <option key={days} value={days}>{days} days</option>
+                ))}
+              </select>
+              <Button size="sm" variant="danger" onClick={handleDeleteOldSessions}>
+                Delete
+              </Button>
+            </div>
           )}
         </div>
       )}
@@ -400,6 +577,11 @@ export default function ChatInterface() {
           >
             <div className={`message-content message-content-${msg.role}`}>
               <div className="message-text">{msg.content}</div>
+              {msg.searchQuery && (
+                <div className="message-search-query" title="Your question was rewritten into this search using the conversation">
+                  Searched for: “{msg.searchQuery}”
+                </div>
+              )}
               {msg.citations && msg.citations.length > 0 && (
                 <div className="message-citations">
                   <div className="citations-label">Sources:</div>
@@ -407,12 +589,16 @@ export default function ChatInterface() {
                     {msg.citations.map((citation, cidx) => (
                       <button
                         key={cidx}
-                        onClick={() => handleCitationClick(citation.memoId, citation.chunkIndex)}
+                        onClick={() => handleCitationClick(citation)}
                         className="citation-button"
-                        title="Click to view source memo"
+                        title={`Play the cited part of this memo${describeRanks(citation)}`}
                       >
                         <Badge variant="secondary" size="sm">
-                          Memo {citation.memoId.substring(0, 8)}... (chunk {citation.chunkIndex})
+                          Memo {citation.memoId.substring(0, 8)}...{" "}
+                          {typeof citation.startTime === "number"
+                            ? `@ ${formatTimestamp(citation.startTime)}`
+                            : `(chunk ${citation.chunkIndex})`}
+                          {citation.speakers && citation.speakers.length > 0 && ` · ${citation.speakers.join(", ")}`}
                         </Badge>
                       </button>
                     ))}
@@ -465,19 +651,7 @@ export default function ChatInterface() {
         size="md"
       >
         {citationMemo && selectedCitation && (
-          <div>
-            <div style={{marginBottom: "16px", paddingBottom: "16px", borderBottom: "1px solid var(--border-color)"}}>
-              <p style={{margin: "4px 0"}}>
-                <strong>Chunk:</strong> {selectedCitation.chunkIndex}
-              </p>
-              <p style={{margin: "4px 0"}}>
-                <strong>User:</strong> {citationMemo.userName || "Unknown"}
-              </p>
-            </div>
-            <div style={{lineHeight: "1.6", whiteSpace: "pre-wrap", wordWrap: "break-word", maxHeight: "400px", overflowY: "auto"}}>
-              {citationMemo.transcript}
-            </div>
-          </div>
+          <SourceMemoPlayer memo={citationMemo} citation={selectedCitation} />
         )}
       </Modal>
     </div>
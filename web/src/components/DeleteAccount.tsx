@@ -0,0 +1,116 @@
+import {useState} from "react";
+import {getFunctions, httpsCallable} from "firebase/functions";
+import {MdWarning} from "react-icons/md";
+import {ensureSignedIn, signOutUser} from "../utils/authManager";
+import {Button, Input, Modal} from "./index";
+
+interface DeleteAccountProps {
+  onDeleted: () => void;
+}
+
+interface DeleteAccountResult {
+  done: boolean;
+  deletedDocuments: number;
+  deletedFiles: number;
+}
+
+const CONFIRM_WORD = "DELETE";
+
+/**
+ * "Delete Account" header button with a typed confirmation. The backend
+ * deletes in resumable passes, so the call repeats until it reports done;
+ * afterwards the app starts over with a fresh anonymous account.
+ */
+export default function DeleteAccount({onDeleted}: DeleteAccountProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [confirmText, setConfirmText] = useState("");
+  const [deleting, setDeleting] = useState(false);
+  const [progress, setProgress] = useState<DeleteAccountResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    if (deleting) return;
+    setIsOpen(false);
+    setConfirmText("");
+    setError(null);
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setError(null);
+    try {
+      const deleteAccount = httpsCallable<{confirm: string}, DeleteAccountResult>(
+        getFunctions(),
+        "deleteAccount",
+        {timeout: 300000}
+      );
+      let result: DeleteAccountResult;
+      do {
+        result = (await deleteAccount({confirm: CONFIRM_WORD})).data;
+        setProgress(result);
+      } while (!result.done);
+
+      localStorage.removeItem("userName");
+      await signOutUser();
+      await ensureSignedIn();
+      setIsOpen(false);
+      onDeleted();
+    } catch (err: any) {
+      console.error("Account deletion failed:", err);
+      setError(`${err?.message || "Account deletion failed"}. You can try again to finish deleting.`);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <button onClick={() => setIsOpen(true)} className="clear-name-btn">
+        Delete Account
+      </button>
+      <Modal isOpen={isOpen} onClose={close} title="Delete your account" size="md">
+        <div style={{display: "flex", gap: "12px", alignItems: "flex-start", color: "#c53030"}}>
+          <span style={{flexShrink: 0}}><MdWarning size={28} /></span>
+          <p style={{margin: 0, lineHeight: 1.5}}>
+            This permanently deletes all of your memos and their audio, transcripts, tasks, chats and exports.
+            It cannot be undone. Export your data first if you want to keep a copy.
+          </p>
+        </div>
+
+        <p style={{margin: "16px 0 8px", color: "#4a5568"}}>
+          Type <strong>{CONFIRM_WORD}</strong> to confirm.
+        </p>
+        <Input
+          value={confirmText}
+          onChange={(e) => setConfirmText(e.target.value)}
+          placeholder={CONFIRM_WORD}
+          disabled={deleting}
+          autoFocus
+        />
+
+        {deleting && (
+          <p style={{fontSize: "0.9em", color: "#718096"}}>
+            Deleting…
+            {progress && ` ${progress.deletedDocuments} records and ${progress.deletedFiles} files removed so far.`}
+          </p>
+        )}
+        {error && (
+          <p style={{fontSize: "0.9em", color: "#e53e3e"}}>{error}</p>
+        )}
+
+        <div style={{display: "flex", justifyContent: "flex-end", gap: "8px", marginTop: "16px"}}>
+          <Button variant="secondary" onClick={close} disabled={deleting}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDelete}
+            disabled={confirmText !== CONFIRM_WORD || deleting}
+          >
+            {deleting ? "Deleting…" : "Delete my account"}
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
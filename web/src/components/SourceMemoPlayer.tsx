@@ -0,0 +1,182 @@
+import {useEffect, useMemo, useRef, useState} from "react";
+import {getDownloadURL, ref} from "firebase/storage";
+import {storage} from "../firebase";
+import {formatTimestamp} from "../utils/timeFormat";
+import {alignWords} from "../utils/wordAlignment";
+import {Citation, Memo, TranscriptWord} from "../types";
+
+interface SourceMemoPlayerProps {
+  memo: Partial<Pick<Memo, "transcript" | "words" | "storagePath" | "userName">>;
+  citation: Citation;
+}
+
+interface TimedToken {
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+// Seconds of lead-in before the cited chunk so playback doesn't start mid-word
+const PLAYBACK_LEAD_IN = 0.5;
+
+/**
+ * Pair transcript tokens with STT word timings, aligned the way the indexer
+ * aligns them when chunking, so timed chunks get timed words here too
+ */
+function alignTranscript(transcript: string, words: TranscriptWord[] | undefined): TimedToken[] | null {
+  if (!Array.isArray(words)) return null;
+  const tokens = transcript.split(/\s+/).filter((t) => t.length > 0);
+  const alignment = alignWords(tokens, words);
+  if (!alignment) return null;
+  return alignment.timed.map((word) => ({text: word.word, startTime: word.startTime, endTime: word.endTime}));
+}
+
+/**
+ * Source view for a citation: plays the memo audio from the cited chunk and
+ * highlights the chunk text, following playback word by word when timings exist
+ */
+export default function SourceMemoPlayer({memo, citation}: SourceMemoPlayerProps) {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const chunkStartRef = useRef<HTMLSpanElement>(null);
+  const activeWordRef = useRef<HTMLSpanElement>(null);
+
+  const transcript: string = memo.transcript || "";
+  const tokens = useMemo(() => alignTranscript(transcript, memo.words), [transcript, memo.words]);
+  const hasTimeRange = typeof citation.startTime === "number" && typeof citation.endTime === "number";
+
+  // Untimed chunks are located by their text instead
+  const textRange = useMemo(() => {
+    if (tokens && hasTimeRange) return null;
+    const normalized = transcript.replace(/\s+/g, " ");
+    const needle = (citation.text || "").replace(/\s+/g, " ").trim();
+    const start = needle ? normalized.indexOf(needle) : -1;
+    return start >= 0 ? {normalized, start, end: start + needle.length} : null;
+  }, [tokens, hasTimeRange, transcript, citation.text]);
+
+  // Resolve the audio download URL
+  useEffect(() => {
+    let cancelled = false;
+    setAudioUrl(null);
+    setAudioError(null);
+    if (!memo.storagePath) return;
+
+    getDownloadURL(ref(storage, memo.storagePath))
+      .then((url) => {
+        if (!cancelled) setAudioUrl(url);
+      })
+      .catch((err) => {
+        console.error("Error loading memo audio:", err);
+        if (!cancelled) setAudioError("Audio is not available for this memo");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [memo.storagePath]);
+
+  // Bring the cited chunk into view
+  useEffect(() => {
+    chunkStartRef.current?.scrollIntoView({behavior: "smooth", block: "center"});
+  }, [citation.memoId, citation.chunkIndex, tokens, textRange]);
+
+  // Keep the word being spoken visible during playback
+  useEffect(() => {
+    activeWordRef.current?.scrollIntoView({behavior: "smooth", block: "nearest"});
+  }, [currentTime]);
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current;
+    if (!audio || !hasTimeRange) return;
+    audio.currentTime = Math.max(0, (citation.startTime as number) - PLAYBACK_LEAD_IN);
+    // Autoplay may be blocked until the user interacts with the player
+    audio.play().catch(() => undefined);
+  };
+
+  const seekTo = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    audio.play().catch(() => undefined);
+  };
+
+  const inChunk = (token: TimedToken) =>
+    hasTimeRange &&
+    token.startTime >= (citation.startTime as number) &&
+    token.endTime <= (citation.endTime as number);
+
+  const renderTimedTranscript = (timed: TimedToken[]) => {
+    const firstChunkWord = timed.findIndex(inChunk);
+    return timed.map((token, i) => {
+      const active = currentTime !== null && currentTime >= token.startTime && currentTime < token.endTime;
+      const cited = inChunk(token);
+      return (
+        <span key={i}>
+          <span
+            ref={active ? activeWordRef : i === firstChunkWord ? chunkStartRef : undefined}
+            onClick={() => seekTo(token.startTime)}
+            title={formatTimestamp(token.startTime)}
+            style={{
+              cursor: "pointer",
+              borderRadius: "3px",
+              background: active
+                ? "var(--color-warning-light)"
+                : cited
+                  ? "var(--color-primary-ultra-light)"
+                  : "transparent",
+              fontWeight: active ? 600 : "normal",
+            }}
+          >
+            {token.text}
+          </span>{" "}
+        </span>
+      );
+    });
+  };
+
+  const renderPlainTranscript = () => {
+    if (!textRange) return transcript;
+    const {normalized, start, end} = textRange;
+    return (
+      <>
+        {normalized.slice(0, start)}
+        <span ref={chunkStartRef} style={{background: "var(--color-primary-ultra-light)", borderRadius: "3px"}}>
+          {normalized.slice(start, end)}
+        </span>
+        {normalized.slice(end)}
+      </>
+    );
+  };
+
+  return (
+    <div>
+      <div style={{marginBottom: "16px", paddingBottom: "16px", borderBottom: "1px solid var(--border-color)"}}>
+        <p style={{margin: "4px 0"}}>
+          <strong>Chunk:</strong> {citation.chunkIndex}
+          {hasTimeRange && ` · ${formatTimestamp(citation.startTime as number)}–${formatTimestamp(citation.endTime as number)}`}
+        </p>
+        <p style={{margin: "4px 0"}}>
+          <strong>User:</strong> {memo.userName || "Unknown"}
+        </p>
+        {audioUrl && (
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            preload="metadata"
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            style={{width: "100%", marginTop: "8px"}}
+          />
+        )}
+        {audioError && (
+          <p style={{margin: "8px 0 0", fontSize: "13px", color: "var(--text-secondary)"}}>{audioError}</p>
+        )}
+      </div>
+      <div style={{lineHeight: "1.6", whiteSpace: "pre-wrap", wordWrap: "break-word", maxHeight: "400px", overflowY: "auto"}}>
+        {tokens && hasTimeRange ? renderTimedTranscript(tokens) : renderPlainTranscript()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import {useEffect, useMemo, useState} from "react";
+import {collection, doc, getDoc, onSnapshot, serverTimestamp, updateDoc} from "firebase/firestore";
+import {MdCheckCircle, MdClose, MdPlayArrow, MdUndo} from "react-icons/md";
+import {db} from "../firebase";
+import {getUserUid} from "../utils/authManager";
+import {formatTimestamp} from "../utils/timeFormat";
+import {Badge, Button, Modal} from "./index";
+import SourceMemoPlayer from "./SourceMemoPlayer";
+import type {Task, TaskStatus} from "../types";
+
+const STATUS_ORDER: Record<TaskStatus, number> = {open: 0, completed: 1, dismissed: 2};
+
+/**
+ * Today's date as YYYY-MM-DD in local time, for comparing against due dates
+ */
+function localToday(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Open tasks first, soonest due first; undated tasks after dated ones
+ */
+function compareTasks(a: Task, b: Task): number {
+  if (a.status !== b.status) return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+  if (a.dueDate !== b.dueDate) {
+    if (!a.dueDate) return 1;
+    if (!b.dueDate) return -1;
+    return a.dueDate.localeCompare(b.dueDate);
+  }
+  return (b.createdAt?.getTime?.() || 0) - (a.createdAt?.getTime?.() || 0);
+}
+
+function formatDueDate(dueDate: string): string {
+  const [year, month, day] = dueDate.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {weekday: "short", month: "short", day: "numeric"});
+}
+
+/**
+ * Action items extracted from memos, with due dates and a link back to the
+ * moment in the recording each was spoken
+ */
+export default function TaskList() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showClosed, setShowClosed] = useState(false);
+  const [sourceTask, setSourceTask] = useState<Task | null>(null);
+  const [sourceMemo, setSourceMemo] = useState<any>(null);
+  const userId = getUserUid();
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+    const unsubscribe = onSnapshot(collection(db, "users", userId, "tasks"), (snapshot) => {
+      setTasks(snapshot.docs.map((taskDoc) => {
+        const data = taskDoc.data();
+        return {
+          ...data,
+          id: taskDoc.id,
+          status: data.status || "open",
+          createdAt: data.createdAt?.toDate?.() || new Date(),
+          updatedAt: data.updatedAt?.toDate?.() || new Date(),
+          completedAt: data.completedAt?.toDate?.() || null,
+          dismissedAt: data.dismissedAt?.toDate?.() || null,
+        } as Task;
+      }));
+      setLoading(false);
+    }, (error) => {
+      console.error("Failed to load tasks:", error);
+      setLoading(false);
+    });
+    return unsubscribe;
+  }, [userId]);
+
+  // Tasks of memos in the trash come back if the memo is restored
+  const liveTasks = useMemo(() => tasks.filter((task) => !task.memoDeleted), [tasks]);
+  const visibleTasks = useMemo(
+    () => liveTasks.filter((task) => showClosed || task.status === "open").sort(compareTasks),
+    [liveTasks, showClosed]
+  );
+  const openCount = liveTasks.filter((task) => task.status === "open").length;
+  const today = localToday();
+
+  const setStatus = async (task: Task, status: TaskStatus) => {
+    if (!userId) return;
+    try {
+      await updateDoc(doc(db, "users", userId, "tasks", task.id), {
+        status,
+        completedAt: status === "completed" ? serverTimestamp() : null,
+        dismissedAt: status === "dismissed" ? serverTimestamp() : null,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error("Failed to update task:", error);
+    }
+  };
+
+  const openSource = async (task: Task) => {
+    if (!userId) return;
+    try {
+      setSourceTask(task);
+      // Fetch the memo for its transcript, word timings and audio path
+      const memoSnap = await getDoc(doc(db, "users", userId, "memos", task.memoId));
+      if (memoSnap.exists()) {
+        setSourceMemo(memoSnap.data());
+      }
+    } catch (error) {
+      console.error("Error fetching task memo:", error);
+    }
+  };
+
+  return (
+    <div className="task-list" style={{maxWidth: "800px", margin: "0 auto", padding: "20px"}}>
+      <div style={{display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px"}}>
+        <h3 style={{margin: 0}}>Tasks ({openCount} open)</h3>
+        <label style={{fontSize: "0.9em", color: "#718096", cursor: "pointer"}}>
+          <input
+            type="checkbox"
+            checked={showClosed}
+            onChange={(e) => setShowClosed(e.target.checked)}
+            style={{marginRight: "6px"}}
+          />
+          Show completed and dismissed
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="loading">Loading tasks...</p>
+      ) : visibleTasks.length === 0 ? (
+        <p className="empty-state">
+          {liveTasks.length === 0
+            ? "No tasks yet. Action items mentioned in your memos will show up here."
+            : "All caught up!"}
+        </p>
+      ) : (
+        <div style={{display: "flex", flexDirection: "column", gap: "10px"}}>
+          {visibleTasks.map((task) => {
+            const closed = task.status !== "open";
+            const overdue = !closed && !!task.dueDate && task.dueDate < today;
+            const hasMoment = typeof task.startTime === "number";
+
+            return (
+              <div
+                key={task.id}
+                style={{
+                  display: "flex",
+                  gap: "12px",
+                  alignItems: "flex-start",
+                  padding: "14px 16px",
+                  background: "#f7fafc",
+                  border: `1px solid ${overdue ? "#feb2b2" : "#e2e8f0"}`,
+                  borderRadius: "8px",
+                  opacity: closed ? 0.6 : 1,
+                }}
+              >
+                <div style={{flex: 1, minWidth: 0}}>
+                  <div style={{color: "#2d3748", fontWeight: 600, textDecoration: task.status === "completed" ? "line-through" : "none"}}>
+                    {task.text}
+                  </div>
+                  <div style={{display: "flex", flexWrap: "wrap", gap: "6px", alignItems: "center", marginTop: "6px", fontSize: "0.85em", color: "#718096"}}>
+                    {task.dueDate && (
+                      <Badge variant={overdue ? "error" : task.dueDate === today ? "warning" : "info"} size="sm" title={task.dueText || undefined}>
+                        {overdue ? "Overdue · " : "Due "}{formatDueDate(task.dueDate)}
+                      </Badge>
+                    )}
+                    {task.status === "dismissed" && <Badge variant="secondary" size="sm">Dismissed</Badge>}
+                    <span>from {task.memoTitle || "a memo"}</span>
+                  </div>
+                  {task.sourceText && (
+                    <div style={{marginTop: "6px", fontSize: "0.85em", color: "#4a5568", fontStyle: "italic"}}>
+                      “{task.sourceText}”
+                    </div>
+                  )}
+                </div>
+                <div style={{display: "flex", gap: "6px", flexShrink: 0}}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openSource(task)}
+                    title={hasMoment ? `Play from ${formatTimestamp(task.startTime as number)}` : "Open source memo"}
+                  >
+                    <MdPlayArrow size={18} />
+                    {hasMoment && formatTimestamp(task.startTime as number)}
+                  </Button>
+                  {closed ? (
+                    <Button variant="secondary" size="sm" onClick={() => setStatus(task, "open")} title="Reopen task">
+                      <MdUndo size={18} />
+                    </Button>
+                  ) : (
+                    <>
+                      <Button variant="success" size="sm" onClick={() => setStatus(task, "completed")} title="Mark as done">
+                        <MdCheckCircle size={18} />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setStatus(task, "dismissed")} title="Dismiss task">
+                        <MdClose size={18} />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Source Memo Modal */}
+      <Modal
+        isOpen={!!sourceTask && !!sourceMemo}
+        onClose={() => {
+          setSourceTask(null);
+          setSourceMemo(null);
+        }}
+        title={sourceMemo?.title || "Source Memo"}
+        size="md"
+      >
+        {sourceTask && sourceMemo && (
+          <SourceMemoPlayer
+            memo={sourceMemo}
+            citation={{
+              memoId: sourceTask.memoId,
+              chunkIndex: sourceTask.chunkIndex ?? 0,
+              text: sourceTask.sourceText || "",
+              startTime: sourceTask.startTime ?? undefined,
+              endTime: sourceTask.endTime ?? undefined,
+            }}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
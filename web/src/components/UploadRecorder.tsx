@@ -1,18 +1,25 @@
-import {useRef, useState, useEffect} from "react";
-import {db, storage} from "../firebase";
-import {collection, serverTimestamp, query, where, getDocs, orderBy, doc, updateDoc, setDoc, getDoc, onSnapshot} from "firebase/firestore";
-import {ref, uploadBytes} from "firebase/storage";
+import {useRef, useState, useEffect, useSyncExternalStore} from "react";
+import {db} from "../firebase";
+import {collection, query, where, getDocs, orderBy, doc, updateDoc, onSnapshot} from "firebase/firestore";
 import {getFunctions, httpsCallable} from "firebase/functions";
-import {MdMic, MdStop, MdBook, MdClose, MdDelete, MdCheckCircle, MdError} from "react-icons/md";
+import {MdMic, MdStop, MdBook, MdClose, MdDelete, MdDeleteForever, MdRestore, MdCheckCircle, MdError} from "react-icons/md";
 import {getUserUid} from "../utils/authManager";
-import {validateAudioFile} from "../utils/validation";
 import {generateMemoInsight} from "../services/insightService";
+import {describeMemoStatus, getUploadTracker} from "../services/uploadTracker";
+import {MAX_TAGS, collectTags, normalizeTag} from "../utils/tags";
+import {
+  getTranscriptionLanguages,
+  setTranscriptionLanguages,
+  TRANSCRIPTION_LANGUAGES,
+  MAX_TRANSCRIPTION_LANGUAGES,
+} from "../services/preferencesService";
 import {analyzeAudioQuality, formatAudioMetrics, type AudioQualityMetrics} from "../utils/audioQuality";
-import {executeWithRetry, generateIdempotencyKey} from "../utils/httpClient";
 import {getNetworkManager} from "../utils/networkManager";
-import {getBestCodec, validateAudioBlob, getFileExtension, logCodecInfo} from "../utils/audioCodec";
+import {getBestCodec, validateAudioBlob, logCodecInfo} from "../utils/audioCodec";
+import {MAX_AUDIO_DURATION_SECONDS, formatDuration, recordedDurationSeconds} from "../utils/uploadPolicy";
 import {logError, logInfo} from "../utils/errorHandler";
 import {Button, Card, Badge, Modal} from "./index";
+import type {Memo, MemoCategory, MemoPipeline, MemoStatus, SpeakerSegment} from "../types";
 import "../styles/UploadRecorder.css";
 
 interface MemoItem {
@@ -20,26 +27,53 @@ interface MemoItem {
   memoId: string;
   userName: string;
   transcript: string;
+  title?: string;
+  summary?: string;
+  keyPoints?: string[];
+  actionItems?: string[];
+  category?: MemoCategory;
+  sentiment?: Memo["sentiment"];
+  keyPhrases?: string[];
+  entities?: string[];
   createdAt: any;
   audioSize: number;
   tags?: string[];
-  status?: string;
+  suggestedTags?: string[];
+  status?: MemoStatus;
+  pipeline?: MemoPipeline;
+  speakerSegments?: SpeakerSegment[];
+  speakerNames?: Record<string, string>;
+  language?: string;
+  isDeleted?: boolean;
+  deletedAt?: any;
+  purgeAt?: any; // When the trash purge deletes the memo for good
 }
 
+const SENTIMENT_BADGES: Record<NonNullable<Memo["sentiment"]>, {label: string; variant: "success" | "secondary" | "error"}> = {
+  positive: {label: "🙂 Positive", variant: "success"},
+  neutral: {label: "😐 Neutral", variant: "secondary"},
+  negative: {label: "🙁 Negative", variant: "error"},
+};
+
 interface UploadRecorderProps {
   userName: string;
 }
 
+const uploadTracker = getUploadTracker();
+
 export default function UploadRecorder({userName}: UploadRecorderProps) {
   const [recording, setRecording] = useState(false);
-  const [uploading, setUploading] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const uploads = useSyncExternalStore(uploadTracker.subscribe, uploadTracker.getSnapshot);
   const [message, setMessage] = useState<{type: "success" | "error"; text: string} | null>(null);
   const [memos, setMemos] = useState<MemoItem[]>([]);
   const [selectedMemo, setSelectedMemo] = useState<MemoItem | null>(null);
   const [loadingMemos, setLoadingMemos] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState("");
+  const [showTrash, setShowTrash] = useState(false);
   const [audioQuality, setAudioQuality] = useState<AudioQualityMetrics | null>(null);
   const [recordingDuration, setRecordingDuration] = useState(0);
+  const [languages, setLanguages] = useState<string[]>(["en-US"]);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
@@ -68,10 +102,26 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
           memoId: doc.data().memoId,
           userName: doc.data().userName,
           transcript: doc.data().transcript,
+          title: doc.data().title,
+          summary: doc.data().summary,
+          keyPoints: doc.data().keyPoints || [],
+          actionItems: doc.data().actionItems || [],
+          category: doc.data().category,
+          sentiment: doc.data().sentiment,
+          keyPhrases: doc.data().keyPhrases || [],
+          entities: doc.data().entities || [],
           createdAt: doc.data().createdAt,
           audioSize: doc.data().audioSize,
           tags: doc.data().tags || [],
+          suggestedTags: doc.data().suggestedTags || [],
           status: doc.data().status || "pending",
+          pipeline: doc.data().pipeline,
+          speakerSegments: doc.data().speakerSegments || [],
+          speakerNames: doc.data().speakerNames || {},
+          language: doc.data().language,
+          isDeleted: doc.data().isDeleted === true,
+          deletedAt: doc.data().deletedAt,
+          purgeAt: doc.data().purgeAt,
         }));
 
         setMemos(loadedMemos);
@@ -88,6 +138,43 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
     }
   };
 
+  useEffect(() => {
+    const uid = getUserUid();
+    if (!uid) return;
+    getTranscriptionLanguages(uid)
+      .then(setLanguages)
+      .catch(() => {
+        // Keep the default language if preferences can't be loaded
+      });
+  }, []);
+
+  // Toggle a candidate transcription language; the first selected stays primary
+  const toggleLanguage = async (code: string) => {
+    const uid = getUserUid();
+    if (!uid) return;
+
+    let next: string[];
+    if (languages.includes(code)) {
+      if (languages.length === 1) return; // At least one language is required
+      next = languages.filter((l) => l !== code);
+    } else {
+      if (languages.length >= MAX_TRANSCRIPTION_LANGUAGES) {
+        setMessage({type: "error", text: `Select at most ${MAX_TRANSCRIPTION_LANGUAGES} languages`});
+        return;
+      }
+      next = [...languages, code];
+    }
+
+    const previous = languages;
+    setLanguages(next);
+    try {
+      await setTranscriptionLanguages(uid, next);
+    } catch (error) {
+      setLanguages(previous);
+      setMessage({type: "error", text: "Failed to save language preferences"});
+    }
+  };
+
   useEffect(() => {
     const unsubscribe = loadMemos();
     return () => {
@@ -193,6 +280,15 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
           }
           const elapsed = Math.floor((Date.now() - recordingStartTimeRef.current) / 1000);
           setRecordingDuration(elapsed);
+
+          // Stop at the upload policy's duration limit so the recording can still be uploaded
+          if (elapsed >= MAX_AUDIO_DURATION_SECONDS) {
+            setMessage({
+              type: "success",
+              text: `Recording stopped at the ${formatDuration(MAX_AUDIO_DURATION_SECONDS)} limit and is being uploaded.`,
+            });
+            void stopRecording();
+          }
         }, 500);
       }
     } catch (error: any) {
@@ -230,6 +326,7 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
       audioContextRef.current = null;
     }
 
+    const durationSeconds = recordedDurationSeconds(Date.now() - recordingStartTimeRef.current);
     console.log("Stopping recording. Chunks collected:", chunksRef.current.length);
 
     // Stop all audio tracks to ensure clean shutdown
@@ -255,13 +352,11 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
     setRecording(false);
 
     // Upload to Firebase Storage
-    await uploadAudio(blob);
+    await uploadAudio(blob, durationSeconds);
   };
 
-  const uploadAudio = async (blob: Blob) => {
-    setUploading(true);
-    setProgress(0);
-    let uploadStartTime = Date.now();
+  const uploadAudio = async (blob: Blob, durationSeconds: number) => {
+    const uploadStartTime = Date.now();
 
     try {
       logInfo(`Starting audio upload. Size: ${blob.size} bytes, type: ${blob.type}`, {
@@ -269,27 +364,14 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
         action: "uploadAudio",
       });
 
-      // Validate audio blob with codec-aware checks
-      const blobValidation = validateAudioBlob(blob);
+      // Validate against the upload policy shared with storage.rules and the backend
+      const blobValidation = validateAudioBlob(blob, durationSeconds);
       if (!blobValidation.valid) {
         logError("Audio blob validation failed", new Error(blobValidation.error), {
           component: "UploadRecorder",
           action: "uploadAudio",
         });
         setMessage({type: "error", text: blobValidation.error || "Invalid audio file"});
-        setUploading(false);
-        return;
-      }
-
-      // Also validate with legacy validation for compatibility
-      const validation = validateAudioFile(blob);
-      if (!validation.valid) {
-        logError("Audio file validation failed", new Error(validation.error), {
-          component: "UploadRecorder",
-          action: "uploadAudio",
-        });
-        setMessage({type: "error", text: validation.error || "Invalid audio file"});
-        setUploading(false);
         return;
       }
 
@@ -299,7 +381,6 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
       const uid = getUserUid();
       if (!uid) {
         setMessage({type: "error", text: "User not authenticated"});
-        setUploading(false);
         return;
       }
 
@@ -308,7 +389,6 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
       const networkState = networkManager.getState();
       if (!networkState.isOnline) {
         setMessage({type: "error", text: "No internet connection. Please check your network."});
-        setUploading(false);
         return;
       }
 
@@ -320,208 +400,85 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
         });
       }
 
-      const memoId = crypto.randomUUID();
-      const idempotencyKey = generateIdempotencyKey({uid, memoId, blobSize: blob.size});
-
-      // Determine file extension using codec-aware function
-      const fileExt = getFileExtension(blob.type);
-
-      // Upload audio to Firebase Storage with retry logic
-      setProgress(25);
-      const audioPath = `audio/${uid}/${memoId}.${fileExt}`;
-      const audioRef = ref(storage, audioPath);
-
-      // Use executeWithRetry for robust upload with deduplication
-      await executeWithRetry(
-        async () => {
-          return uploadBytes(audioRef, blob, {
-            customMetadata: {
-              userName: userName,
-              memoId: memoId,
-              uploadStartTime: uploadStartTime.toString(),
-              audioQuality: audioQuality ? audioQuality.qualityScore.toString() : "unknown",
-            },
-          });
+      // Hand off to the upload tracker; it keeps following the memo through
+      // processing even if this component unmounts
+      await getUploadTracker().start({
+        uid,
+        userName,
+        blob,
+        metadata: {
+          uploadStartTime: uploadStartTime.toString(),
+          // Checked by storage.rules and onAudioUpload against the duration limit
+          durationSeconds: durationSeconds.toString(),
+          audioQuality: audioQuality ? audioQuality.qualityScore.toString() : "unknown",
         },
-        {
-          idempotencyKey,
-          timeout: 300000, // 5 minutes
-          retryConfig: {
-            maxAttempts: 3,
-            initialDelayMs: 1000,
-            maxDelayMs: 10000,
-            backoffMultiplier: 2,
-            jitterFactor: 0.1,
-          },
-        }
-      );
-
-      console.log("Upload successful");
-
-      setProgress(50);
-
-      // Create memo document in Firestore with "pending" status
-      // The Cloud Function will update it with the transcript
-      // Use memoId as the document ID so Cloud Function can find it
-      const memoDocRef = doc(db, "users", uid, "memos", memoId);
-      console.log("Creating memo document:", {uid, memoId, audioPath});
-
-      await setDoc(memoDocRef, {
-        memoId: memoId,
-        userName: userName,
-        transcript: "", // Will be filled by Cloud Function
-        contentType: blob.type,
-        audioSize: blob.size,
-        storagePath: audioPath,
-        createdAt: serverTimestamp(),
-        status: "pending", // Waiting for transcription
-        indexed: false,
       });
-
-      console.log("Memo document created successfully");
-      setProgress(75);
-
-      // Poll for transcript (Cloud Function will update the document)
-      let attempts = 0;
-      const maxAttempts = 600; // 10 minutes max
-      let transcriptReceived = false;
-      let transcriptionError = false;
-      let lastProgressUpdate = 75;
-      let lastStatusUpdate = 0;
-      let cloudFunctionTriggered = false;
-      let pollInterval = 1000; // Start with 1 second, increase with backoff
-      let consecutiveErrors = 0;
-      const maxConsecutiveErrors = 5;
-
-      while (attempts < maxAttempts && !transcriptReceived && !transcriptionError) {
-        try {
-          // Exponential backoff: increase poll interval over time
-          if (attempts > 30) {
-            pollInterval = Math.min(5000, 1000 + attempts * 50); // Max 5 seconds
-          }
-
-          await new Promise((resolve) => setTimeout(resolve, pollInterval));
-          attempts++;
-
-          // Get the document directly by ID (memoId is now the document ID)
-          const memoDocRef = doc(db, "users", uid, "memos", memoId);
-
-          try {
-            const docSnapshot = await getDoc(memoDocRef);
-
-            if (docSnapshot.exists()) {
-              const memoData = docSnapshot.data();
-              consecutiveErrors = 0; // Reset error counter on success
-
-              // Validate data structure
-              if (!memoData || typeof memoData !== "object") {
-                console.warn("Invalid memo data structure");
-                continue;
-              }
-
-              // Check if Cloud Function has been triggered
-              if (memoData.status === "transcribing" || memoData.status === "transcribed" || memoData.status === "error") {
-                cloudFunctionTriggered = true;
-              }
-
-              // Check for transcription error
-              if (memoData.status === "error") {
-                transcriptionError = true;
-                const errorMsg = memoData.errorMessage || "Unknown error";
-                const errorDetails = memoData.errorDetails ? ` (${memoData.errorDetails})` : "";
-                setMessage({
-                  type: "error",
-                  text: `Transcription failed: ${String(errorMsg).substring(0, 100)}${errorDetails}`,
-                });
-              }
-              // Check for successful transcription
-              else if (memoData.transcript && memoData.status === "transcribed") {
-                transcriptReceived = true;
-                setProgress(100);
-                const wordCount = memoData.wordCount || 0;
-                const confidence = Math.round((memoData.confidence || 0) * 100);
-                const qualityScore = memoData.qualityScore || 0;
-                setMessage({
-                  type: "success",
-                  text: `Memo transcribed successfully! (${wordCount} words, ${confidence}% confidence, quality: ${qualityScore}%)`,
-                });
-              }
-              // Update progress while transcribing
-              else if (memoData.status === "transcribing") {
-                // Gradually increase progress from 75% to 95% while transcribing
-                const progressIncrement = Math.min(20 / maxAttempts, 0.2);
-                lastProgressUpdate = Math.min(lastProgressUpdate + progressIncrement, 95);
-                setProgress(Math.round(lastProgressUpdate));
-
-                // Log status every 10 seconds
-                if (attempts - lastStatusUpdate >= 10) {
-                  console.log(`Transcription in progress... (${attempts}s elapsed, progress: ${Math.round(lastProgressUpdate)}%)`);
-                  lastStatusUpdate = attempts;
-                }
-              }
-            } else {
-              console.warn("Memo document not found yet");
-            }
-
-            // If Cloud Function hasn't been triggered after 30 seconds, warn user
-            if (attempts === 30 && !cloudFunctionTriggered) {
-              console.warn("Cloud Function may not have been triggered. Check Firebase logs.");
-              setMessage({
-                type: "error",
-                text: "Upload processing is taking longer than expected. Cloud Function may not be deployed.",
-              });
-            }
-          } catch (getDocError) {
-            consecutiveErrors++;
-            console.error(`Error fetching memo document (attempt ${consecutiveErrors}/${maxConsecutiveErrors}):`, getDocError);
-
-            if (consecutiveErrors >= maxConsecutiveErrors) {
-              throw new Error(`Failed to fetch memo status after ${maxConsecutiveErrors} consecutive attempts`);
-            }
-          }
-        } catch (pollError: any) {
-          console.error("Error during polling:", pollError);
-          transcriptionError = true;
-          setMessage({
-            type: "error",
-            text: `Polling error: ${pollError.message || "Unknown error"}. Please check the browser console for details.`,
-          });
-        }
-      }
-
-      if (!transcriptReceived && !transcriptionError) {
-        if (!cloudFunctionTriggered) {
-          // Cloud Function wasn't triggered
-          console.error("Cloud Function not triggered. Cloud Functions may not be deployed.");
-          setMessage({
-            type: "error",
-            text: "Transcription service is not available. Please ensure Cloud Functions are deployed.",
-          });
-        } else {
-          const timeoutMsg = `Transcription timed out after ${Math.round(attempts / 60)} minutes. The audio file may be too long.`;
-          setMessage({
-            type: "error",
-            text: timeoutMsg,
-          });
-        }
-      }
-
-      setProgress(0);
-      // Refresh memo list
-      await loadMemos();
     } catch (error: any) {
       setMessage({type: "error", text: error.message || "Upload failed"});
-    } finally {
-      setUploading(false);
     }
   };
 
+  const activeMemos = memos.filter((memo) => !memo.isDeleted);
+  const trashedMemos = memos.filter((memo) => memo.isDeleted);
+  const allTags = collectTags(activeMemos);
+  const visibleMemos = tagFilter ? activeMemos.filter((memo) => memo.tags?.includes(tagFilter)) : activeMemos;
+
   const formatDate = (timestamp: any) => {
     if (!timestamp) return "Unknown";
     const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
     return date.toLocaleDateString() + " " + date.toLocaleTimeString([], {hour: "2-digit", minute: "2-digit"});
   };
 
+  const speakerName = (memo: MemoItem, label: string) =>
+    memo.speakerNames?.[label] || `Speaker ${label}`;
+
+  // Replace a memo's tags with the normalized, de-duplicated list
+  const saveTags = async (memo: MemoItem, tags: string[]) => {
+    const uid = getUserUid();
+    if (!uid) return;
+
+    const nextTags = Array.from(new Set(tags.map(normalizeTag).filter((t) => t.length > 1))).slice(0, MAX_TAGS);
+    try {
+      // tagsEdited stops enrichment from replacing the user's tags with suggestions
+      await updateDoc(doc(db, "users", uid, "memos", memo.id), {tags: nextTags, tagsEdited: true});
+      setSelectedMemo({...memo, tags: nextTags});
+    } catch (error) {
+      console.error("Failed to update tags:", error);
+      setMessage({type: "error", text: "Failed to update tags"});
+    }
+  };
+
+  const addDraftTag = (memo: MemoItem) => {
+    const tag = normalizeTag(tagDraft);
+    setTagDraft("");
+    if (tag.length > 1 && !(memo.tags || []).includes(tag)) {
+      saveTags(memo, [...(memo.tags || []), tag]);
+    }
+  };
+
+  // Persist a display name for a diarized speaker label (e.g. "1" -> "Sam")
+  const renameSpeaker = async (memo: MemoItem, label: string, name: string) => {
+    const uid = getUserUid();
+    if (!uid) return;
+
+    const trimmed = name.trim();
+    const speakerNames = {...(memo.speakerNames || {})};
+    if (trimmed) {
+      speakerNames[label] = trimmed.substring(0, 50);
+    } else {
+      delete speakerNames[label];
+    }
+
+    try {
+      await updateDoc(doc(db, "users", uid, "memos", memo.id), {speakerNames});
+      setSelectedMemo({...memo, speakerNames});
+    } catch (error) {
+      console.error("Failed to rename speaker:", error);
+      setMessage({type: "error", text: "Failed to rename speaker"});
+    }
+  };
+
+  // Move a memo to the trash; the snapshot listener moves it to the Trash view
   const deleteMemo = async (memo: MemoItem) => {
     try {
       const uid = getUserUid();
@@ -534,9 +491,36 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
       const deleteMemoCaller = httpsCallable(functions, "deleteMemo");
       await deleteMemoCaller({memoId: memo.memoId});
 
+      setMessage({type: "success", text: "Memo moved to trash"});
+    } catch (error) {
+      console.error("Failed to delete memo:", error);
+      setMessage({type: "error", text: "Failed to delete memo"});
+    }
+  };
+
+  const restoreMemo = async (memo: MemoItem) => {
+    try {
+      const functions = getFunctions();
+      const restoreMemoCaller = httpsCallable(functions, "restoreMemo");
+      await restoreMemoCaller({memoId: memo.memoId});
+      setMessage({type: "success", text: "Memo restored"});
+    } catch (error) {
+      console.error("Failed to restore memo:", error);
+      setMessage({type: "error", text: "Failed to restore memo"});
+    }
+  };
+
+  // Delete the audio, transcript and search index right away
+  const deleteMemoForever = async (memo: MemoItem) => {
+    if (!window.confirm("Permanently delete this memo? This cannot be undone.")) return;
+    try {
+      const functions = getFunctions();
+      const deleteMemoCaller = httpsCallable(functions, "deleteMemo");
+      await deleteMemoCaller({memoId: memo.memoId, permanent: true});
+
       // Remove from local state
       setMemos(memos.filter((m) => m.id !== memo.id));
-      setMessage({type: "success", text: "Memo deleted successfully"});
+      setMessage({type: "success", text: "Memo deleted permanently"});
     } catch (error) {
       console.error("Failed to delete memo:", error);
       setMessage({type: "error", text: "Failed to delete memo"});
@@ -566,7 +550,7 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
             variant="primary"
             size="md"
             onClick={startRecording}
-            disabled={recording || uploading}
+            disabled={recording}
           >
             <span style={{display: "inline-flex", alignItems: "center", marginRight: "8px"}}>
               <MdMic size={20} />
@@ -578,7 +562,7 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
             variant="success"
             size="md"
             onClick={stopRecording}
-            disabled={!recording || uploading}
+            disabled={!recording}
           >
             <span style={{display: "inline-flex", alignItems: "center", marginRight: "8px"}}>
               <MdStop size={20} />
@@ -587,6 +571,24 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
           </Button>
         </div>
 
+        <div style={{marginTop: "12px", display: "flex", flexWrap: "wrap", alignItems: "center", gap: "6px", fontSize: "0.85em"}}>
+          <span style={{color: "#718096"}}>Spoken languages:</span>
+          {TRANSCRIPTION_LANGUAGES.map((lang) => (
+            <button
+              key={lang.code}
+              type="button"
+              onClick={() => toggleLanguage(lang.code)}
+              disabled={recording}
+              aria-pressed={languages.includes(lang.code)}
+              style={{border: "none", background: "none", padding: 0, cursor: "pointer"}}
+            >
+              <Badge variant={languages.includes(lang.code) ? "primary" : "secondary"} size="sm">
+                {lang.label}
+              </Badge>
+            </button>
+          ))}
+        </div>
+
         {recording && audioQuality && (
           <div style={{
             marginTop: "16px",
@@ -597,7 +599,7 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
             fontFamily: "monospace",
           }}>
             <div style={{marginBottom: "8px", fontWeight: "bold"}}>
-              Recording: {recordingDuration}s | Quality: {audioQuality.qualityScore}% | Level: {audioQuality.audioLevel}
+              Recording: {recordingDuration}s of {formatDuration(MAX_AUDIO_DURATION_SECONDS)} max | Quality: {audioQuality.qualityScore}% | Level: {audioQuality.audioLevel}
             </div>
             <div style={{fontSize: "11px", color: "#666"}}>
               SNR: {audioQuality.signalToNoise.toFixed(1)}dB | Clipping: {audioQuality.clipping.toFixed(1)}% |
@@ -606,14 +608,35 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
           </div>
         )}
 
-        {uploading && (
-          <div className="progress-container">
+        {uploads.map((upload) => (
+          <div key={upload.memoId} className="progress-container">
+            <div style={{display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: "0.85em", marginBottom: "4px"}}>
+              <span>{upload.label}</span>
+              {upload.finishedAt && (
+                <button
+                  type="button"
+                  onClick={() => uploadTracker.dismiss(upload.memoId)}
+                  aria-label="Dismiss"
+                  style={{border: "none", background: "none", cursor: "pointer", color: "#718096", display: "inline-flex"}}
+                >
+                  <MdClose size={16} />
+                </button>
+              )}
+            </div>
             <div className="progress-bar">
-              <div className="progress-fill" style={{width: `${progress}%`}}></div>
+              <div className="progress-fill" style={{width: `${upload.progress}%`}}></div>
             </div>
-            <p>{progress}%</p>
+            <p>
+              {upload.phase === "error"
+                ? `Failed: ${String(upload.error || "Unknown error").substring(0, 100)}`
+                : upload.stalled
+                  ? "Processing hasn't started yet. It will continue in the background."
+                  : upload.phase === "indexed"
+                    ? `Ready to search${upload.wordCount ? ` (${upload.wordCount} words)` : ""}`
+                    : `${upload.progress}%`}
+            </p>
           </div>
-        )}
+        ))}
 
         <div className="info">
           <p>Tip: Record your thoughts, ideas, or notes. They'll be transcribed and indexed for easy searching.</p>
@@ -623,86 +646,213 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
       {/* Memo History Section */}
       <div className="memo-history">
         <div className="memo-history-header">
-          <h3><MdBook size={24} /> Your Voice Memos ({memos.length})</h3>
+          <h3>
+            {showTrash ? <><MdDelete size={24} /> Trash ({trashedMemos.length})</> : <><MdBook size={24} /> Your Voice Memos ({activeMemos.length})</>}
+          </h3>
+          {(showTrash || trashedMemos.length > 0) && (
+            <Button variant="ghost" size="sm" onClick={() => setShowTrash(!showTrash)}>
+              {showTrash ? "Back to memos" : <><MdDelete size={16} /> Trash ({trashedMemos.length})</>}
+            </Button>
+          )}
         </div>
-        {loadingMemos ? (
-          <p className="loading">Loading memos...</p>
-        ) : memos.length === 0 ? (
-          <p className="empty-state">
-            No memos yet. Start recording to create your first memo!
-          </p>
-        ) : (
-          <div className="memos-list">
-            {memos.map((memo) => {
-              const insight = generateMemoInsight(memo);
-              const transcriptPreview = memo.transcript ? memo.transcript.substring(0, 150) : "(No transcript yet)";
-              const statusBadge = memo.status === "pending" ? "⏳ Pending" :
-                                 memo.status === "transcribing" ? "🔄 Transcribing" :
-                                 memo.status === "error" ? "❌ Error" : "✓ Done";
-
-              return (
+        {showTrash ? (
+          trashedMemos.length === 0 ? (
+            <p className="empty-state">Trash is empty.</p>
+          ) : (
+            <div className="memos-list">
+              {trashedMemos.map((memo) => (
                 <div
                   key={memo.id}
                   className="memo-item"
-                  onClick={() => setSelectedMemo(memo)}
                   style={{
                     padding: "16px",
                     background: "#f7fafc",
                     border: "1px solid #e2e8f0",
                     borderRadius: "8px",
-                    cursor: "pointer",
-                    transition: "all 0.3s ease",
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.background = "#edf2f7";
-                    e.currentTarget.style.borderColor = "#667eea";
-                    e.currentTarget.style.transform = "translateX(4px)";
-                    e.currentTarget.style.boxShadow = "0 4px 12px rgba(102, 126, 234, 0.2)";
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.background = "#f7fafc";
-                    e.currentTarget.style.borderColor = "#e2e8f0";
-                    e.currentTarget.style.transform = "translateX(0)";
-                    e.currentTarget.style.boxShadow = "none";
+                    opacity: 0.85,
                   }}
                 >
-                  <div style={{display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "8px"}}>
-                    <div>
-                      <div style={{fontSize: "0.9em", color: "#718096", fontWeight: "600"}}>
-                        {formatDate(memo.createdAt)}
+                  <div style={{display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: "12px"}}>
+                    <div style={{minWidth: 0}}>
+                      <div style={{fontSize: "1em", color: "#2d3748", fontWeight: "600", marginBottom: "4px"}}>
+                        {memo.title || formatDate(memo.createdAt)}
                       </div>
-                      <div style={{fontSize: "0.85em", color: "#a0aec0", marginTop: "4px"}}>
-                        by {memo.userName}
+                      <div style={{fontSize: "0.85em", color: "#a0aec0"}}>
+                        Deleted {formatDate(memo.deletedAt)}
+                        {memo.purgeAt && <> · removed for good on {formatDate(memo.purgeAt)}</>}
                       </div>
+                      <p style={{color: "#4a5568", fontSize: "14px", margin: "8px 0 0", lineHeight: "1.4"}}>
+                        {memo.summary || (memo.transcript ? memo.transcript.substring(0, 150) : "(No transcript)")}
+                      </p>
                     </div>
-                    <div style={{fontSize: "0.85em", padding: "4px 8px", background: "#667eea", color: "white", borderRadius: "4px"}}>
-                      {statusBadge}
+                    <div style={{display: "flex", gap: "6px", flexShrink: 0}}>
+                      <Button variant="secondary" size="sm" onClick={() => restoreMemo(memo)} title="Restore memo">
+                        <MdRestore size={18} />
+                      </Button>
+                      <Button variant="danger" size="sm" onClick={() => deleteMemoForever(memo)} title="Delete forever">
+                        <MdDeleteForever size={18} />
+                      </Button>
                     </div>
                   </div>
-                  <p style={{color: "#4a5568", fontSize: "14px", margin: "8px 0", lineHeight: "1.4"}}>
-                    {transcriptPreview}
-                  </p>
-                  <div style={{display: "flex", justifyContent: "space-between", alignItems: "center", marginTop: "12px"}}>
-                    <div style={{fontSize: "0.85em", color: "#718096"}}>
-                      <span>{insight.wordCount} words</span>
-                      <span style={{marginLeft: "16px"}}>{insight.readingTime} min read</span>
-                    </div>
-                    <Button
-                      variant="danger"
-                      size="sm"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteMemo(memo);
+                </div>
+              ))}
+            </div>
+          )
+        ) : (
+          <>
+            {allTags.length > 0 && (
+              <div style={{display: "flex", flexWrap: "wrap", gap: "6px", marginBottom: "12px"}}>
+                <Badge
+                  variant={tagFilter === null ? "primary" : "secondary"}
+                  size="sm"
+                  onClick={() => setTagFilter(null)}
+                  style={{cursor: "pointer"}}
+                >
+                  All
+                </Badge>
+                {allTags.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant={tagFilter === tag ? "primary" : "secondary"}
+                    size="sm"
+                    onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                    style={{cursor: "pointer"}}
+                  >
+                    #{tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {loadingMemos ? (
+              <p className="loading">Loading memos...</p>
+            ) : activeMemos.length === 0 ? (
+              <p className="empty-state">
+                No memos yet. Start recording to create your first memo!
+              </p>
+            ) : visibleMemos.length === 0 ? (
+              <p className="empty-state">
+                No memos tagged #{tagFilter}.
+              </p>
+            ) : (
+              <div className="memos-list">
+                {visibleMemos.map((memo) => {
+                  const insight = generateMemoInsight(memo);
+                  const transcriptPreview = memo.summary || (memo.transcript ? memo.transcript.substring(0, 150) : "(No transcript yet)");
+                  const statusBadge = describeMemoStatus(memo.status, memo.pipeline);
+                  const inProgress = memo.status !== "indexed" && memo.status !== "error" && typeof memo.pipeline?.progress === "number";
+
+                  return (
+                    <div
+                      key={memo.id}
+                      className="memo-item"
+                      onClick={() => setSelectedMemo(memo)}
+                      style={{
+                        padding: "16px",
+                        background: "#f7fafc",
+                        border: "1px solid #e2e8f0",
+                        borderRadius: "8px",
+                        cursor: "pointer",
+                        transition: "all 0.3s ease",
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.background = "#edf2f7";
+                        e.currentTarget.style.borderColor = "#667eea";
+                        e.currentTarget.style.transform = "translateX(4px)";
+                        e.currentTarget.style.boxShadow = "0 4px 12px rgba(102, 126, 234, 0.2)";
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.background = "#f7fafc";
+                        e.currentTarget.style.borderColor = "#e2e8f0";
+                        e.currentTarget.style.transform = "translateX(0)";
+                        e.currentTarget.style.boxShadow = "none";
                       }}
-                      title="Delete memo"
                     >
-                      <MdDelete size={18} />
-                    </Button>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+                      <div style={{display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "8px"}}>
+                        <div>
+                          {memo.title && (
+                            <div style={{fontSize: "1em", color: "#2d3748", fontWeight: "600", marginBottom: "4px"}}>
+                              {memo.title}
+                            </div>
+                          )}
+                          <div style={{fontSize: "0.9em", color: "#718096", fontWeight: "600"}}>
+                            {formatDate(memo.createdAt)}
+                          </div>
+                          <div style={{fontSize: "0.85em", color: "#a0aec0", marginTop: "4px"}}>
+                            by {memo.userName}
+                            {memo.actionItems && memo.actionItems.length > 0 && (
+                              <span style={{marginLeft: "12px", color: "#667eea"}}>
+                                ☑ {memo.actionItems.length} action item{memo.actionItems.length === 1 ? "" : "s"}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div style={{textAlign: "right"}}>
+                          <div
+                            style={{fontSize: "0.85em", padding: "4px 8px", background: memo.status === "error" ? "#e53e3e" : "#667eea", color: "white", borderRadius: "4px"}}
+                            title={memo.status === "error" && memo.pipeline?.failedStage ? memo.pipeline.errors?.[memo.pipeline.failedStage]?.message : undefined}
+                          >
+                            {statusBadge}
+                          </div>
+                          {inProgress && (
+                            <div style={{marginTop: "6px", height: "4px", background: "#e2e8f0", borderRadius: "2px", overflow: "hidden"}}>
+                              <div style={{width: `${memo.pipeline?.progress}%`, height: "100%", background: "#667eea", transition: "width 0.3s ease"}} />
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      <p style={{color: "#4a5568", fontSize: "14px", margin: "8px 0", lineHeight: "1.4"}}>
+                        {transcriptPreview}
+                      </p>
+                      {(memo.category || memo.sentiment || (memo.tags?.length ?? 0) > 0) && (
+                        <div style={{display: "flex", flexWrap: "wrap", gap: "6px", margin: "8px 0"}}>
+                          {memo.category && (
+                            <Badge variant="info" size="sm">{memo.category}</Badge>
+                          )}
+                          {memo.sentiment && (
+                            <Badge variant={SENTIMENT_BADGES[memo.sentiment].variant} size="sm">
+                              {SENTIMENT_BADGES[memo.sentiment].label}
+                            </Badge>
+                          )}
+                          {memo.tags?.map((tag) => (
+                            <Badge
+                              key={tag}
+                              variant={tagFilter === tag ? "primary" : "secondary"}
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setTagFilter(tag);
+                              }}
+                              style={{cursor: "pointer"}}
+                            >
+                              #{tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      <div style={{display: "flex", justifyContent: "space-between", alignItems: "center", marginTop: "12px"}}>
+                        <div style={{fontSize: "0.85em", color: "#718096"}}>
+                          <span>{insight.wordCount} words</span>
+                          <span style={{marginLeft: "16px"}}>{insight.readingTime} min read</span>
+                          {memo.language && <span style={{marginLeft: "16px"}}>{memo.language}</span>}
+                        </div>
+                        <Button
+                          variant="danger"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteMemo(memo);
+                          }}
+                          title="Move to trash"
+                        >
+                          <MdDelete size={18} />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
         )}
       </div>
 
@@ -710,7 +860,7 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
       <Modal
         isOpen={!!selectedMemo}
         onClose={() => setSelectedMemo(null)}
-        title="Memo Transcript"
+        title={selectedMemo?.title || "Memo Transcript"}
         size="md"
       >
         {selectedMemo && (
@@ -722,10 +872,134 @@ export default function UploadRecorder({userName}: UploadRecorderProps) {
               <p style={{margin: "4px 0"}}>
                 <strong>User:</strong> {selectedMemo.userName}
               </p>
+              {selectedMemo.language && (
+                <p style={{margin: "4px 0"}}>
+                  <strong>Language:</strong> {selectedMemo.language}
+                </p>
+              )}
+              {selectedMemo.category && (
+                <p style={{margin: "4px 0"}}>
+                  <strong>Category:</strong> {selectedMemo.category}
+                  {selectedMemo.sentiment && <> · {SENTIMENT_BADGES[selectedMemo.sentiment].label}</>}
+                </p>
+              )}
+              {selectedMemo.entities && selectedMemo.entities.length > 0 && (
+                <p style={{margin: "4px 0"}}>
+                  <strong>Mentions:</strong> {selectedMemo.entities.join(", ")}
+                </p>
+              )}
+              {selectedMemo.keyPhrases && selectedMemo.keyPhrases.length > 0 && (
+                <p style={{margin: "4px 0"}}>
+                  <strong>Topics:</strong> {selectedMemo.keyPhrases.join(", ")}
+                </p>
+              )}
+              <div style={{margin: "8px 0 0", display: "flex", flexWrap: "wrap", alignItems: "center", gap: "6px"}}>
+                <strong>Tags:</strong>
+                {(selectedMemo.tags || []).map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="primary"
+                    size="sm"
+                    removable
+                    onRemove={() => saveTags(selectedMemo, (selectedMemo.tags || []).filter((t) => t !== tag))}
+                  >
+                    #{tag}
+                  </Badge>
+                ))}
+                {(selectedMemo.tags?.length ?? 0) < MAX_TAGS && (
+                  <input
+                    type="text"
+                    value={tagDraft}
+                    placeholder="Add tag"
+                    maxLength={30}
+                    onChange={(e) => setTagDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" || e.key === ",") {
+                        e.preventDefault();
+                        addDraftTag(selectedMemo);
+                      }
+                    }}
+                    onBlur={() => addDraftTag(selectedMemo)}
+                    style={{width: "110px", padding: "2px 6px"}}
+                  />
+                )}
+                {(selectedMemo.suggestedTags || [])
+                  .filter((tag) => !(selectedMemo.tags || []).includes(tag))
+                  .map((tag) => (
+                    <Badge
+                      key={tag}
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => saveTags(selectedMemo, [...(selectedMemo.tags || []), tag])}
+                      style={{cursor: "pointer"}}
+                      title="Suggested tag"
+                    >
+                      + {tag}
+                    </Badge>
+                  ))}
+              </div>
             </div>
-            <div style={{lineHeight: "1.6", whiteSpace: "pre-wrap", wordWrap: "break-word"}}>
-              {selectedMemo.transcript}
-            </div>
+            {(selectedMemo.summary || (selectedMemo.keyPoints?.length ?? 0) > 0 || (selectedMemo.actionItems?.length ?? 0) > 0) && (
+              <div style={{marginBottom: "16px", paddingBottom: "16px", borderBottom: "1px solid var(--border-color)"}}>
+                {selectedMemo.summary && (
+                  <p style={{margin: "0 0 8px", lineHeight: "1.5"}}>{selectedMemo.summary}</p>
+                )}
+                {selectedMemo.keyPoints && selectedMemo.keyPoints.length > 0 && (
+                  <>
+                    <strong>Key points</strong>
+                    <ul style={{margin: "4px 0 8px", paddingLeft: "20px"}}>
+                      {selectedMemo.keyPoints.map((point, idx) => (
+                        <li key={idx}>{point}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                {selectedMemo.actionItems && selectedMemo.actionItems.length > 0 && (
+                  <>
+                    <strong>Action items</strong>
+                    <ul style={{margin: "4px 0 0", paddingLeft: "20px"}}>
+                      {selectedMemo.actionItems.map((item, idx) => (
+                        <li key={idx}>{item}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+            {selectedMemo.speakerSegments && selectedMemo.speakerSegments.length > 0 ? (
+              <>
+                <div style={{marginBottom: "16px", display: "flex", flexWrap: "wrap", gap: "8px"}}>
+                  {Array.from(new Set(selectedMemo.speakerSegments.map((seg) => seg.speaker))).map((label) => (
+                    <label key={label} style={{display: "flex", alignItems: "center", gap: "4px", fontSize: "0.85em"}}>
+                      Speaker {label}:
+                      <input
+                        type="text"
+                        defaultValue={selectedMemo.speakerNames?.[label] || ""}
+                        placeholder="Name"
+                        maxLength={50}
+                        onBlur={(e) => {
+                          if (e.target.value.trim() !== (selectedMemo.speakerNames?.[label] || "")) {
+                            renameSpeaker(selectedMemo, label, e.target.value);
+                          }
+                        }}
+                        style={{width: "100px", padding: "2px 6px"}}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div style={{lineHeight: "1.6", wordWrap: "break-word"}}>
+                  {selectedMemo.speakerSegments.map((seg, idx) => (
+                    <p key={idx} style={{margin: "0 0 8px"}}>
+                      <strong>{speakerName(selectedMemo, seg.speaker)}:</strong> {seg.text}
+                    </p>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div style={{lineHeight: "1.6", whiteSpace: "pre-wrap", wordWrap: "break-word"}}>
+                {selectedMemo.transcript}
+              </div>
+            )}
             <div style={{marginTop: "20px", display: "flex", gap: "8px", justifyContent: "flex-end"}}>
               <Button variant="primary" onClick={() => setSelectedMemo(null)}>
                 Close
@@ -1,7 +1,10 @@
 import {useState} from "react";
-import {MdMic, MdChat} from "react-icons/md";
+import {MdMic, MdChat, MdChecklist} from "react-icons/md";
 import UploadRecorder from "../components/UploadRecorder";
 import ChatInterface from "../components/ChatInterface";
+import TaskList from "../components/TaskList";
+import AccountExport from "../components/AccountExport";
+import DeleteAccount from "../components/DeleteAccount";
 import "../styles/ChatPage.css";
 
 interface ChatPageProps {
@@ -10,7 +13,7 @@ interface ChatPageProps {
 }
 
 export default function ChatPage({userName, onSignOut}: ChatPageProps) {
-  const [activeTab, setActiveTab] = useState<"record" | "chat">("chat");
+  const [activeTab, setActiveTab] = useState<"record" | "chat" | "tasks">("chat");
 
   const handleClearName = () => {
     localStorage.removeItem("userName");
@@ -23,9 +26,11 @@ export default function ChatPage({userName, onSignOut}: ChatPageProps) {
         <h1><MdMic size={32} /> VoiceGPT</h1>
         <div className="header-right">
           <span className="user-name">{userName}</span>
+          <AccountExport />
           <button onClick={handleClearName} className="clear-name-btn">
             Change Name
           </button>
+          <DeleteAccount onDeleted={onSignOut} />
         </div>
       </header>
 
@@ -42,11 +47,19 @@ export default function ChatPage({userName, onSignOut}: ChatPageProps) {
         >
           <MdChat size={20} /> Chat
         </button>
+        <button
+          className={`tab ${activeTab === "tasks" ? "active" : ""}`}
+          onClick={() => setActiveTab("tasks")}
+        >
+          <MdChecklist size={20} /> Tasks
+        </button>
       </div>
 
       <div className="chat-content">
         {activeTab === "record" ? (
           <UploadRecorder userName={userName} />
+        ) : activeTab === "tasks" ? (
+          <TaskList />
         ) : (
           <ChatInterface />
         )}
@@ -12,10 +12,10 @@ import {
   doc,
   setDoc,
   updateDoc,
-  deleteDoc,
   serverTimestamp,
   Timestamp,
 } from "firebase/firestore";
+import {getFunctions, httpsCallable} from "firebase/functions";
 import {db} from "../firebase";
 import {ChatSession, ChatMessage} from "../types";
 
@@ -158,18 +158,37 @@ export async function getSessionMessages(
 }
 
 /**
- * Delete a chat session
+ * Delete a chat session and its messages
+ * Runs server-side: a client delete would leave the messages subcollection behind
  */
-export async function deleteChatSession(userId: string, sessionId: string): Promise<void> {
+export async function deleteChatSession(sessionId: string): Promise<void> {
   try {
-    const sessionRef = doc(db, "users", userId, "chatSessions", sessionId);
-    await deleteDoc(sessionRef);
+    const deleteChatSessions = httpsCallable(getFunctions(), "deleteChatSessions");
+    await deleteChatSessions({sessionId});
   } catch (error) {
     console.error("Error deleting chat session:", error);
     throw error;
   }
 }
 
+/**
+ * Delete every chat session with no activity in the last `days` days
+ * Returns the number of sessions deleted
+ */
+export async function deleteChatSessionsOlderThan(days: number): Promise<number> {
+  try {
+    const deleteChatSessions = httpsCallable<{olderThanDays: number}, {deleted: number}>(
+      getFunctions(),
+      "deleteChatSessions"
+    );
+    const result = await deleteChatSessions({olderThanDays: days});
+    return result.data.deleted;
+  } catch (error) {
+    console.error("Error deleting old chat sessions:", error);
+    throw error;
+  }
+}
+
 /**
  * Update session title
  */
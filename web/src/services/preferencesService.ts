@@ -0,0 +1,57 @@
+/**
+ * Preferences Service - Reads and writes per-user preferences
+ * Stored on the users/{uid} document so Cloud Functions can read them
+ */
+
+import {doc, getDoc, setDoc} from "firebase/firestore";
+import {db} from "../firebase";
+
+// Speech-to-Text accepts at most three candidate languages per request
+export const MAX_TRANSCRIPTION_LANGUAGES = 3;
+
+export const TRANSCRIPTION_LANGUAGES: Array<{code: string; label: string}> = [
+  {code: "en-US", label: "English (US)"},
+  {code: "en-GB", label: "English (UK)"},
+  {code: "es-ES", label: "Spanish (Spain)"},
+  {code: "es-US", label: "Spanish (US)"},
+  {code: "de-DE", label: "German"},
+  {code: "fr-FR", label: "French"},
+];
+
+/**
+ * Get the candidate transcription languages, primary language first
+ */
+export async function getTranscriptionLanguages(userId: string): Promise<string[]> {
+  try {
+    const snap = await getDoc(doc(db, "users", userId));
+    const prefs = snap.data()?.preferences || {};
+    const languages = [prefs.language, ...(Array.isArray(prefs.languages) ? prefs.languages : [])]
+      .filter((code): code is string => typeof code === "string" && code.length > 0);
+    return languages.length > 0 ? Array.from(new Set(languages)) : ["en-US"];
+  } catch (error) {
+    console.error("Error fetching language preferences:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save the candidate transcription languages
+ * The first language is the primary one; the rest enable automatic detection
+ */
+export async function setTranscriptionLanguages(userId: string, languages: string[]): Promise<void> {
+  const unique = Array.from(new Set(languages)).slice(0, MAX_TRANSCRIPTION_LANGUAGES);
+  if (unique.length === 0) {
+    throw new Error("At least one transcription language is required");
+  }
+
+  try {
+    await setDoc(
+      doc(db, "users", userId),
+      {preferences: {language: unique[0], languages: unique.slice(1)}},
+      {merge: true}
+    );
+  } catch (error) {
+    console.error("Error saving language preferences:", error);
+    throw error;
+  }
+}
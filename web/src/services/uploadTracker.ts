@@ -0,0 +1,264 @@
+/**
+ * Upload Tracker - Uploads memo audio and follows each memo through the backend pipeline
+ * Lives outside React so uploads keep running across tab switches; several can run at once
+ */
+
+import {deleteDoc, doc, onSnapshot, serverTimestamp, setDoc} from "firebase/firestore";
+import {ref, uploadBytesResumable} from "firebase/storage";
+import {db, storage} from "../firebase";
+import {getFileExtension} from "../utils/audioCodec";
+import type {MemoPipeline, MemoStatus} from "../types";
+
+export type UploadPhase = "uploading" | MemoStatus;
+
+export interface TrackedUpload {
+  memoId: string;
+  phase: UploadPhase;
+  progress: number; // Overall 0-100: upload bytes first, then backend stages
+  label: string; // Human-readable stage, e.g. "Embedding 4/12 chunks"
+  error?: string;
+  stalled?: boolean; // Upload finished but the backend hasn't picked it up yet
+  wordCount?: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface StartUploadOptions {
+  uid: string;
+  userName: string;
+  blob: Blob;
+  metadata?: Record<string, string>;
+}
+
+type UploadListener = () => void;
+
+// Share of overall progress covered by the byte upload; backend stages fill the rest
+const UPLOAD_PROGRESS_SHARE = 30;
+// Flag an upload as stalled when processing hasn't started after this long
+const STALL_TIMEOUT_MS = 60000;
+// Finished uploads drop out of the tracker after this long
+const COMPLETED_RETENTION_MS = 10000;
+
+/**
+ * Describe where a memo is in the processing pipeline
+ */
+export function describeMemoStatus(status: MemoStatus | undefined, pipeline?: MemoPipeline): string {
+  switch (status) {
+    case "pending":
+      return "⏳ Pending";
+    case "transcribing":
+      return "🔄 Transcribing";
+    case "transcribed":
+      return "📝 Transcribed";
+    case "embedding":
+      return pipeline?.totalChunks
+        ? `🧠 Embedding ${pipeline.embeddedChunks || 0}/${pipeline.totalChunks} chunks`
+        : "🧠 Embedding";
+    case "error":
+      return pipeline?.failedStage ? `❌ Error (${pipeline.failedStage})` : "❌ Error";
+    default:
+      return "✓ Indexed";
+  }
+}
+
+class UploadTracker {
+  private uploads: Map<string, TrackedUpload> = new Map();
+  private listeners: Set<UploadListener> = new Set();
+  private unsubscribers: Map<string, () => void> = new Map();
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private snapshot: TrackedUpload[] = [];
+
+  /**
+   * Subscribe to tracker changes (useSyncExternalStore compatible)
+   */
+  subscribe = (listener: UploadListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Current uploads, newest first; the array identity changes only on updates
+   */
+  getSnapshot = (): TrackedUpload[] => this.snapshot;
+
+  /**
+   * Create the memo, upload its audio and follow processing until it is indexed or fails
+   */
+  async start({uid, userName, blob, metadata = {}}: StartUploadOptions): Promise<string> {
+    const memoId = crypto.randomUUID();
+    const storagePath = `audio/${uid}/${memoId}.${getFileExtension(blob.type)}`;
+    const memoRef = doc(db, "users", uid, "memos", memoId);
+
+    this.update(memoId, {
+      memoId,
+      phase: "uploading",
+      progress: 0,
+      label: "⬆️ Uploading",
+      startedAt: Date.now(),
+    });
+
+    try {
+      // Create the memo before the upload so the backend's status transitions
+      // are never overwritten by the client
+      await setDoc(memoRef, {
+        memoId,
+        userName,
+        transcript: "", // Will be filled by Cloud Function
+        contentType: blob.type,
+        audioSize: blob.size,
+        storagePath,
+        createdAt: serverTimestamp(),
+        status: "pending", // Waiting for transcription
+        indexed: false,
+      });
+
+      // Follow the backend pipeline while the bytes upload
+      this.watch(uid, memoId);
+
+      await new Promise<void>((resolve, reject) => {
+        const task = uploadBytesResumable(ref(storage, storagePath), blob, {
+          customMetadata: {...metadata, userName, memoId},
+        });
+        task.on(
+          "state_changed",
+          (snap) => {
+            if (this.uploads.get(memoId)?.phase !== "uploading") return;
+            const fraction = snap.totalBytes > 0 ? snap.bytesTransferred / snap.totalBytes : 0;
+            this.update(memoId, {progress: Math.round(fraction * UPLOAD_PROGRESS_SHARE)});
+          },
+          reject,
+          () => resolve()
+        );
+      });
+
+      if (this.uploads.get(memoId)?.phase === "uploading") {
+        this.update(memoId, {phase: "pending", progress: UPLOAD_PROGRESS_SHARE, label: describeMemoStatus("pending")});
+      }
+      this.armStallTimer(memoId);
+      return memoId;
+    } catch (error: any) {
+      console.error("Upload failed:", error);
+      this.stopWatching(memoId);
+      // Don't leave a pending memo behind for audio that never arrived
+      await deleteDoc(memoRef).catch(() => undefined);
+      this.update(memoId, {
+        phase: "error",
+        label: "❌ Upload failed",
+        error: error?.message || "Upload failed",
+        finishedAt: Date.now(),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an upload from the tracker
+   */
+  dismiss(memoId: string): void {
+    this.stopWatching(memoId);
+    this.clearTimer(memoId);
+    if (this.uploads.delete(memoId)) {
+      this.emit();
+    }
+  }
+
+  private watch(uid: string, memoId: string): void {
+    const unsubscribe = onSnapshot(
+      doc(db, "users", uid, "memos", memoId),
+      (snap) => {
+        const data = snap.data();
+        const current = this.uploads.get(memoId);
+        if (!data || !current) return;
+
+        const status: MemoStatus = data.status || "pending";
+        // Until the bytes are up, only a backend failure overrides the upload phase
+        if (current.phase === "uploading" && status === "pending") return;
+
+        const pipeline: MemoPipeline | undefined = data.pipeline;
+        const backendProgress = typeof pipeline?.progress === "number" ? pipeline.progress : 0;
+        const progress = status === "indexed"
+          ? 100
+          : UPLOAD_PROGRESS_SHARE + Math.round((backendProgress * (100 - UPLOAD_PROGRESS_SHARE)) / 100);
+
+        if (status !== "pending") {
+          this.clearTimer(memoId);
+        }
+
+        this.update(memoId, {
+          phase: status,
+          progress: Math.max(current.progress, progress),
+          label: describeMemoStatus(status, pipeline),
+          stalled: status === "pending" ? current.stalled : false,
+          wordCount: typeof data.wordCount === "number" ? data.wordCount : current.wordCount,
+          ...(status === "error" ? {error: data.errorMessage || "Processing failed"} : {}),
+        });
+
+        if (status === "indexed" || status === "error") {
+          this.finish(memoId, status);
+        }
+      },
+      (error) => {
+        console.error("Failed to watch memo status:", error);
+        this.update(memoId, {phase: "error", label: "❌ Error", error: "Lost connection to memo status"});
+        this.finish(memoId, "error");
+      }
+    );
+    this.unsubscribers.set(memoId, unsubscribe);
+  }
+
+  private finish(memoId: string, status: "indexed" | "error"): void {
+    this.stopWatching(memoId);
+    this.clearTimer(memoId);
+    this.update(memoId, {finishedAt: Date.now()});
+    // Errors stay visible until dismissed
+    if (status === "indexed") {
+      this.timers.set(memoId, setTimeout(() => this.dismiss(memoId), COMPLETED_RETENTION_MS));
+    }
+  }
+
+  private armStallTimer(memoId: string): void {
+    if (this.uploads.get(memoId)?.phase !== "pending") return;
+    this.clearTimer(memoId);
+    this.timers.set(memoId, setTimeout(() => {
+      if (this.uploads.get(memoId)?.phase === "pending") {
+        this.update(memoId, {stalled: true});
+      }
+    }, STALL_TIMEOUT_MS));
+  }
+
+  private stopWatching(memoId: string): void {
+    this.unsubscribers.get(memoId)?.();
+    this.unsubscribers.delete(memoId);
+  }
+
+  private clearTimer(memoId: string): void {
+    const timer = this.timers.get(memoId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(memoId);
+    }
+  }
+
+  private update(memoId: string, patch: Partial<TrackedUpload>): void {
+    const current = this.uploads.get(memoId);
+    this.uploads.set(memoId, {...current, ...patch} as TrackedUpload);
+    this.emit();
+  }
+
+  private emit(): void {
+    this.snapshot = Array.from(this.uploads.values()).sort((a, b) => b.startedAt - a.startedAt);
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Singleton instance
+let instance: UploadTracker | null = null;
+
+export function getUploadTracker(): UploadTracker {
+  if (!instance) {
+    instance = new UploadTracker();
+  }
+  return instance;
+}
@@ -0,0 +1,6 @@
+/**
+ * Test Setup
+ * DOM matchers for component tests
+ */
+
+import "@testing-library/jest-dom/vitest";
@@ -7,34 +7,100 @@ export type AudioQuality = "low" | "medium" | "high";
 export type SortOrder = "asc" | "desc";
 export type Theme = "light" | "dark" | "auto";
 
+export interface TranscriptWord {
+  word: string;
+  startTime: number; // Seconds from the start of the recording
+  endTime: number;
+  confidence?: number;
+  speaker?: string; // Diarization label, e.g. "1"
+}
+
+export interface SpeakerSegment {
+  speaker: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
 export interface Memo {
   id: string;
   memoId: string;
   userId: string;
   userName: string;
   transcript: string;
+  title?: string;
   summary?: string;
+  keyPoints?: string[];
+  actionItems?: string[];
+  enrichment?: MemoEnrichmentInfo;
   tags: string[];
+  suggestedTags?: string[]; // Derived from enrichment; applied until tagsEdited
+  tagsEdited?: boolean; // Set once the user edits tags by hand
   isDeleted: boolean;
   createdAt: Date;
   updatedAt: Date;
-  deletedAt?: Date;
+  deletedAt?: Date; // Set while the memo is in the trash
+  purgeAt?: Date; // When the trash purge deletes it for good
   audioSize: number;
   storagePath: string;
   contentType: string;
   status: MemoStatus;
-  indexed: boolean;
+  indexed: boolean; // Mirrors status === "indexed"
+  pipeline?: MemoPipeline;
+  embeddedTranscriptHash?: string; // Transcript fingerprint the chunks were built from
+  embeddingVersions?: string[]; // Embedding versions the memo has chunks in
   wordCount: number;
   duration?: number;
   language?: string;
   quality?: AudioQuality;
-  // New fields for enterprise features
-  category?: string;
+  // Enrichment, written after transcription
+  category?: MemoCategory;
   sentiment?: "positive" | "neutral" | "negative";
-  keyPhrases?: string[];
-  entities?: string[];
+  keyPhrases?: string[]; // Lowercase topic phrases
+  entities?: string[]; // People, organizations, products and places
   confidence?: number;
-  processingTime?: number;
+  processingTime?: number; // Milliseconds from transcription start to indexed
+  // Speaker diarization
+  words?: TranscriptWord[];
+  speakerSegments?: SpeakerSegment[];
+  speakers?: string[];
+  speakerCount?: number;
+  speakerNames?: Record<string, string>; // Diarization label -> display name
+}
+
+// Mirrors MEMO_CATEGORIES in functions/src/enrichment.ts
+export type MemoCategory = "meeting" | "idea" | "todo" | "journal" | "lecture" | "interview" | "note";
+
+// Provenance of the title, summary, key points and action items
+export interface MemoEnrichmentInfo {
+  status: "running" | "done";
+  provider?: string; // "openai" or "heuristic"
+  model?: string;
+  error?: string | null; // Why the configured enricher fell back to the heuristic
+  enrichedAt?: Date;
+}
+
+export type PipelineStage = "transcription" | "embedding";
+
+export interface PipelineStageError {
+  message: string;
+  type: string;
+  category: string;
+  details?: string | null;
+  at?: Date;
+}
+
+// Processing state written by the Cloud Functions alongside Memo.status
+export interface MemoPipeline {
+  stage: MemoStatus;
+  progress?: number; // 0-100
+  embeddedChunks?: number;
+  totalChunks?: number;
+  failedChunks?: number;
+  failedStage?: PipelineStage;
+  stageTimes?: Partial<Record<MemoStatus, Date>>;
+  errors?: Partial<Record<PipelineStage, PipelineStageError>>;
+  updatedAt?: Date;
 }
 
 export interface TextChunk {
@@ -45,14 +111,47 @@ export interface TextChunk {
   chunkIndex: number;
   text: string;
   embedding: number[];
+  textHash?: string; // SHA-256 of text; unchanged chunks keep their embedding
+  embeddingVersion?: string; // e.g. "gemini-embedding-001@1024"; retrieval reads the active one
+  embeddingModel?: string;
+  embeddingDimensions?: number;
   createdAt: Date;
-  startTime?: number;
+  startTime?: number; // Seconds into the recording (null for untimed transcripts)
   endTime?: number;
   wordCount?: number;
+  startWord?: number; // Word range into Memo.words, end exclusive
+  endWord?: number;
   language?: string;
   tokenCount?: number; // Token count for retriever budgeting
   terms?: string[]; // Keywords for hybrid search fallback
   memoDeleted?: boolean; // Denormalized flag for filtering deleted memos
+  speakers?: string[]; // Diarization labels heard in this chunk
+  speakerText?: string; // Chunk text as "Speaker N: ..." turns
+}
+
+// Action item extracted from a memo (written by the Cloud Functions; the app
+// only changes its status)
+export type TaskStatus = "open" | "completed" | "dismissed";
+
+export interface Task {
+  id: string;
+  taskId: string;
+  uid: string;
+  memoId: string;
+  memoTitle?: string | null;
+  text: string;
+  status: TaskStatus;
+  dueDate?: string | null; // YYYY-MM-DD
+  dueText?: string | null; // Wording the due date was parsed from, e.g. "Friday"
+  chunkIndex?: number | null; // Chunk the task was spoken in
+  sourceText?: string | null; // Transcript sentence the task came from
+  startTime?: number | null; // Seconds into the recording
+  endTime?: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date | null;
+  dismissedAt?: Date | null;
+  memoDeleted?: boolean; // Source memo is in the trash
 }
 
 export interface ChatMessage {
@@ -61,15 +160,32 @@ export interface ChatMessage {
   content: string;
   timestamp?: Date;
   citations?: Citation[];
+  searchQuery?: string; // Standalone query the sources were retrieved with, when rewritten from the question
   tokens?: number;
 }
 
+// Retrieval filters sent with chat requests (validated by validateChatFilters in services/chat-api/src/validation.ts)
+export interface ChatFilters {
+  createdAfter?: string; // ISO 8601, inclusive
+  createdBefore?: string; // ISO 8601, inclusive
+  language?: string; // BCP-47 code of the memo's transcription language
+  tags?: string[]; // Memos with any of these tags
+  speakers?: string[]; // Chunks where a speaker with any of these names talks
+  memoIds?: string[];
+}
+
 export interface Citation {
   memoId: string;
   chunkIndex: number;
   text: string;
   confidence?: number;
   timestamp?: number;
+  speakers?: string[];
+  startTime?: number; // Seconds into the recording where the cited chunk starts
+  endTime?: number;
+  ranks?: {vector?: number; keyword?: number}; // 1-based rank in each retriever's results
+  fusedScore?: number; // Reciprocal rank fusion score
+  rerankScore?: number; // Reranker relevance (0-1) when reranking is enabled
 }
 
 export interface ChatSession {
@@ -97,7 +213,8 @@ export interface UserProfile {
 
 export interface UserPreferences {
   theme: Theme;
-  language: string;
+  language: string; // Primary transcription language (BCP-47, e.g. "en-US")
+  languages?: string[]; // Extra candidates for automatic language detection
   autoTranscribe: boolean;
   notificationsEnabled: boolean;
   privacyMode?: boolean;
@@ -3,6 +3,8 @@
  * Enterprise-grade codec detection with fallback strategy and validation
  */
 
+import {validateAudioFile} from "./validation";
+
 export interface CodecInfo {
   mimeType: string;
   extension: string;
@@ -18,10 +20,6 @@ const CODEC_PRIORITY: CodecInfo[] = [
   {mimeType: "audio/ogg", extension: "ogg", priority: 5, supported: false},
 ];
 
-const MAX_AUDIO_SIZE = 500 * 1024 * 1024; // 500MB
-const MIN_AUDIO_SIZE = 1024; // 1KB
-const VALID_AUDIO_TYPES = ["audio/webm", "audio/mp4", "audio/m4a", "audio/wav", "audio/mp3", "audio/ogg"];
-
 export function detectSupportedCodecs(): CodecInfo[] {
   return CODEC_PRIORITY.map((codec) => ({
     ...codec,
@@ -39,7 +37,7 @@ export function getCodecInfo(mimeType: string): CodecInfo | null {
   return CODEC_PRIORITY.find((c) => c.mimeType.startsWith(normalized)) || null;
 }
 
-export function validateAudioBlob(blob: Blob): {valid: boolean; error?: string} {
+export function validateAudioBlob(blob: Blob, durationSeconds?: number): {valid: boolean; error?: string} {
   if (!blob) {
     return {valid: false, error: "Audio blob is missing"};
   }
@@ -48,19 +46,8 @@ export function validateAudioBlob(blob: Blob): {valid: boolean; error?: string}
     return {valid: false, error: "Audio file is empty"};
   }
 
-  if (blob.size < MIN_AUDIO_SIZE) {
-    return {valid: false, error: "Audio file is too small (minimum 1KB)"};
-  }
-
-  if (blob.size > MAX_AUDIO_SIZE) {
-    return {valid: false, error: `Audio file is too large (max ${MAX_AUDIO_SIZE / 1024 / 1024}MB)`};
-  }
-
-  if (!VALID_AUDIO_TYPES.some((t) => blob.type.startsWith(t))) {
-    return {valid: false, error: `Invalid audio format: ${blob.type || "unknown"}`};
-  }
-
-  return {valid: true};
+  // Size, format and duration limits shared with storage.rules and the backend
+  return validateAudioFile(blob, durationSeconds);
 }
 
 export function getFileExtension(mimeType: string): string {
@@ -71,7 +58,10 @@ export function getFileExtension(mimeType: string): string {
     "audio/webm": "webm",
     "audio/mp4": "m4a",
     "audio/m4a": "m4a",
+    "audio/x-m4a": "m4a",
     "audio/wav": "wav",
+    "audio/x-wav": "wav",
+    "audio/mpeg": "mp3",
     "audio/mp3": "mp3",
     "audio/ogg": "ogg",
   };
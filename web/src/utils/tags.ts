@@ -0,0 +1,33 @@
+/**
+ * Memo Tags
+ * Tag normalization shared by the tag editor and filters (mirrors functions/src/tags.ts)
+ */
+
+// Firestore rules reject memos with more than 20 tags
+export const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+
+/**
+ * Normalize a tag: lowercase, no leading "#", words joined by "-"
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, MAX_TAG_LENGTH)
+    .replace(/-+$/, "");
+}
+
+/**
+ * All tags used across memos, most used first
+ */
+export function collectTags(memos: Array<{tags?: string[]}>): string[] {
+  const counts = new Map<string, number>();
+  memos.forEach((memo) => memo.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
@@ -0,0 +1,17 @@
+/**
+ * Time Formatting
+ * Renders recording offsets for citations and transcript playback
+ */
+
+/**
+ * Format a recording offset in seconds as m:ss (or h:mm:ss past an hour)
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
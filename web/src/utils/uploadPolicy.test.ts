@@ -0,0 +1,89 @@
+/**
+ * Upload Policy Tests
+ * The recorder's reported duration, and the policy copies in
+ * functions/src/uploadPolicy.ts and storage.rules, which must accept exactly
+ * the files this one does.
+ * Run with: npm test
+ */
+
+import {readFileSync} from "node:fs";
+import path from "node:path";
+import {describe, expect, it} from "vitest";
+import * as functionsPolicy from "../../../functions/src/uploadPolicy";
+import {
+  AUDIO_FORMATS,
+  MAX_AUDIO_BYTES,
+  MAX_AUDIO_DURATION_SECONDS,
+  MIN_AUDIO_BYTES,
+  checkAudioUpload,
+  recordedDurationSeconds,
+} from "./uploadPolicy";
+
+const rules = readFileSync(path.resolve(__dirname, "../../../storage.rules"), "utf8");
+
+// Value of a rules expression such as "100 * 1024 * 1024"
+function ruleNumber(pattern: RegExp): number {
+  const expression = rules.match(pattern)?.[1];
+  if (!expression) throw new Error(`No match for ${pattern} in storage.rules`);
+  return expression.split("*").reduce((product, factor) => product * Number(factor.trim()), 1);
+}
+
+const allMimeTypes = AUDIO_FORMATS.flatMap((format) => format.mimeTypes);
+const webm = {sizeBytes: 2048, contentType: "audio/webm"};
+
+describe("recordedDurationSeconds", () => {
+  it("rounds up to whole seconds", () => {
+    expect(recordedDurationSeconds(1200)).toBe(2);
+  });
+
+  it("keeps a recording stopped at the limit within it", () => {
+    const durationSeconds = recordedDurationSeconds(MAX_AUDIO_DURATION_SECONDS * 1000 + 400);
+    expect(durationSeconds).toBe(MAX_AUDIO_DURATION_SECONDS);
+    expect(checkAudioUpload({...webm, durationSeconds})).toBeNull();
+    expect(durationSeconds).toBeLessThanOrEqual(ruleNumber(/int\(metadata\.durationSeconds\) <= ([\d\s*]+);/));
+  });
+});
+
+describe("functions/src/uploadPolicy.ts", () => {
+  it("has the same formats and limits", () => {
+    expect(functionsPolicy.AUDIO_FORMATS).toEqual(AUDIO_FORMATS);
+    expect(functionsPolicy.MIN_AUDIO_BYTES).toBe(MIN_AUDIO_BYTES);
+    expect(functionsPolicy.MAX_AUDIO_BYTES).toBe(MAX_AUDIO_BYTES);
+    expect(functionsPolicy.MAX_AUDIO_DURATION_SECONDS).toBe(MAX_AUDIO_DURATION_SECONDS);
+  });
+
+  it.each([
+    webm,
+    {sizeBytes: 2048, contentType: "Audio/MP4; codecs=mp4a"},
+    {sizeBytes: 2048, contentType: "video/mp4"},
+    {sizeBytes: 10, contentType: "audio/ogg"},
+    {sizeBytes: MAX_AUDIO_BYTES + 1, contentType: "audio/wav"},
+    {...webm, durationSeconds: MAX_AUDIO_DURATION_SECONDS + 1},
+  ])("checks %j the same way", (upload) => {
+    expect(functionsPolicy.checkAudioUpload(upload)).toEqual(checkAudioUpload(upload));
+  });
+});
+
+describe("storage.rules", () => {
+  it("has the same size and duration limits", () => {
+    expect(ruleNumber(/request\.resource\.size >= ([\d\s*]+) &&/)).toBe(MIN_AUDIO_BYTES);
+    expect(ruleNumber(/request\.resource\.size <= ([\d\s*]+);/)).toBe(MAX_AUDIO_BYTES);
+    expect(ruleNumber(/int\(metadata\.durationSeconds\) <= ([\d\s*]+);/)).toBe(MAX_AUDIO_DURATION_SECONDS);
+  });
+
+  it("accepts exactly the policy's content types, in any case", () => {
+    const source = rules.match(/contentType\.lower\(\)\.matches\(\s*'([^']+)'\)/)?.[1];
+    expect(source).toBeDefined();
+    const pattern = new RegExp(source as string);
+    const accepts = (contentType: string) => pattern.test(contentType.toLowerCase());
+
+    const subtypes = source?.match(/audio\/\(([^)]+)\)/)?.[1].split("|").sort();
+    expect(subtypes?.map((subtype) => `audio/${subtype}`)).toEqual([...allMimeTypes].sort());
+    allMimeTypes.forEach((mimeType) => {
+      expect(accepts(mimeType)).toBe(true);
+      expect(accepts(`${mimeType.toUpperCase()};codecs=opus`)).toBe(true);
+    });
+    expect(accepts("audio/flac")).toBe(false);
+    expect(accepts("video/webm")).toBe(false);
+  });
+});
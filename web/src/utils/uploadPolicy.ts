@@ -0,0 +1,113 @@
+/**
+ * Upload Policy
+ * Accepted audio formats and the size and duration limits for memo uploads
+ * (mirrors functions/src/uploadPolicy.ts and the audio rule in storage.rules;
+ * uploadPolicy.test.ts fails when they drift apart)
+ */
+
+export interface AudioFormat {
+  label: string;
+  mimeTypes: string[];
+}
+
+export const AUDIO_FORMATS: AudioFormat[] = [
+  {label: "WebM", mimeTypes: ["audio/webm"]},
+  {label: "Ogg", mimeTypes: ["audio/ogg"]},
+  {label: "MP4/M4A", mimeTypes: ["audio/mp4", "audio/m4a", "audio/x-m4a"]},
+  {label: "MP3", mimeTypes: ["audio/mpeg", "audio/mp3"]},
+  {label: "WAV", mimeTypes: ["audio/wav", "audio/x-wav"]},
+];
+
+export const MIN_AUDIO_BYTES = 1024; // 1 KB
+export const MAX_AUDIO_BYTES = 100 * 1024 * 1024; // 100 MB
+export const MAX_AUDIO_DURATION_SECONDS = 2 * 60 * 60; // 2 hours
+
+export type UploadLimit = "minSize" | "maxSize" | "maxDuration" | "format";
+
+export interface UploadViolation {
+  limit: UploadLimit;
+  message: string;
+}
+
+export interface AudioUpload {
+  sizeBytes: number;
+  contentType: string;
+  durationSeconds?: number;
+}
+
+/**
+ * Format a byte count as "512 bytes", "1 KB" or "100 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`;
+  if (bytes < 1024 * 1024) return `${+(bytes / 1024).toFixed(1)} KB`;
+  return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Format a duration as "45 s", "12 min" or "2 h 5 min"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.ceil(seconds);
+  if (total < 60) return `${total} s`;
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.ceil((total % 3600) / 60);
+  if (hours === 0) return `${minutes} min`;
+  return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+}
+
+/**
+ * Whole seconds reported for a recording. Recording auto-stops a moment after
+ * reaching the duration limit; rounding up must not push it over the limit.
+ */
+export function recordedDurationSeconds(elapsedMs: number): number {
+  return Math.min(Math.ceil(elapsedMs / 1000), MAX_AUDIO_DURATION_SECONDS);
+}
+
+/**
+ * Base MIME type without parameters ("audio/webm;codecs=opus" -> "audio/webm")
+ */
+export function baseMimeType(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+export function isAllowedAudioType(contentType: string): boolean {
+  const base = baseMimeType(contentType);
+  return AUDIO_FORMATS.some((format) => format.mimeTypes.includes(base));
+}
+
+/**
+ * Check audio against the upload policy; returns the first limit broken, or null
+ */
+export function checkAudioUpload({sizeBytes, contentType, durationSeconds}: AudioUpload): UploadViolation | null {
+  if (!isAllowedAudioType(contentType)) {
+    const supported = AUDIO_FORMATS.map((format) => format.label).join(", ");
+    return {
+      limit: "format",
+      message: `Unsupported audio content type ${contentType || "(none)"}. Supported formats: ${supported}.`,
+    };
+  }
+
+  if (sizeBytes < MIN_AUDIO_BYTES) {
+    return {
+      limit: "minSize",
+      message: `Audio file too small: ${formatBytes(sizeBytes)} is below the ${formatBytes(MIN_AUDIO_BYTES)} minimum.`,
+    };
+  }
+
+  if (sizeBytes > MAX_AUDIO_BYTES) {
+    return {
+      limit: "maxSize",
+      message: `Audio file too large: ${formatBytes(sizeBytes)} exceeds the ${formatBytes(MAX_AUDIO_BYTES)} upload limit.`,
+    };
+  }
+
+  if (durationSeconds !== undefined && durationSeconds > MAX_AUDIO_DURATION_SECONDS) {
+    return {
+      limit: "maxDuration",
+      message: `Audio too long: ${formatDuration(durationSeconds)} exceeds the ${formatDuration(MAX_AUDIO_DURATION_SECONDS)} duration limit.`,
+    };
+  }
+
+  return null;
+}
@@ -4,6 +4,7 @@
  */
 
 import {logWarning} from "./errorHandler";
+import {checkAudioUpload} from "./uploadPolicy";
 
 export interface ValidationResult {
   valid: boolean;
@@ -22,40 +23,12 @@ const DANGEROUS_PATTERNS = [
 ];
 
 /**
- * Validate audio file
+ * Validate audio file against the shared upload policy. The duration is the
+ * recording length in seconds, when known.
  */
-export function validateAudioFile(file: Blob): ValidationResult {
-  const MAX_SIZE = 50 * 1024 * 1024; // 50 MB
-  const MIN_SIZE = 1024; // 1 KB minimum
-  const ALLOWED_TYPES = ["audio/webm", "audio/mp3", "audio/wav", "audio/m4a", "audio/mp4"];
-
-  if (file.size < MIN_SIZE) {
-    return {
-      valid: false,
-      error: "Recording is too short. Please record at least a few seconds.",
-    };
-  }
-
-  if (file.size > MAX_SIZE) {
-    return {
-      valid: false,
-      error: `File size exceeds ${MAX_SIZE / 1024 / 1024}MB limit`,
-    };
-  }
-
-  // Allow empty type (browser default) or check against allowed types
-  // Handle codec specifications like "audio/webm;codecs=opus"
-  if (file.type) {
-    const baseType = file.type.split(";")[0];
-    if (!ALLOWED_TYPES.includes(baseType)) {
-      return {
-        valid: false,
-        error: `File type ${file.type} not supported. Supported types: ${ALLOWED_TYPES.join(", ")}`,
-      };
-    }
-  }
-
-  return {valid: true};
+export function validateAudioFile(file: Blob, durationSeconds?: number): ValidationResult {
+  const violation = checkAudioUpload({sizeBytes: file.size, contentType: file.type, durationSeconds});
+  return violation ? {valid: false, error: violation.message} : {valid: true};
 }
 
 /**
@@ -0,0 +1,45 @@
+/**
+ * Word Alignment Tests
+ * Playback must time words the way the indexer times chunks, so this copy is
+ * checked against alignWords in functions/src/chunking.ts.
+ * Run with: npm test
+ */
+
+import {describe, expect, it} from "vitest";
+import {alignWords as functionsAlignWords} from "../../../functions/src/chunking";
+import type {TranscriptWord} from "../types";
+import {alignWords} from "./wordAlignment";
+
+// STT words one second apart
+const spoken = (text: string): TranscriptWord[] =>
+  text.split(" ").map((word, i) => ({word, startTime: i, endTime: i + 0.5}));
+
+const tokens = (text: string) => text.split(/\s+/).filter((t) => t.length > 0);
+
+describe("alignWords", () => {
+  it("times words around STT punctuation and small edits", () => {
+    const alignment = alignWords(tokens("Hello, — we ship Friday, maybe."), spoken("hello we ship on friday maybe"));
+    expect(alignment?.wordIndexes).toEqual([0, undefined, 1, 2, 4, 5]);
+    expect(alignment?.timed[1]).toEqual({word: "—", startTime: 0.5, endTime: 0.5});
+  });
+
+  it("keeps timings for a transcript cut short of its words", () => {
+    expect(alignWords(tokens("one two"), spoken("one two three four"))?.wordIndexes).toEqual([0, 1]);
+  });
+
+  it("gives up when too few tokens match", () => {
+    expect(alignWords(tokens("entirely different text here"), spoken("nothing alike at all"))).toBeNull();
+    expect(alignWords(tokens("no words"), [])).toBeNull();
+  });
+
+  it.each([
+    ["Hello, — we ship Friday, maybe.", "hello we ship on friday maybe"],
+    ["one two", "one two three four"],
+    ["a b c d e f g h", "a x c d y f g h"],
+    ["Sam said: the budget is final!", "sam said the the budget is final"],
+    ["entirely different text here", "nothing alike at all"],
+  ])("aligns %j like the indexer", (transcript, words) => {
+    expect(alignWords(tokens(transcript), spoken(words)))
+      .toEqual(functionsAlignWords(tokens(transcript), spoken(words)));
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Word Alignment
+ * Pairs transcript tokens with STT word timings for synced playback
+ * (mirrors alignWords in functions/src/chunking.ts, which gives chunks their
+ * time ranges; checked by wordAlignment.test.ts)
+ */
+
+import type {TranscriptWord} from "../types";
+
+/**
+ * Transcript tokens with the timing of their STT word
+ */
+export interface Alignment {
+  timed: TranscriptWord[]; // One per token
+  wordIndexes: Array<number | undefined>; // STT word of each token, if any
+}
+
+// How far alignment looks ahead to resync after an inserted or dropped word
+const ALIGN_LOOKAHEAD = 4;
+// Share of tokens that must match an STT word for timings to be trusted
+const MIN_ALIGNED_SHARE = 0.5;
+
+/**
+ * Comparable form of a token or STT word: lowercase, no punctuation
+ */
+function alignmentKey(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/**
+ * Position of key within the lookahead window, or -1
+ */
+function findAhead(keys: string[], from: number, key: string): number {
+  const end = Math.min(from + ALIGN_LOOKAHEAD, keys.length);
+  for (let k = from; k < end; k++) {
+    if (keys[k] === key) return k;
+  }
+  return -1;
+}
+
+/**
+ * Give each transcript token the timing of the matching STT word. Tokens and
+ * words are matched in order, resyncing over a few inserted or dropped words;
+ * a word that differs in place is taken as an edit and keeps its timing.
+ * Tokens left without a word get a zero-length timing where the previous word
+ * ended. Returns null when too few tokens match.
+ */
+export function alignWords(tokens: string[], words: TranscriptWord[]): Alignment | null {
+  if (words.length === 0) return null;
+  const tokenKeys = tokens.map(alignmentKey);
+  const wordKeys = words.map((w) => alignmentKey(w.word || ""));
+  const wordIndexes = new Array<number | undefined>(tokens.length);
+
+  let matches = 0;
+  let i = 0;
+  let j = 0;
+  while (i < tokens.length && j < words.length) {
+    if (!tokenKeys[i]) {
+      i++; // Punctuation-only token, never spoken
+    } else if (!wordKeys[j]) {
+      j++;
+    } else if (tokenKeys[i] === wordKeys[j]) {
+      wordIndexes[i++] = j++;
+      matches++;
+    } else {
+      // Resync on whichever side needs the shorter skip
+      const nextWord = findAhead(wordKeys, j + 1, tokenKeys[i]);
+      const nextToken = findAhead(tokenKeys, i + 1, wordKeys[j]);
+      const skipWords = nextWord !== -1 && (nextToken === -1 || nextWord - j <= nextToken - i);
+      if (skipWords) {
+        j = nextWord;
+      } else if (nextToken !== -1) {
+        i = nextToken;
+      } else {
+        wordIndexes[i++] = j++;
+      }
+    }
+  }
+  if (matches < tokens.length * MIN_ALIGNED_SHARE) return null;
+
+  const first = words[wordIndexes.find((index) => index !== undefined) ?? 0];
+  let previous: TranscriptWord = {...first, endTime: first.startTime};
+  const timed = tokens.map((token, k) => {
+    const index = wordIndexes[k];
+    if (index !== undefined) {
+      previous = words[index];
+      return {...previous, word: token};
+    }
+    const filler: TranscriptWord = {word: token, startTime: previous.endTime, endTime: previous.endTime};
+    if (previous.speaker !== undefined) filler.speaker = previous.speaker;
+    return filler;
+  });
+  return {timed, wordIndexes};
+}